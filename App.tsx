@@ -1,30 +1,76 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { AlgorithmType, Landscape, Point, SimulationState, SavedExperiment, ChatMessage } from './types';
-import { INITIAL_CONFIG, LANDSCAPES, LEARNING_MODULES, RESEARCH_OPTIONS, COGNITIVE_SESSION } from './constants';
-import { stepSimulation } from './services/optimizer';
+import { AlgorithmType, CustomLandscapeDefinition, Landscape, LearningModule, OptimizationConfig, SimulationState, SavedExperiment, RunRecord, ChatMessage, SweepCellResult, BenchmarkResult, ChartAxis, SimulationCommand, SimulationMessage, AnimationFormat, ImageFormat, FrameScene, ViewMode, HeatmapStyle, FieldOverlays, Vector2, ProjectionMode, ProjectionPlane } from './types';
+import { INITIAL_CONFIG, LANDSCAPES, LEARNING_MODULES, RESEARCH_OPTIONS, COGNITIVE_SESSION, POPULATION_ALGORITHMS, STOP_REASON_LABELS, CHART_AXIS_LABELS, DEFAULT_HEATMAP_STYLE, DEFAULT_FIELD_OVERLAYS } from './constants';
+import { agentCount, applyFrame, distanceToOptimum, hasConverged, iterationsToThreshold, toStepConfig, unpackAgents } from './services/runner';
+import { createTimeline, frameAt, optimizerStateAt, projectScene, recordSimulationFrame, sampleIterations, sceneAt, timelineBounds, trailsAt } from './services/timeline';
+import { MAX_ANIMATION_FRAMES, canRecordWebm, chartImage, downloadBlob, exportAnimation, framePng, frameSvg } from './services/exporters';
+import { frameCaption } from './services/render';
+import { searchDistribution } from './services/optimizer';
+import { boundsOf, canScale, dimensionsOf, optimaPositions, pcaPlane, planeLandscape, positionOf, slicePlane, withDimensions } from './services/dimensions';
+import { buildSweepGrid, runBenchmark, runSweep } from './services/sweep';
+import { randomSeed } from './services/random';
 import Visualizer from './components/Visualizer';
+import SurfaceView from './components/SurfaceView';
+import SweepResults from './components/SweepResults';
+import CompareView from './components/CompareView';
+import BenchmarkResults from './components/BenchmarkResults';
+import ChartAxisToggle from './components/ChartAxisToggle';
+import CoolingControls from './components/CoolingControls';
+import GeneticControls from './components/GeneticControls';
+import LineagePanel from './components/LineagePanel';
+import ExplorationChart from './components/ExplorationChart';
+import TimelineControls from './components/TimelineControls';
+import ExportControls from './components/ExportControls';
+import HeatmapControls from './components/HeatmapControls';
+import ProjectionControls from './components/ProjectionControls';
+import ParallelCoordinates from './components/ParallelCoordinates';
+import LandscapeEditor from './components/LandscapeEditor';
+import { buildLandscape } from './services/customLandscapes';
+import { deleteCustomLandscape, deleteExperiment, exportLibrary, importLibrary, listCustomLandscapes, listExperiments, listRuns, saveCustomLandscape, saveExperiments, saveRun } from './services/storage';
 import Tooltip from './components/Tooltip';
 import { getGeminiFeedback, getUseCaseGuidance, analyzeConfiguration, getELI5Analysis, sendChatQuery } from './services/geminiService';
-import { Play, Pause, RefreshCw, Settings, ChevronRight, Brain, Zap, Target, Beaker, Calculator, Sigma, Database, Cpu, Save, Download, Upload, Trash2, FolderOpen, Sparkles, AlertCircle, Baby, MessageSquare, Send, X } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import { Play, Pause, RefreshCw, Settings, ChevronRight, Brain, Zap, Target, Beaker, Calculator, Sigma, Database, Cpu, Save, Download, Upload, Trash2, FolderOpen, Sparkles, AlertCircle, Baby, MessageSquare, Send, X, Dices, Grid3x3, Square, StepForward, Plus, Pencil, Search, BarChart3, GitBranch, Box, MousePointerClick } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+
+// Research view canvas size (exports are rendered from the same coordinates, then scaled)
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 500;
 
 const App: React.FC = () => {
   // --- State ---
-  const [activeTab, setActiveTab] = useState<'learn' | 'research'>('learn');
+  const [activeTab, setActiveTab] = useState<'learn' | 'research' | 'compare'>('learn');
   const [selectedModuleId, setSelectedModuleId] = useState<string>(LEARNING_MODULES[0].id);
   
-  const [config, setConfig] = useState(INITIAL_CONFIG);
+  const [config, setConfig] = useState<OptimizationConfig>(INITIAL_CONFIG);
   const [selectedLandscape, setSelectedLandscape] = useState<Landscape>(LANDSCAPES[1]); // Default to Rastrigin
   const [showTrails, setShowTrails] = useState(true);
+  const [showFamilyTree, setShowFamilyTree] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('2d');
+  const [heatmapStyle, setHeatmapStyle] = useState<HeatmapStyle>(DEFAULT_HEATMAP_STYLE);
+  const [fieldOverlays, setFieldOverlays] = useState<FieldOverlays>(DEFAULT_FIELD_OVERLAYS);
+  const [projectionMode, setProjectionMode] = useState<ProjectionMode>('slice');
+  const [sliceAxes, setSliceAxes] = useState<[number, number]>([0, 1]);
+  const [sliceAnchor, setSliceAnchor] = useState<number[] | null>(null); // Null = through the optimum
+  const [pcaFit, setPcaFit] = useState<ProjectionPlane | null>(null);
+  const [chartAxis, setChartAxis] = useState<ChartAxis>('iteration');
   const [simSpeed, setSimSpeed] = useState(50); // ms delay
+
+  // User-defined landscapes live alongside the built-ins
+  const [customLandscapes, setCustomLandscapes] = useState<CustomLandscapeDefinition[]>([]);
+  const [landscapeEditor, setLandscapeEditor] = useState<{ initial?: CustomLandscapeDefinition } | null>(null);
+
+  const allLandscapes = useMemo(() => [
+      ...LANDSCAPES,
+      ...customLandscapes.map(buildLandscape).filter((l): l is Landscape => l !== null)
+  ], [customLandscapes]);
+
+  const selectedCustomLandscape = customLandscapes.find(d => d.name === selectedLandscape.name);
+  // Scalable landscapes at the chosen dimension count (2D and non-scalable landscapes come back unchanged)
+  const activeLandscape = useMemo(() => withDimensions(selectedLandscape, config.dimensions), [selectedLandscape, config.dimensions]);
+  const dimensions = dimensionsOf(activeLandscape);
   
-  // Real-time Ref to allow modifying config without resetting the interval loop
+  // Real-time Ref so worker frames are folded in with the latest config
   const configRef = useRef(config);
-  
-  // Sync Ref with State
-  useEffect(() => {
-    configRef.current = config;
-  }, [config]);
 
   const [simState, setSimState] = useState<SimulationState>({
     running: false,
@@ -32,13 +78,79 @@ const App: React.FC = () => {
     bestPoint: null,
     history: [],
     agents: [],
-    trails: []
+    trails: [],
+    rngState: INITIAL_CONFIG.seed,
+    optimizerState: {},
+    evaluations: 0,
+    lastImprovement: 0,
+    stopReason: null,
+    lineage: [],
+    visited: []
   });
 
+  // The optimizer loop runs in a Web Worker; the UI only sends commands and folds in frames
+  const workerRef = useRef<Worker | null>(null);
+
+  const postCommand = (cmd: SimulationCommand) => {
+    workerRef.current?.postMessage(cmd);
+  };
+
+  // Every iteration received so far, for scrubbing and replay (mutated in place; the bounds drive re-renders)
+  const timelineRef = useRef(createTimeline());
+  const [timelineRange, setTimelineRange] = useState<{ first: number; last: number } | null>(null);
+  const [viewIteration, setViewIteration] = useState<number | null>(null); // null = follow the live simulation
+  const [replaying, setReplaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [exportProgress, setExportProgress] = useState<number | null>(null); // Animation render progress, 0..1
+  const convergenceChartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./services/simulation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+      const frame = e.data;
+      if ('error' in frame) {
+        alert(frame.error);
+        return;
+      }
+      recordSimulationFrame(timelineRef.current, frame);
+      setTimelineRange(timelineBounds(timelineRef.current));
+      if (frame.reset) {
+        setViewIteration(null);
+        setReplaying(false);
+      }
+      setSimState(prev => applyFrame(prev, frame, configRef.current.algo));
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Sync Ref and worker with State, without restarting a running simulation
+  useEffect(() => {
+    configRef.current = config;
+    postCommand({ type: 'config-update', config });
+  }, [config]);
+
+  useEffect(() => {
+    postCommand({ type: 'config-update', intervalMs: simSpeed });
+  }, [simSpeed]);
+
   const [aiFeedback, setAiFeedback] = useState<string | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
+  const gradeOnPauseRef = useRef(false); // Set by the Pause button; stepping and scrubbing also pause but should not grade
   const [savedExperiments, setSavedExperiments] = useState<SavedExperiment[]>([]);
   const [experimentName, setExperimentName] = useState("");
+  const [experimentTags, setExperimentTags] = useState("");
+  const [librarySearch, setLibrarySearch] = useState("");
+  const [libraryTag, setLibraryTag] = useState<string | null>(null);
+
+  // Restore the persisted library once on startup
+  useEffect(() => {
+      listExperiments().then(setSavedExperiments);
+      listCustomLandscapes().then(setCustomLandscapes);
+  }, []);
   
   // AI Assistant State
   const [useCaseInput, setUseCaseInput] = useState("");
@@ -55,38 +167,67 @@ const App: React.FC = () => {
   const [chatInput, setChatInput] = useState("");
   const [isChatSending, setIsChatSending] = useState(false);
 
-  const intervalRef = useRef<number | null>(null);
+  // Parameter Sweep State
+  const [sweepSeeds, setSweepSeeds] = useState(1);
+  const [sweepTolerance, setSweepTolerance] = useState(0.1);
+  const [sweepProgress, setSweepProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sweepResults, setSweepResults] = useState<SweepCellResult[]>([]);
+  const sweepAbortRef = useRef<AbortController | null>(null);
+
+  // Multi-seed Benchmark State
+  const [benchmarkSeeds, setBenchmarkSeeds] = useState(RESEARCH_OPTIONS.benchmarkSeeds[1]);
+  const [benchmarkTolerance, setBenchmarkTolerance] = useState(0.1);
+  const [benchmarkProgress, setBenchmarkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[]>([]);
+  const benchmarkAbortRef = useRef<AbortController | null>(null);
+
+  // Run bookkeeping for RunRecord: timings, and a saved run waiting to replace the next reset
+  const runClockRef = useRef({ startedAt: null as number | null, finishedAt: null as number | null, elapsedMs: 0, resumedAt: null as number | null });
+  const pendingRunRef = useRef<RunRecord | null>(null);
 
   // --- Actions ---
 
   const resetSimulation = useCallback(() => {
-    // Initialize Agents randomly
-    const newAgents: Point[] = [];
-    const count = config.algo === AlgorithmType.GENETIC ? (config.populationSize || 20) : 1;
-    
-    for(let i=0; i<count; i++) {
-        const x = Math.random() * (selectedLandscape.maxX - selectedLandscape.minX) + selectedLandscape.minX;
-        const y = Math.random() * (selectedLandscape.maxY - selectedLandscape.minY) + selectedLandscape.minY;
-        newAgents.push({ x, y, value: selectedLandscape.func(x, y) });
+    const run = pendingRunRef.current;
+    // Restore a loaded run once the config it was recorded with is in place
+    if (run && run.config.algo === config.algo && run.config.populationSize === config.populationSize
+        && run.config.seed === config.seed && run.landscapeName === selectedLandscape.name) {
+      pendingRunRef.current = null;
+      postCommand({
+        type: 'restore',
+        config: run.config,
+        landscapeName: run.landscapeName,
+        customLandscape: selectedCustomLandscape,
+        state: {
+          running: false,
+          iteration: run.iterations,
+          bestPoint: run.bestPoint,
+          history: run.history,
+          agents: run.finalAgents,
+          trails: run.trails,
+          rngState: run.rngState,
+          optimizerState: run.optimizerState,
+          evaluations: run.evaluations ?? 0,
+          lastImprovement: run.lastImprovement ?? run.iterations,
+          stopReason: run.stopReason ?? null,
+          lineage: run.lineage ?? [],
+          visited: run.visited ?? []
+        }
+      });
+      runClockRef.current = { startedAt: run.startedAt, finishedAt: run.finishedAt, elapsedMs: run.durationMs, resumedAt: null };
+      setAiFeedback(run.aiFeedback);
+      setEli5Text(run.eli5Text);
+      return;
     }
 
-    // Sort to find best
-    newAgents.sort((a,b) => a.value - b.value);
-
-    // Init trails: each agent starts with its initial position
-    const initialTrails = newAgents.map(a => [a]);
-
-    setSimState({
-        running: false,
-        iteration: 0,
-        bestPoint: newAgents[0],
-        history: [{ iteration: 0, cost: newAgents[0].value }],
-        agents: newAgents,
-        trails: initialTrails
-    });
+    // The worker re-seeds agents from config.seed so the same config always starts in the same place
+    postCommand({ type: 'reset', config, landscapeName: selectedLandscape.name, customLandscape: selectedCustomLandscape });
+    runClockRef.current = { startedAt: null, finishedAt: null, elapsedMs: 0, resumedAt: null };
     setAiFeedback(null);
     setEli5Text(null);
-  }, [config.algo, config.populationSize, selectedLandscape]);
+    // Only the placement-relevant fields should trigger a reset, not every slider tweak
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.algo, config.populationSize, config.seed, config.startPositions, config.dimensions, selectedLandscape]);
 
   useEffect(() => {
     resetSimulation();
@@ -95,7 +236,7 @@ const App: React.FC = () => {
   // Intelligent Algorithm Filtering
   const allowedAlgorithms = useMemo(() => {
       if (selectedLandscape.name === "Cognitive Sandbox") {
-          return [AlgorithmType.SIMULATED_ANNEALING, AlgorithmType.GENETIC];
+          return [AlgorithmType.SIMULATED_ANNEALING, AlgorithmType.GENETIC, AlgorithmType.PARTICLE_SWARM, AlgorithmType.DIFFERENTIAL_EVOLUTION, AlgorithmType.CMA_ES];
       }
       return Object.values(AlgorithmType);
   }, [selectedLandscape.name]);
@@ -109,76 +250,191 @@ const App: React.FC = () => {
 
 
   const toggleSimulation = () => {
-    setSimState(prev => ({ ...prev, running: !prev.running }));
+    if (!simState.running) {
+      // Running again always continues from the live end, and the finished run is graded afresh
+      setViewIteration(null);
+      setReplaying(false);
+      setAiFeedback(null);
+    }
+    gradeOnPauseRef.current = simState.running;
+    postCommand({ type: simState.running ? 'pause' : 'start' });
+  };
+
+  const stepOnce = () => {
+    setViewIteration(null);
+    gradeOnPauseRef.current = false;
+    postCommand({ type: 'step' });
+  };
+
+  // --- Placed starts ---
+  // Clicking adds a start (the oldest goes once every agent is placed); either way the run restarts from them
+  const placeStart = (point: Vector2) => {
+    setViewIteration(null);
+    setConfig(c => ({ ...c, startPositions: [...(c.startPositions ?? []), point].slice(-agentCount(c)) }));
+  };
+
+  // Dragging an agent that was not placed pins every start where it is, so only the dragged one moves
+  const moveStart = (index: number, point: Vector2) => {
+    const current = displayAgents[index];
+    if (!current) return;
+    setConfig(c => {
+      const starts = c.startPositions ?? [];
+      const placedIndex = starts.findIndex(p => Math.abs(p.x - current.x) < 1e-9 && Math.abs(p.y - current.y) < 1e-9);
+      const next = placedIndex >= 0
+        ? starts.map((p, i) => (i === placedIndex ? point : p))
+        : displayAgents.map((a, i) => (i === index ? point : { x: a.x, y: a.y }));
+      return { ...c, startPositions: next };
+    });
   };
 
-  // --- Loop ---
+  // --- Timeline ---
+  const seekTimeline = (iteration: number) => {
+    if (!timelineRange) return;
+    if (simState.running) postCommand({ type: 'pause' });
+    setViewIteration(iteration >= timelineRange.last ? null : Math.max(timelineRange.first, iteration));
+  };
+
+  const stepBack = () => {
+    setReplaying(false);
+    seekTimeline((viewIteration ?? simState.iteration) - 1);
+  };
+
+  const stepForward = () => {
+    setReplaying(false);
+    if (viewIteration === null) stepOnce(); // At the live end, compute a new iteration
+    else seekTimeline(viewIteration + 1);
+  };
+
+  // Replay: advance the viewed iteration at the simulation speed, scaled
   useEffect(() => {
+    if (!replaying || viewIteration === null || !timelineRange) return;
+    const timer = setTimeout(() => {
+      if (viewIteration + 1 >= timelineRange.last) {
+        setViewIteration(null);
+        setReplaying(false);
+      } else {
+        setViewIteration(viewIteration + 1);
+      }
+    }, simSpeed / replaySpeed);
+    return () => clearTimeout(timer);
+  }, [replaying, viewIteration, timelineRange, simSpeed, replaySpeed]);
+
+  // What the visualizer shows: a recorded iteration while scrubbing, otherwise the live state
+  const viewedFrame = viewIteration !== null ? frameAt(timelineRef.current, viewIteration) : null;
+  const displayAgents = useMemo(
+      () => (viewedFrame ? unpackAgents(viewedFrame.agents) : simState.agents),
+      [viewedFrame, simState.agents]
+  );
+  const displayTrails = useMemo(
+      () => (viewIteration !== null ? trailsAt(timelineRef.current, viewIteration, config.algo) : simState.trails),
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+      [viewIteration, timelineRange, simState.trails, config.algo]
+  );
+  const displayOptimizerState = (viewedFrame && optimizerStateAt(timelineRef.current, viewedFrame.iteration)) ?? simState.optimizerState;
+  const displayLineage = viewIteration !== null ? simState.lineage.slice(0, viewIteration + 1) : simState.lineage;
+
+  // --- Projection ---
+  // Past two dimensions the view shows a plane: an axis slice through an anchor, or the PCA plane of the agents
+  useEffect(() => {
+    setSliceAnchor(null);
+    setPcaFit(null);
+  }, [activeLandscape]);
+
+  const fitPca = () => {
+    const positions = [...displayAgents, ...displayTrails.flat()].map(positionOf);
+    if (positions.length > 0) setPcaFit(pcaPlane(positions));
+  };
+
+  // The PCA plane is fitted once when chosen and then held still, so motion across it means something
+  useEffect(() => {
+    if (projectionMode === 'pca' && dimensions > 2 && !pcaFit && displayAgents.length > 0) fitPca();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectionMode, dimensions, pcaFit, displayAgents]);
+
+  const plane = useMemo(() => {
+    if (dimensions <= 2) return null;
+    if (projectionMode === 'pca' && pcaFit) return pcaFit;
+    const axes: [number, number] = sliceAxes[0] !== sliceAxes[1] && Math.max(...sliceAxes) < dimensions ? sliceAxes : [0, 1];
+    return slicePlane(sliceAnchor ?? optimaPositions(activeLandscape)[0], axes);
+  }, [dimensions, projectionMode, pcaFit, sliceAxes, sliceAnchor, activeLandscape]);
+  const viewLandscape = useMemo(() => (plane ? planeLandscape(activeLandscape, plane) : activeLandscape), [plane, activeLandscape]);
+
+  // What the visualizer draws, in view coordinates
+  const viewScene = useMemo(() => {
+    const scene: FrameScene = {
+      agents: displayAgents,
+      trails: displayTrails,
+      lineage: displayLineage,
+      distribution: searchDistribution(displayOptimizerState, displayAgents[0], plane),
+      showTrails
+    };
+    return plane ? projectScene(scene, plane) : scene;
+  }, [displayAgents, displayTrails, displayLineage, displayOptimizerState, plane, showTrails]);
+
+  // --- Export ---
+  const exportName = (suffix: string) => `${selectedLandscape.name}_${config.algo}_${suffix}`.replace(/\s+/g, '_').toLowerCase();
+
+  const handleExportFrame = async (format: ImageFormat) => {
+      const iteration = viewedFrame?.iteration ?? simState.iteration;
+      const scene: FrameScene = {
+          ...viewScene,
+          caption: frameCaption(iteration, viewedFrame ? viewedFrame.bestPoint : simState.bestPoint)
+      };
+      const blob = format === 'png'
+          ? await framePng(viewLandscape, heatmapStyle, VIEW_WIDTH, VIEW_HEIGHT, scene)
+          : frameSvg(viewLandscape, heatmapStyle, VIEW_WIDTH, VIEW_HEIGHT, scene);
+      if (blob) downloadBlob(blob, exportName(`iter${iteration}.${format}`));
+  };
+
+  const handleExportAnimation = async (format: AnimationFormat) => {
+      if (simState.running) postCommand({ type: 'pause' });
+      const timeline = timelineRef.current;
+      const iterations = sampleIterations(timeline, MAX_ANIMATION_FRAMES);
+      const lineage = simState.lineage;
+      setExportProgress(0);
+      const blob = await exportAnimation(
+          format, viewLandscape, heatmapStyle, VIEW_WIDTH, VIEW_HEIGHT, iterations,
+          (i) => sceneAt(timeline, i, config.algo, lineage, showTrails, plane),
+          setExportProgress
+      );
+      setExportProgress(null);
+      if (blob) downloadBlob(blob, exportName(`run.${format}`));
+  };
+
+  const handleExportChart = async (format: ImageFormat) => {
+      if (!convergenceChartRef.current) return;
+      const blob = await chartImage(convergenceChartRef.current, format);
+      if (blob) downloadBlob(blob, exportName(`convergence.${format}`));
+  };
+
+  // Running time excludes pauses
+  useEffect(() => {
+    const clock = runClockRef.current;
     if (simState.running) {
-      intervalRef.current = window.setInterval(() => {
-        setSimState(prev => {
-            // Read from Ref to get latest config without restarting interval
-            const currentConfig = configRef.current; 
-
-            if (prev.iteration >= currentConfig.maxIterations) {
-                return { ...prev, running: false };
-            }
-
-            const nextAgents = stepSimulation(
-                currentConfig.algo, 
-                prev.agents, 
-                selectedLandscape, 
-                prev.iteration, 
-                { 
-                    stepSize: currentConfig.learningRate, 
-                    temperature: currentConfig.temperature || 100, 
-                    mutationRate: currentConfig.mutationRate || 0.1 
-                }
-            );
-            
-            let nextTrails = [...prev.trails];
-            // Update trails logic
-            if (currentConfig.algo === AlgorithmType.GENETIC) {
-                 // For Genetic, tracking lineage is hard visually, so we just track the current population as new trails or simple points
-                 if(nextTrails.length !== nextAgents.length) {
-                     nextTrails = nextAgents.map(a => [a]);
-                 } else {
-                     nextTrails = prev.trails.map((trail, i) => {
-                         if (trail.length > 50) return [...trail.slice(1), nextAgents[i]]; // Limit trail length for perf
-                         return [...trail, nextAgents[i]]
-                     });
-                 }
-            } else {
-                 nextTrails = prev.trails.map((trail, i) => {
-                     if (trail.length > 100) return [...trail.slice(1), nextAgents[i]];
-                     return [...trail, nextAgents[i]]
-                 });
-            }
-
-            // Calculate stats
-            const sortedAgents = [...nextAgents].sort((a, b) => a.value - b.value);
-            const currentBest = sortedAgents[0];
-            const globalBest = (!prev.bestPoint || currentBest.value < prev.bestPoint.value) ? currentBest : prev.bestPoint;
-
-            return {
-                ...prev,
-                iteration: prev.iteration + 1,
-                agents: nextAgents,
-                bestPoint: globalBest,
-                history: [...prev.history, { iteration: prev.iteration + 1, cost: currentBest.value }],
-                trails: nextTrails
-            };
-        });
-      }, simSpeed); // Variable speed
-    } else {
-        if (intervalRef.current) clearInterval(intervalRef.current);
+      clock.startedAt ??= Date.now();
+      clock.resumedAt = Date.now();
+    } else if (clock.resumedAt !== null) {
+      clock.elapsedMs += Date.now() - clock.resumedAt;
+      clock.resumedAt = null;
+      if (simState.stopReason) clock.finishedAt = Date.now();
     }
-    return () => { if (intervalRef.current) clearInterval(intervalRef.current); };
-  }, [simState.running, selectedLandscape, simSpeed]); 
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [simState.running]);
+
+  // First iteration within tolerance of f*, marked on the convergence chart
+  const convergedAt = useMemo(
+      () => iterationsToThreshold(simState.history, activeLandscape.globalMin, config.tolerance ?? 0.1),
+      [simState.history, activeLandscape.globalMin, config.tolerance]
+  );
+
+  // Annealing also plots its temperature and acceptance rate
+  const isAnnealing = config.algo === AlgorithmType.SIMULATED_ANNEALING;
 
   // --- AI Grading Trigger ---
+  // Only once a stopping criterion fires or the user pauses, not after a single step or a timeline seek
   useEffect(() => {
-    if (!simState.running && simState.iteration > 0 && !aiFeedback && !aiLoading && simState.iteration >= config.maxIterations) {
+    if (!simState.running && simState.iteration > 0 && !aiFeedback && !aiLoading && (simState.stopReason || gradeOnPauseRef.current)) {
+       gradeOnPauseRef.current = false;
        handleAIGrading();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -199,8 +455,9 @@ const App: React.FC = () => {
           startCost,
           endCost,
           simState.iteration,
-          true,
-          sessionContext
+          hasConverged(simState, config, activeLandscape),
+          sessionContext,
+          simState.stopReason
       );
       setAiFeedback(feedback);
       setAiLoading(false);
@@ -261,32 +518,84 @@ const App: React.FC = () => {
 
   // --- Session Management ---
 
-  const handleSaveExperiment = () => {
+  const handleSaveExperiment = async () => {
       const name = experimentName || `Experiment ${savedExperiments.length + 1}`;
       const newExp: SavedExperiment = {
           id: crypto.randomUUID(),
           name,
           timestamp: Date.now(),
           config: { ...config },
-          landscapeName: selectedLandscape.name
+          landscapeName: selectedLandscape.name,
+          tags: experimentTags.split(',').map(t => t.trim()).filter(Boolean)
       };
+      // Attach the current run's results, if it has started
+      const clock = runClockRef.current;
+      const run: RunRecord | null = simState.iteration > 0 ? {
+          id: crypto.randomUUID(),
+          experimentId: newExp.id,
+          landscapeName: selectedLandscape.name,
+          config: { ...config },
+          iterations: simState.iteration,
+          bestPoint: simState.bestPoint,
+          history: simState.history,
+          finalAgents: simState.agents,
+          trails: simState.trails,
+          rngState: simState.rngState,
+          optimizerState: simState.optimizerState,
+          evaluations: simState.evaluations,
+          lastImprovement: simState.lastImprovement,
+          stopReason: simState.stopReason,
+          lineage: simState.lineage,
+          visited: simState.visited,
+          startedAt: clock.startedAt,
+          finishedAt: clock.finishedAt,
+          durationMs: clock.elapsedMs + (clock.resumedAt !== null ? Date.now() - clock.resumedAt : 0),
+          aiFeedback,
+          eli5Text
+      } : null;
+
+      const saved = await saveExperiments([newExp]) && (!run || await saveRun(run));
+      if (!saved) {
+          alert("Could not save to browser storage. Use Export to keep a copy.");
+      }
+      // Keep it for this session either way
       setSavedExperiments(prev => [newExp, ...prev]);
       setExperimentName("");
+      setExperimentTags("");
   };
 
-  const handleLoadExperiment = (exp: SavedExperiment) => {
+  const handleLoadExperiment = async (exp: SavedExperiment) => {
+      // The latest recorded run (if any) comes back exactly as it was, chart and trails included
+      const runs = await listRuns(exp.id);
+      pendingRunRef.current = runs.length > 0 ? runs[runs.length - 1] : null;
       setConfig(exp.config);
-      const land = LANDSCAPES.find(l => l.name === exp.landscapeName);
+      const land = allLandscapes.find(l => l.name === exp.landscapeName);
       if (land) setSelectedLandscape(land);
+      else pendingRunRef.current = null; // Its landscape was deleted; start fresh on the current one
       resetSimulation();
   };
 
-  const handleDeleteExperiment = (id: string) => {
+  const handleDeleteExperiment = async (id: string) => {
+      if (!await deleteExperiment(id)) {
+          alert("Could not delete the experiment from browser storage.");
+          return;
+      }
       setSavedExperiments(prev => prev.filter(e => e.id !== id));
   };
 
-  const handleExport = () => {
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(savedExperiments));
+  const libraryTags = useMemo(() => [...new Set(savedExperiments.flatMap(e => e.tags))].sort(), [savedExperiments]);
+
+  const filteredExperiments = useMemo(() => {
+      const q = librarySearch.trim().toLowerCase();
+      const tag = libraryTag && libraryTags.includes(libraryTag) ? libraryTag : null; // Ignore a tag whose last experiment was deleted
+      return savedExperiments.filter(e =>
+          (!tag || e.tags.includes(tag)) &&
+          (!q || [e.name, e.landscapeName, e.config.algo, ...e.tags].some(s => s.toLowerCase().includes(q)))
+      );
+  }, [savedExperiments, librarySearch, libraryTag, libraryTags]);
+
+  const handleExport = async () => {
+      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(await exportLibrary(savedExperiments)));
       const downloadAnchorNode = document.createElement('a');
       downloadAnchorNode.setAttribute("href",     dataStr);
       downloadAnchorNode.setAttribute("download", "optima_experiments.json");
@@ -299,11 +608,17 @@ const App: React.FC = () => {
       const fileReader = new FileReader();
       if(event.target.files && event.target.files[0]) {
           fileReader.readAsText(event.target.files[0], "UTF-8");
-          fileReader.onload = (e) => {
+          fileReader.onload = async (e) => {
               try {
-                  const imported = JSON.parse(e.target?.result as string);
-                  if(Array.isArray(imported)) {
-                      setSavedExperiments(prev => [...imported, ...prev]);
+                  // Files from older versions are upgraded on the way in; same ids (and landscape names) overwrite
+                  const imported = await importLibrary(JSON.parse(e.target?.result as string));
+                  if (imported) {
+                      const ids = new Set(imported.experiments.map(x => x.id));
+                      setSavedExperiments(prev => [...imported.experiments, ...prev.filter(x => !ids.has(x.id))]);
+                      const names = new Set(imported.landscapes.map(d => d.name));
+                      setCustomLandscapes(prev => [...prev.filter(d => !names.has(d.name)), ...imported.landscapes]);
+                  } else {
+                      alert("Invalid file format.");
                   }
               } catch(err) {
                   console.error("Failed to parse import", err);
@@ -313,38 +628,146 @@ const App: React.FC = () => {
       }
   };
 
+  const handleSaveCustomLandscape = async (def: CustomLandscapeDefinition) => {
+      const replacing = landscapeEditor?.initial?.name;
+      if (!await saveCustomLandscape(def, replacing)) {
+          alert("Could not save the landscape to browser storage. It is available until you reload.");
+      }
+      // Keep it for this session either way
+      setCustomLandscapes(prev => [...prev.filter(d => d.name !== def.name && d.name !== replacing), def]);
+      const land = buildLandscape(def);
+      if (land) setSelectedLandscape(land);
+      setLandscapeEditor(null);
+  };
+
+  const handleDeleteCustomLandscape = async (name: string) => {
+      if (!await deleteCustomLandscape(name)) {
+          alert("Could not delete the landscape from browser storage.");
+          return;
+      }
+      setCustomLandscapes(prev => prev.filter(d => d.name !== name));
+      if (selectedLandscape.name === name) setSelectedLandscape(LANDSCAPES[1]);
+  };
+
   // --- Research Helpers ---
   
-  const calculateCombinations = useMemo(() => {
-    let n = 1;
-    n *= allowedAlgorithms.length; 
-    n *= 1; 
-    n *= RESEARCH_OPTIONS.learningRates.length;
-    n *= RESEARCH_OPTIONS.maxIterations.length;
-    
-    if (config.algo === AlgorithmType.SIMULATED_ANNEALING) {
-        n *= RESEARCH_OPTIONS.temperatures.length;
-    } else if (config.algo === AlgorithmType.GENETIC) {
-        n *= RESEARCH_OPTIONS.populationSizes.length;
-        n *= RESEARCH_OPTIONS.mutationRates.length;
-    }
-    
-    return n;
-  }, [config.algo, allowedAlgorithms.length]);
+  const sweepGrid = useMemo(() => buildSweepGrid(allowedAlgorithms, config), [allowedAlgorithms, config]);
+  const calculateCombinations = sweepGrid.length;
+
+  const handleRunSweep = async () => {
+      const controller = new AbortController();
+      sweepAbortRef.current = controller;
+      setSweepResults([]);
+      setSweepProgress({ done: 0, total: sweepGrid.length * sweepSeeds });
+
+      const results = await runSweep(sweepGrid, activeLandscape, {
+          seedsPerCell: sweepSeeds,
+          tolerance: sweepTolerance,
+          signal: controller.signal,
+          onProgress: (done, total) => setSweepProgress({ done, total })
+      });
+
+      setSweepResults(results);
+      setSweepProgress(null);
+      sweepAbortRef.current = null;
+  };
+
+  const handleCancelSweep = () => {
+      sweepAbortRef.current?.abort();
+  };
+
+  const handleRunBenchmark = async () => {
+      const controller = new AbortController();
+      benchmarkAbortRef.current = controller;
+      setBenchmarkProgress({ done: 0, total: benchmarkSeeds });
+
+      const result = await runBenchmark(config, activeLandscape, {
+          seeds: benchmarkSeeds,
+          tolerance: benchmarkTolerance,
+          signal: controller.signal,
+          onProgress: (done, total) => setBenchmarkProgress({ done, total })
+      });
+
+      // Benchmarks from another landscape aren't comparable, so start a fresh table
+      if (result) setBenchmarkResults(prev => [...prev.filter(r => r.landscapeName === result.landscapeName), result]);
+      setBenchmarkProgress(null);
+      benchmarkAbortRef.current = null;
+  };
+
+  const handleCancelBenchmark = () => {
+      benchmarkAbortRef.current?.abort();
+  };
+
+  const handleApplySweepConfig = (cell: OptimizationConfig) => {
+      setConfig(cell);
+      postCommand({ type: 'pause' });
+  };
 
   const getEquation = () => {
       switch(config.algo) {
           case AlgorithmType.GREEDY:
           case AlgorithmType.HILL_CLIMBING:
+              return `x_{t+1} = \\arg\\min_{d \\in \\{\\pm ${config.learningRate} e_i\\}} f(x_t + d)`;
+          case AlgorithmType.GRADIENT_DESCENT:
               return `x_{t+1} = x_t - ${config.learningRate} \\cdot \\nabla f(x_t)`;
+          case AlgorithmType.MOMENTUM:
+              return `v_{t+1} = ${config.momentum} v_t - ${config.learningRate} \\nabla f(x_t);\\ x_{t+1} = x_t + v_{t+1}`;
+          case AlgorithmType.NESTEROV:
+              return `v_{t+1} = ${config.momentum} v_t - ${config.learningRate} \\nabla f(x_t + ${config.momentum} v_t);\\ x_{t+1} = x_t + v_{t+1}`;
+          case AlgorithmType.RMSPROP:
+              return `s_{t+1} = ${config.rmsDecay} s_t + (1 - ${config.rmsDecay}) g^2;\\ x_{t+1} = x_t - ${config.learningRate} \\cdot g / \\sqrt{s_{t+1}}`;
+          case AlgorithmType.PARTICLE_SWARM:
+              return `v_{t+1} = ${config.inertia} v_t + ${config.cognitive} r_1 (p_i - x_t) + ${config.social} r_2 (g - x_t)`;
+          case AlgorithmType.DIFFERENTIAL_EVOLUTION:
+              return `u_i = x_{r_1} + ${config.differentialWeight} (x_{r_2} - x_{r_3}),\\ CR = ${config.crossoverRate}`;
+          case AlgorithmType.CMA_ES:
+              return `x_k \\sim m_t + \\sigma_t \\mathcal{N}(0, C_t),\\ k = 1..${config.populationSize}`;
+          case AlgorithmType.ONE_PLUS_ONE_ES:
+              return `x' = x_t + \\sigma_t \\mathcal{N}(0, I),\\ \\sigma_{t+1} = \\sigma_t e^{(s - 1/5) / d}`;
+          case AlgorithmType.ADAM:
+              return `x_{t+1} = x_t - ${config.learningRate} \\cdot \\hat{m}_t / (\\sqrt{\\hat{v}_t} + \\epsilon),\\ \\beta = (${config.beta1}, ${config.beta2})`;
           case AlgorithmType.SIMULATED_ANNEALING:
-              return `P(accept) = e^{-(E_{new} - E_{old}) / ${config.temperature || 'T'}}`;
+              return `P(accept) = e^{-(E_{new} - E_{old}) / T_k},\\ ${coolingEquation()}`;
           case AlgorithmType.GENETIC:
-              return `Pop_{t+1} = \\sigma_{${config.mutationRate}} (Cross(Pop_t))`;
+              return geneticEquation();
           default: return "";
       }
   };
 
+  const coolingEquation = () => {
+      const t0 = config.temperature || 'T_0';
+      switch (config.coolingSchedule) {
+          // The schedule's horizon, which an evaluation budget converts from evaluations to steps
+          case 'linear': return `T_k = ${t0} (1 - k / ${toStepConfig(config).horizon})`;
+          case 'exponential': return `T_k = ${t0} \\cdot ${config.coolingAlpha}^k`;
+          case 'logarithmic': return `T_k = ${t0} \\ln 2 / \\ln(k + 2)`;
+          case 'lundy-mees': return `T_{k+1} = T_k / (1 + ${config.coolingBeta} T_k)`;
+          case 'adaptive': return `T_{k+1} = T_k \\cdot 0.95^{\\pm 1} \\to ${(config.targetAcceptance ?? 0.4) * 100}\\%\\ accepted`;
+          default: return `T_k = ${t0} / (1 + 0.1k)`;
+      }
+  };
+
+  const geneticEquation = () => {
+      const select = {
+          'truncation': 'Trunc_{50\\%}',
+          'tournament': `Tour_{k=${config.tournamentSize}}`,
+          'roulette': 'Roul',
+          'rank': 'Rank'
+      }[config.selection || 'truncation'];
+      const cross = {
+          'midpoint': '\\tfrac{1}{2}(p_1 + p_2)',
+          'arithmetic': '\\lambda p_1 + (1 - \\lambda) p_2',
+          'blx-alpha': `BLX_{\\alpha=${config.blxAlpha}}(p_1, p_2)`,
+          'sbx': `SBX_{\\eta=${config.sbxEta}}(p_1, p_2)`
+      }[config.crossover || 'midpoint'];
+      const mutate = {
+          'uniform': `U_{${config.mutationRate}}`,
+          'gaussian': `\\mathcal{N}_{${config.mutationRate}}`,
+          'polynomial': `Poly_{${config.mutationRate},\\eta=${config.mutationEta}}`
+      }[config.mutation || 'uniform'];
+      return `Pop_{t+1} = Elite_{${((config.eliteFraction ?? 0.2) * 100).toFixed(0)}\\%} \\cup ${mutate}(${cross}),\\ p_i \\sim ${select}(Pop_t)`;
+  };
+
   const getHeuristic = () => {
       if (selectedLandscape.name === "Cognitive Sandbox") {
           return "System Architecture Heuristic: Non-linear anomalies require stochastic search (SA) or evolutionary diversity (Genetic) to bridge 'fragmented notes' to 'unified architecture'.";
@@ -352,21 +775,53 @@ const App: React.FC = () => {
 
       if (config.algo === AlgorithmType.HILL_CLIMBING) {
           if (config.learningRate > 0.5) return "High Learning Rate: Risk of overshooting minima.";
+          return "Compass search heuristic: Probe each direction, keep the best step.";
+      }
+      if (config.algo === AlgorithmType.GRADIENT_DESCENT) {
+          if (config.learningRate > 0.1) return "High Learning Rate: Steep slopes will fling the ball past the valley.";
           return "Gradient descent heuristic: Follow the steepest slope.";
       }
+      if (config.algo === AlgorithmType.MOMENTUM || config.algo === AlgorithmType.NESTEROV) {
+          return "Inertia heuristic: Keep rolling in the direction you've been going.";
+      }
+      if (config.algo === AlgorithmType.RMSPROP || config.algo === AlgorithmType.ADAM) {
+          return "Adaptive heuristic: Take cautious steps where the terrain is steep, bold ones where it's flat.";
+      }
       if (config.algo === AlgorithmType.SIMULATED_ANNEALING) {
            return "Metropolis heuristic: Allow uphill moves to escape local optima.";
       }
       if (config.algo === AlgorithmType.GENETIC) {
           return "Evolutionary heuristic: Diversity prevents premature convergence.";
       }
+      if (config.algo === AlgorithmType.PARTICLE_SWARM) {
+          if ((config.social || 0) > (config.cognitive || 0)) return "Herd heuristic: A strong social pull converges fast but can follow the crowd into a trap.";
+          return "Swarm heuristic: Trust your own discoveries, but listen to the flock.";
+      }
+      if (config.algo === AlgorithmType.CMA_ES) {
+          return "Adaptive distribution heuristic: Stretch the search cloud along directions that keep paying off.";
+      }
+      if (config.algo === AlgorithmType.ONE_PLUS_ONE_ES) {
+          return "1/5th success heuristic: Succeeding too often means you're being timid; failing too often means you're being reckless.";
+      }
+      if (config.algo === AlgorithmType.DIFFERENTIAL_EVOLUTION) {
+          return "Differential heuristic: The spread of the population sets the size of the next leap.";
+      }
       return "Greedy heuristic: Immediate gratification.";
   };
 
-  const renderModuleCard = (module: typeof LEARNING_MODULES[0]) => (
+  const handleSelectModule = (module: LearningModule) => {
+      setSelectedModuleId(module.id);
+      // Let the lesson drive the live simulation when the landscape permits it
+      const algo = module.algorithm;
+      if (algo && allowedAlgorithms.includes(algo)) {
+          setConfig(prev => ({ ...prev, algo }));
+      }
+  };
+
+  const renderModuleCard = (module: LearningModule) => (
     <div 
         key={module.id}
-        onClick={() => setSelectedModuleId(module.id)}
+        onClick={() => handleSelectModule(module)}
         className={`p-6 rounded-2xl cursor-pointer transition-all border ${selectedModuleId === module.id ? 'bg-white/10 border-blue-500 shadow-[0_0_20px_rgba(0,122,255,0.3)]' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
     >
         <div className="flex justify-between items-start mb-2">
@@ -382,6 +837,11 @@ const App: React.FC = () => {
                 {module.concept}
             </div>
         )}
+        {selectedModuleId === module.id && module.algorithm === AlgorithmType.SIMULATED_ANNEALING && config.algo === AlgorithmType.SIMULATED_ANNEALING && (
+            <div className="mt-4 animate-fadeIn">
+                <CoolingControls config={config} onChange={setConfig} />
+            </div>
+        )}
     </div>
   );
 
@@ -409,6 +869,12 @@ const App: React.FC = () => {
                     >
                         Research
                     </button>
+                    <button 
+                         onClick={() => setActiveTab('compare')}
+                         className={`px-6 py-1.5 rounded-full text-sm font-medium transition-all ${activeTab === 'compare' ? 'bg-white text-black shadow-lg' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        Compare
+                    </button>
                 </div>
             </div>
         </nav>
@@ -459,6 +925,18 @@ const App: React.FC = () => {
                 </button>
             </div>
 
+            {activeTab === 'compare' ? (
+                <div className="lg:col-span-12">
+                    <CompareView
+                        landscape={activeLandscape}
+                        customLandscape={selectedCustomLandscape}
+                        baseConfig={config}
+                        allowedAlgorithms={allowedAlgorithms}
+                        intervalMs={simSpeed}
+                        showTrails={showTrails}
+                    />
+                </div>
+            ) : (<>
             {/* Left Panel: Research Controls */}
             <div className="lg:col-span-4 space-y-6">
                 
@@ -552,34 +1030,108 @@ const App: React.FC = () => {
                              <div className="space-y-4">
                                 <div>
                                     <label className="block text-xs uppercase tracking-wider text-gray-500 mb-2">Test Landscape</label>
-                                    <Tooltip content="The mathematical terrain the agent explores. Rastrigin has many traps; Bowl is simple.">
-                                        <select 
-                                            className="w-full bg-black border border-white/20 rounded-lg px-4 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
-                                            value={selectedLandscape.name}
-                                            onChange={(e) => {
-                                                const l = LANDSCAPES.find(land => land.name === e.target.value);
-                                                if(l) setSelectedLandscape(l);
-                                            }}
-                                        >
-                                            {LANDSCAPES.map(l => (
-                                                <option key={l.name} value={l.name}>
-                                                    {l.name} {l.name === "Cognitive Sandbox" ? "(Session Data)" : ""}
-                                                </option>
-                                            ))}
-                                        </select>
-                                    </Tooltip>
+                                    <div className="flex gap-2">
+                                        <div className="flex-1 min-w-0">
+                                            <Tooltip content="The mathematical terrain the agent explores. Rastrigin has many traps; Bowl is simple.">
+                                                <select 
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-4 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                                                    value={selectedLandscape.name}
+                                                    onChange={(e) => {
+                                                        const l = allLandscapes.find(land => land.name === e.target.value);
+                                                        if(l) {
+                                                            setSelectedLandscape(l);
+                                                            // Placed starts belong to the old terrain; only scalable landscapes run past two dimensions
+                                                            setConfig(c => ({ ...c, startPositions: undefined, dimensions: canScale(l) ? c.dimensions : undefined }));
+                                                        }
+                                                    }}
+                                                >
+                                                    <optgroup label="Built-in">
+                                                        {LANDSCAPES.map(l => (
+                                                            <option key={l.name} value={l.name}>
+                                                                {l.name} {l.name === "Cognitive Sandbox" ? "(Session Data)" : ""}
+                                                            </option>
+                                                        ))}
+                                                    </optgroup>
+                                                    {customLandscapes.length > 0 && (
+                                                        <optgroup label="Custom">
+                                                            {allLandscapes.slice(LANDSCAPES.length).map(l => (
+                                                                <option key={l.name} value={l.name}>{l.name}</option>
+                                                            ))}
+                                                        </optgroup>
+                                                    )}
+                                                </select>
+                                            </Tooltip>
+                                        </div>
+                                        <Tooltip content="Define your own landscape from a formula.">
+                                            <button
+                                                onClick={() => setLandscapeEditor({})}
+                                                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg transition-colors"
+                                            >
+                                                <Plus size={18} />
+                                            </button>
+                                        </Tooltip>
+                                        {selectedCustomLandscape && (
+                                            <>
+                                                <button
+                                                    onClick={() => setLandscapeEditor({ initial: selectedCustomLandscape })}
+                                                    className="bg-white/10 hover:bg-white/20 p-2 rounded-lg transition-colors"
+                                                >
+                                                    <Pencil size={18} />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDeleteCustomLandscape(selectedCustomLandscape.name)}
+                                                    className="bg-white/10 hover:bg-red-500/30 text-gray-300 hover:text-red-400 p-2 rounded-lg transition-colors"
+                                                >
+                                                    <Trash2 size={18} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                    {landscapeEditor && (
+                                        <div className="mt-3">
+                                            <LandscapeEditor
+                                                key={landscapeEditor.initial?.name || 'new'}
+                                                initial={landscapeEditor.initial}
+                                                reservedNames={LANDSCAPES.map(l => l.name)}
+                                                onSave={handleSaveCustomLandscape}
+                                                onCancel={() => setLandscapeEditor(null)}
+                                            />
+                                        </div>
+                                    )}
+                                    <div className="mt-3 flex items-center justify-between gap-3">
+                                        <span className="text-xs text-gray-500">Dimensions</span>
+                                        <Tooltip content={
+                                            canScale(selectedLandscape)
+                                                ? "Run the same function in more variables. Past two, the view shows a slice or projection of the search space."
+                                                : selectedCustomLandscape
+                                                    ? "Custom formulas are written in x and y, so they run in two dimensions only."
+                                                    : `${selectedLandscape.name} is only defined for two variables. These scale to more: ${LANDSCAPES.filter(canScale).map(l => l.name).join(', ')}.`
+                                        }>
+                                            <select
+                                                className="bg-black border border-white/20 rounded-lg px-3 py-1 text-sm text-white focus:outline-none focus:border-blue-500 disabled:opacity-40"
+                                                value={dimensions}
+                                                disabled={!canScale(selectedLandscape)}
+                                                onChange={(e) => {
+                                                    const n = parseInt(e.target.value);
+                                                    setConfig(c => ({ ...c, dimensions: n > 2 ? n : undefined, startPositions: undefined }));
+                                                }}
+                                            >
+                                                {RESEARCH_OPTIONS.dimensions.map(n => <option key={n} value={n}>{n}D</option>)}
+                                            </select>
+                                        </Tooltip>
+                                    </div>
                                 </div>
 
                                 <div>
                                     <label className="block text-xs uppercase tracking-wider text-gray-500 mb-2">Algorithm Strategy</label>
-                                    <Tooltip content="The rule set for movement. Greedy looks only ahead; Annealing takes risks; Genetic uses evolution.">
+                                    <Tooltip content="The rule set for movement. Greedy looks only ahead; Gradient methods follow the slope; Annealing takes risks; Genetic uses evolution.">
                                         <select 
                                             className="w-full bg-black border border-white/20 rounded-lg px-4 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
                                             value={config.algo}
                                             onChange={(e) => setConfig({...config, algo: e.target.value as AlgorithmType})}
                                         >
                                             {allowedAlgorithms.map(t => (
-                                                <option key={t} value={t}>{t.replace('_', ' ')}</option>
+                                                <option key={t} value={t}>{t.replace(/_/g, ' ')}</option>
                                             ))}
                                         </select>
                                     </Tooltip>
@@ -625,16 +1177,125 @@ const App: React.FC = () => {
                                         </Tooltip>
                                     </div>
                                     <div>
-                                        <label className="block text-xs text-gray-500 mb-1">Max Iterations</label>
-                                        <Tooltip content="How long the simulation runs before stopping.">
-                                            <select
-                                                className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
-                                                value={config.maxIterations}
-                                                onChange={(e) => setConfig({...config, maxIterations: parseInt(e.target.value)})}
+                                        <div className="flex justify-between items-center mb-1">
+                                            <label className="block text-xs text-gray-500">{config.limitBy === 'evaluations' ? 'Evaluation Budget' : 'Max Iterations'}</label>
+                                            <button
+                                                onClick={() => setConfig(config.limitBy === 'evaluations'
+                                                    ? {...config, limitBy: 'iterations'}
+                                                    : {...config, limitBy: 'evaluations', evaluationBudget: config.evaluationBudget || RESEARCH_OPTIONS.evaluationBudgets[2]})}
+                                                className="text-[10px] text-blue-400 hover:text-blue-300"
                                             >
-                                                {RESEARCH_OPTIONS.maxIterations.map(v => <option key={v} value={v}>{v}</option>)}
-                                            </select>
-                                        </Tooltip>
+                                                by {config.limitBy === 'evaluations' ? 'evals' : 'iters'} ⇄
+                                            </button>
+                                        </div>
+                                        {config.limitBy === 'evaluations' ? (
+                                            <Tooltip content="Cap the run by function evaluations, so algorithms with cheap and expensive steps get the same budget.">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                                    value={config.evaluationBudget}
+                                                    onChange={(e) => setConfig({...config, evaluationBudget: parseInt(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.evaluationBudgets.filter(v => v > 0).map(v => <option key={v} value={v}>{v.toLocaleString()}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        ) : (
+                                            <Tooltip content="How long the simulation runs before stopping.">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                                    value={config.maxIterations}
+                                                    onChange={(e) => setConfig({...config, maxIterations: parseInt(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.maxIterations.map(v => <option key={v} value={v}>{v}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Random Seed</label>
+                                    <Tooltip content="Same seed + same config = the exact same run. Change it to sample a different trajectory.">
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="number"
+                                                className="flex-1 min-w-0 bg-black border border-white/20 rounded-lg px-3 py-2 text-sm font-mono"
+                                                value={config.seed}
+                                                onChange={(e) => setConfig({...config, seed: parseInt(e.target.value) || 0})}
+                                            />
+                                            <button
+                                                onClick={() => setConfig({...config, seed: randomSeed()})}
+                                                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg transition-colors"
+                                            >
+                                                <Dices size={18} />
+                                            </button>
+                                        </div>
+                                    </Tooltip>
+                                </div>
+
+                                {/* Stopping Criteria */}
+                                <div className="p-3 bg-black/30 border border-white/10 rounded-xl space-y-3">
+                                    <div className="text-xs text-gray-400 font-medium">Stopping Criteria <span className="text-gray-600 font-normal">(first to fire ends the run)</span></div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="block text-[10px] text-gray-500 mb-1">Tolerance to f*</label>
+                                            <Tooltip content="A run counts as converged once its best cost is within this of the known global minimum.">
+                                                <div className="flex items-center gap-2">
+                                                    <select
+                                                        className="flex-1 min-w-0 bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+                                                        value={config.tolerance}
+                                                        onChange={(e) => setConfig({...config, tolerance: parseFloat(e.target.value)})}
+                                                    >
+                                                        {RESEARCH_OPTIONS.tolerances.map(v => <option key={v} value={v}>{v}</option>)}
+                                                    </select>
+                                                    <label className="flex items-center gap-1 text-[10px] text-gray-400 whitespace-nowrap">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!config.stopOnTolerance}
+                                                            onChange={(e) => setConfig({...config, stopOnTolerance: e.target.checked})}
+                                                        />
+                                                        Stop
+                                                    </label>
+                                                </div>
+                                            </Tooltip>
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] text-gray-500 mb-1">Stagnation Window</label>
+                                            <Tooltip content="Stop after this many iterations without finding a new best.">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+                                                    value={config.stagnationWindow}
+                                                    onChange={(e) => setConfig({...config, stagnationWindow: parseInt(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.stagnationWindows.map(v => <option key={v} value={v}>{v === 0 ? 'Off' : `${v} iters`}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] text-gray-500 mb-1">Diversity Collapse</label>
+                                            <Tooltip content="Population algorithms only: stop when the agents' spread shrinks below this fraction of the domain.">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+                                                    value={config.diversityThreshold}
+                                                    onChange={(e) => setConfig({...config, diversityThreshold: parseFloat(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.diversityThresholds.map(v => <option key={v} value={v}>{v === 0 ? 'Off' : `< ${v * 100}%`}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        </div>
+                                        {config.limitBy !== 'evaluations' && (
+                                        <div>
+                                            <label className="block text-[10px] text-gray-500 mb-1">Evaluation Budget</label>
+                                            <Tooltip content="Stop once the landscape function has been evaluated this many times.">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+                                                    value={config.evaluationBudget}
+                                                    onChange={(e) => setConfig({...config, evaluationBudget: parseInt(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.evaluationBudgets.map(v => <option key={v} value={v}>{v === 0 ? 'Off' : v.toLocaleString()}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        </div>
+                                        )}
                                     </div>
                                 </div>
 
@@ -651,10 +1312,13 @@ const App: React.FC = () => {
                                                 {RESEARCH_OPTIONS.temperatures.map(v => <option key={v} value={v}>{v}</option>)}
                                             </select>
                                         </Tooltip>
+                                        <div className="mt-4">
+                                            <CoolingControls config={config} onChange={setConfig} />
+                                        </div>
                                     </div>
                                 )}
 
-                                {config.algo === AlgorithmType.GENETIC && (
+                                {POPULATION_ALGORITHMS.includes(config.algo) && (
                                     <div className="grid grid-cols-2 gap-4 animate-fadeIn">
                                         <div>
                                             <label className="block text-xs text-gray-500 mb-1">Population</label>
@@ -668,15 +1332,148 @@ const App: React.FC = () => {
                                                 </select>
                                             </Tooltip>
                                         </div>
+                                        {config.algo === AlgorithmType.GENETIC && (
+                                            <div>
+                                                <label className="block text-xs text-gray-500 mb-1">Mutation Rate</label>
+                                                <Tooltip content="Chance of random change in a child (per gene for Gaussian and polynomial mutation). Keeps diversity alive.">
+                                                    <select
+                                                        className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                        value={config.mutationRate}
+                                                        onChange={(e) => setConfig({...config, mutationRate: parseFloat(e.target.value)})}
+                                                    >
+                                                        {RESEARCH_OPTIONS.mutationRates.map(v => <option key={v} value={v}>{v}</option>)}
+                                                    </select>
+                                                </Tooltip>
+                                            </div>
+                                        )}
+                                        {config.algo === AlgorithmType.PARTICLE_SWARM && (
+                                            <>
+                                                <div>
+                                                    <label className="block text-xs text-gray-500 mb-1">Inertia (w)</label>
+                                                    <Tooltip content="How much of its old velocity a particle keeps. High = roams widely; low = settles quickly.">
+                                                        <select
+                                                            className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                            value={config.inertia}
+                                                            onChange={(e) => setConfig({...config, inertia: parseFloat(e.target.value)})}
+                                                        >
+                                                            {RESEARCH_OPTIONS.inertias.map(v => <option key={v} value={v}>{v}</option>)}
+                                                        </select>
+                                                    </Tooltip>
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs text-gray-500 mb-1">Cognitive (c1)</label>
+                                                    <Tooltip content="Pull toward the best spot this particle has found itself.">
+                                                        <select
+                                                            className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                            value={config.cognitive}
+                                                            onChange={(e) => setConfig({...config, cognitive: parseFloat(e.target.value)})}
+                                                        >
+                                                            {RESEARCH_OPTIONS.accelerations.map(v => <option key={v} value={v}>{v}</option>)}
+                                                        </select>
+                                                    </Tooltip>
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs text-gray-500 mb-1">Social (c2)</label>
+                                                    <Tooltip content="Pull toward the best spot the whole swarm has found.">
+                                                        <select
+                                                            className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                            value={config.social}
+                                                            onChange={(e) => setConfig({...config, social: parseFloat(e.target.value)})}
+                                                        >
+                                                            {RESEARCH_OPTIONS.accelerations.map(v => <option key={v} value={v}>{v}</option>)}
+                                                        </select>
+                                                    </Tooltip>
+                                                </div>
+                                            </>
+                                        )}
+                                        {config.algo === AlgorithmType.DIFFERENTIAL_EVOLUTION && (
+                                            <>
+                                                <div>
+                                                    <label className="block text-xs text-gray-500 mb-1">Differential Weight (F)</label>
+                                                    <Tooltip content="Scale of the difference vector. Larger = bolder jumps.">
+                                                        <select
+                                                            className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                            value={config.differentialWeight}
+                                                            onChange={(e) => setConfig({...config, differentialWeight: parseFloat(e.target.value)})}
+                                                        >
+                                                            {RESEARCH_OPTIONS.differentialWeights.map(v => <option key={v} value={v}>{v}</option>)}
+                                                        </select>
+                                                    </Tooltip>
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs text-gray-500 mb-1">Crossover Rate (CR)</label>
+                                                    <Tooltip content="Chance each coordinate comes from the mutant instead of the parent.">
+                                                        <select
+                                                            className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
+                                                            value={config.crossoverRate}
+                                                            onChange={(e) => setConfig({...config, crossoverRate: parseFloat(e.target.value)})}
+                                                        >
+                                                            {RESEARCH_OPTIONS.crossoverRates.map(v => <option key={v} value={v}>{v}</option>)}
+                                                        </select>
+                                                    </Tooltip>
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
+                                {config.algo === AlgorithmType.GENETIC && (
+                                    <GeneticControls config={config} onChange={setConfig} />
+                                )}
+
+                                {(config.algo === AlgorithmType.MOMENTUM || config.algo === AlgorithmType.NESTEROV) && (
+                                    <div className="animate-fadeIn">
+                                        <label className="block text-xs text-gray-500 mb-1">Momentum (μ)</label>
+                                        <Tooltip content="How much velocity carries over each step. Near 1 = a heavy ball that rolls through bumps but overshoots.">
+                                            <select
+                                                className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-cyan-500/30 text-cyan-200"
+                                                value={config.momentum}
+                                                onChange={(e) => setConfig({...config, momentum: parseFloat(e.target.value)})}
+                                            >
+                                                {RESEARCH_OPTIONS.momentums.map(v => <option key={v} value={v}>{v}</option>)}
+                                            </select>
+                                        </Tooltip>
+                                    </div>
+                                )}
+
+                                {config.algo === AlgorithmType.RMSPROP && (
+                                    <div className="animate-fadeIn">
+                                        <label className="block text-xs text-gray-500 mb-1">Decay Rate (ρ)</label>
+                                        <Tooltip content="How long the squared-gradient average remembers. Higher = smoother, slower to adapt.">
+                                            <select
+                                                className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-cyan-500/30 text-cyan-200"
+                                                value={config.rmsDecay}
+                                                onChange={(e) => setConfig({...config, rmsDecay: parseFloat(e.target.value)})}
+                                            >
+                                                {RESEARCH_OPTIONS.rmsDecays.map(v => <option key={v} value={v}>{v}</option>)}
+                                            </select>
+                                        </Tooltip>
+                                    </div>
+                                )}
+
+                                {config.algo === AlgorithmType.ADAM && (
+                                    <div className="grid grid-cols-2 gap-4 animate-fadeIn">
                                         <div>
-                                            <label className="block text-xs text-gray-500 mb-1">Mutation Rate</label>
-                                            <Tooltip content="Chance of random change in a child. Keeps diversity alive.">
+                                            <label className="block text-xs text-gray-500 mb-1">Beta 1</label>
+                                            <Tooltip content="Decay of the gradient average (the momentum part).">
                                                 <select
-                                                    className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200"
-                                                    value={config.mutationRate}
-                                                    onChange={(e) => setConfig({...config, mutationRate: parseFloat(e.target.value)})}
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-cyan-500/30 text-cyan-200"
+                                                    value={config.beta1}
+                                                    onChange={(e) => setConfig({...config, beta1: parseFloat(e.target.value)})}
                                                 >
-                                                    {RESEARCH_OPTIONS.mutationRates.map(v => <option key={v} value={v}>{v}</option>)}
+                                                    {RESEARCH_OPTIONS.beta1s.map(v => <option key={v} value={v}>{v}</option>)}
+                                                </select>
+                                            </Tooltip>
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs text-gray-500 mb-1">Beta 2</label>
+                                            <Tooltip content="Decay of the squared-gradient average (the adaptive scaling part).">
+                                                <select
+                                                    className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-cyan-500/30 text-cyan-200"
+                                                    value={config.beta2}
+                                                    onChange={(e) => setConfig({...config, beta2: parseFloat(e.target.value)})}
+                                                >
+                                                    {RESEARCH_OPTIONS.beta2s.map(v => <option key={v} value={v}>{v}</option>)}
                                                 </select>
                                             </Tooltip>
                                         </div>
@@ -692,6 +1489,121 @@ const App: React.FC = () => {
                                  </div>
                                  <span className="text-sm font-mono text-blue-400">{calculateCombinations.toLocaleString()} variants</span>
                              </div>
+
+                             {/* Parameter Sweep */}
+                             <div className="mt-4 space-y-3">
+                                 <div className="grid grid-cols-2 gap-4">
+                                     <div>
+                                         <label className="block text-xs text-gray-500 mb-1">Seeds / Variant</label>
+                                         <Tooltip content="Repeat every variant with this many seeds. More seeds = more trustworthy success rates.">
+                                             <select
+                                                 className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                                 value={sweepSeeds}
+                                                 disabled={!!sweepProgress}
+                                                 onChange={(e) => setSweepSeeds(parseInt(e.target.value))}
+                                             >
+                                                 {RESEARCH_OPTIONS.sweepSeeds.map(v => <option key={v} value={v}>{v}</option>)}
+                                             </select>
+                                         </Tooltip>
+                                     </div>
+                                     <div>
+                                         <label className="block text-xs text-gray-500 mb-1">Success Tolerance</label>
+                                         <Tooltip content="A run succeeds once its best cost is within this distance of the known global minimum.">
+                                             <select
+                                                 className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                                 value={sweepTolerance}
+                                                 disabled={!!sweepProgress}
+                                                 onChange={(e) => setSweepTolerance(parseFloat(e.target.value))}
+                                             >
+                                                 {RESEARCH_OPTIONS.tolerances.map(v => <option key={v} value={v}>{v}</option>)}
+                                             </select>
+                                         </Tooltip>
+                                     </div>
+                                 </div>
+
+                                 {sweepProgress ? (
+                                     <div className="flex items-center gap-3">
+                                         <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                                             <div
+                                                 className="h-full bg-blue-500 transition-all"
+                                                 style={{ width: `${(sweepProgress.done / Math.max(1, sweepProgress.total)) * 100}%` }}
+                                             />
+                                         </div>
+                                         <span className="text-xs font-mono text-gray-400">{sweepProgress.done}/{sweepProgress.total}</span>
+                                         <button onClick={handleCancelSweep} className="text-red-400 hover:text-red-300 p-1">
+                                             <Square size={14} fill="currentColor" />
+                                         </button>
+                                     </div>
+                                 ) : (
+                                     <Tooltip content="Run every variant headlessly on the current landscape and rank the results.">
+                                         <button
+                                             onClick={handleRunSweep}
+                                             className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg text-xs font-medium transition-colors"
+                                         >
+                                             <Grid3x3 size={14} /> Run Sweep
+                                         </button>
+                                     </Tooltip>
+                                 )}
+                             </div>
+                        </div>
+
+                        {/* Multi-seed Benchmark */}
+                        <div className="p-6 bg-white/5 border border-white/10 rounded-2xl">
+                             <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+                                <BarChart3 className="w-5 h-5 text-gray-400"/> Benchmark
+                             </h2>
+                             <p className="text-xs text-gray-500 mb-4">One run proves nothing. Repeat the current setup over many seeds and compare distributions.</p>
+
+                             <div className="space-y-3">
+                                 <div className="grid grid-cols-2 gap-4">
+                                     <div>
+                                         <label className="block text-xs text-gray-500 mb-1">Seeds</label>
+                                         <select
+                                             className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                             value={benchmarkSeeds}
+                                             disabled={!!benchmarkProgress}
+                                             onChange={(e) => setBenchmarkSeeds(parseInt(e.target.value))}
+                                         >
+                                             {RESEARCH_OPTIONS.benchmarkSeeds.map(v => <option key={v} value={v}>{v}</option>)}
+                                         </select>
+                                     </div>
+                                     <div>
+                                         <label className="block text-xs text-gray-500 mb-1">Success Tolerance</label>
+                                         <select
+                                             className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm"
+                                             value={benchmarkTolerance}
+                                             disabled={!!benchmarkProgress}
+                                             onChange={(e) => setBenchmarkTolerance(parseFloat(e.target.value))}
+                                         >
+                                             {RESEARCH_OPTIONS.tolerances.map(v => <option key={v} value={v}>{v}</option>)}
+                                         </select>
+                                     </div>
+                                 </div>
+
+                                 {benchmarkProgress ? (
+                                     <div className="flex items-center gap-3">
+                                         <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                                             <div
+                                                 className="h-full bg-blue-500 transition-all"
+                                                 style={{ width: `${(benchmarkProgress.done / Math.max(1, benchmarkProgress.total)) * 100}%` }}
+                                             />
+                                         </div>
+                                         <span className="text-xs font-mono text-gray-400">{benchmarkProgress.done}/{benchmarkProgress.total}</span>
+                                         <button onClick={handleCancelBenchmark} className="text-red-400 hover:text-red-300 p-1">
+                                             <Square size={14} fill="currentColor" />
+                                         </button>
+                                     </div>
+                                 ) : (
+                                     <Tooltip content="Run the current setup once per seed and add it to the benchmark table.">
+                                         <button
+                                             onClick={handleRunBenchmark}
+                                             className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg text-xs font-medium transition-colors"
+                                         >
+                                             <BarChart3 size={14} /> Run Benchmark
+                                         </button>
+                                     </Tooltip>
+                                 )}
+                             </div>
                         </div>
 
                          {/* Session Manager */}
@@ -709,7 +1621,7 @@ const App: React.FC = () => {
                                         value={experimentName}
                                         onChange={(e) => setExperimentName(e.target.value)}
                                      />
-                                     <Tooltip content="Save this configuration to your browser.">
+                                     <Tooltip content="Save this configuration to your browser. It stays after a refresh.">
                                         <button 
                                             onClick={handleSaveExperiment}
                                             className="bg-blue-600 hover:bg-blue-500 text-white p-2 rounded-lg transition-colors"
@@ -719,6 +1631,14 @@ const App: React.FC = () => {
                                      </Tooltip>
                                  </div>
 
+                                 <input
+                                    type="text"
+                                    placeholder="Tags (comma separated)..."
+                                    className="bg-black border border-white/20 rounded-lg px-3 py-1.5 text-xs focus:border-blue-500 outline-none"
+                                    value={experimentTags}
+                                    onChange={(e) => setExperimentTags(e.target.value)}
+                                 />
+
                                  <div className="flex gap-2 mt-2">
                                      <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-2 rounded-lg text-xs font-medium transition-colors">
                                          <Download size={14} /> Export All
@@ -730,19 +1650,50 @@ const App: React.FC = () => {
                                  </div>
 
                                  {savedExperiments.length > 0 && (
-                                     <div className="mt-4 space-y-2 max-h-40 overflow-y-auto pr-1">
+                                     <div className="mt-4 space-y-2">
                                          <h4 className="text-xs text-gray-500 uppercase">Saved States</h4>
-                                         {savedExperiments.map(exp => (
+                                         <div className="relative">
+                                             <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-600" />
+                                             <input
+                                                type="text"
+                                                placeholder="Search name, landscape, algorithm..."
+                                                className="w-full bg-black border border-white/20 rounded-lg pl-7 pr-3 py-1.5 text-xs focus:border-blue-500 outline-none"
+                                                value={librarySearch}
+                                                onChange={(e) => setLibrarySearch(e.target.value)}
+                                             />
+                                         </div>
+                                         {libraryTags.length > 0 && (
+                                             <div className="flex flex-wrap gap-1">
+                                                 {libraryTags.map(tag => (
+                                                     <button
+                                                        key={tag}
+                                                        onClick={() => setLibraryTag(libraryTag === tag ? null : tag)}
+                                                        className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${libraryTag === tag ? 'bg-blue-600 border-blue-500 text-white' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                                                     >
+                                                         #{tag}
+                                                     </button>
+                                                 ))}
+                                             </div>
+                                         )}
+                                         <div className="space-y-2 max-h-40 overflow-y-auto pr-1">
+                                         {filteredExperiments.length === 0 && (
+                                             <div className="text-[10px] text-gray-600 py-2">No saved experiments match.</div>
+                                         )}
+                                         {filteredExperiments.map(exp => (
                                              <div key={exp.id} className="flex items-center justify-between bg-black/40 p-2 rounded border border-white/5 group">
                                                  <div onClick={() => handleLoadExperiment(exp)} className="cursor-pointer flex-1">
                                                      <div className="text-xs font-semibold text-gray-300 group-hover:text-blue-400">{exp.name}</div>
-                                                     <div className="text-[10px] text-gray-600">{exp.landscapeName} • {new Date(exp.timestamp).toLocaleTimeString()}</div>
+                                                     <div className="text-[10px] text-gray-600">{exp.landscapeName} • {new Date(exp.timestamp).toLocaleString()}</div>
+                                                     {exp.tags.length > 0 && (
+                                                         <div className="text-[10px] text-blue-400/70">{exp.tags.map(t => `#${t}`).join(' ')}</div>
+                                                     )}
                                                  </div>
                                                  <button onClick={() => handleDeleteExperiment(exp.id)} className="text-gray-600 hover:text-red-500 p-1">
                                                      <Trash2 size={12} />
                                                  </button>
                                              </div>
                                          ))}
+                                         </div>
                                      </div>
                                  )}
                              </div>
@@ -764,7 +1715,34 @@ const App: React.FC = () => {
                                 {simState.running ? <Pause size={20} /> : <Play size={20} fill="currentColor" />}
                             </button>
                         </Tooltip>
-                        <Tooltip content="Reset agents to random starting positions.">
+                        <Tooltip content="Advance a single iteration.">
+                            <button 
+                                onClick={stepOnce}
+                                disabled={simState.running}
+                                className="p-3 bg-white/10 backdrop-blur-md rounded-full text-white border border-white/20 hover:bg-white/20 transition-all disabled:opacity-30"
+                            >
+                                <StepForward size={20} />
+                            </button>
+                        </Tooltip>
+                        {config.algo === AlgorithmType.GENETIC && (
+                            <Tooltip content="Show how the current best individual descended from the initial population.">
+                                <button 
+                                    onClick={() => setShowFamilyTree(!showFamilyTree)}
+                                    className={`p-3 backdrop-blur-md rounded-full border transition-all ${showFamilyTree ? 'bg-green-500/20 text-green-400 border-green-500/50' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'}`}
+                                >
+                                    <GitBranch size={20} />
+                                </button>
+                            </Tooltip>
+                        )}
+                        <Tooltip content={viewMode === '3d' ? "Back to the top-down heatmap" : "View the landscape as a 3D surface"}>
+                            <button 
+                                onClick={() => setViewMode(viewMode === '3d' ? '2d' : '3d')}
+                                className={`p-3 backdrop-blur-md rounded-full border transition-all ${viewMode === '3d' ? 'bg-blue-500/20 text-blue-400 border-blue-500/50' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'}`}
+                            >
+                                <Box size={20} />
+                            </button>
+                        </Tooltip>
+                        <Tooltip content="Reset agents to the starting positions for the current seed.">
                             <button 
                                 onClick={resetSimulation}
                                 className="p-3 bg-white/10 backdrop-blur-md rounded-full text-white border border-white/20 hover:bg-white/20 transition-all"
@@ -775,41 +1753,177 @@ const App: React.FC = () => {
                     </div>
                     
                     <div className="w-full h-[500px] flex items-center justify-center bg-black rounded-xl overflow-hidden">
-                        <Visualizer 
-                            landscape={selectedLandscape} 
-                            agents={simState.agents}
-                            trails={simState.trails}
-                            width={800} // Increased res
-                            height={500}
-                            showTrails={showTrails}
-                        />
+                        {viewMode === '3d' ? (
+                            <SurfaceView
+                                landscape={viewLandscape}
+                                agents={viewScene.agents}
+                                trails={viewScene.trails}
+                                width={VIEW_WIDTH}
+                                height={VIEW_HEIGHT}
+                                showTrails={showTrails}
+                            />
+                        ) : (
+                            <Visualizer 
+                                landscape={viewLandscape} 
+                                agents={viewScene.agents}
+                                trails={viewScene.trails}
+                                distribution={viewScene.distribution}
+                                lineage={viewScene.lineage}
+                                width={VIEW_WIDTH} // Increased res
+                                height={VIEW_HEIGHT}
+                                showTrails={showTrails}
+                                heatmap={heatmapStyle}
+                                overlays={fieldOverlays}
+                                editable={!simState.running && viewIteration === null && dimensions === 2}
+                                onPlaceAgent={placeStart}
+                                onMoveAgent={simState.iteration === 0 ? moveStart : undefined}
+                            />
+                        )}
                     </div>
+                    {timelineRange && (
+                        <TimelineControls
+                            first={timelineRange.first}
+                            last={timelineRange.last}
+                            iteration={viewIteration ?? timelineRange.last}
+                            live={viewIteration === null}
+                            replaying={replaying}
+                            speed={replaySpeed}
+                            onSeek={(i) => { setReplaying(false); seekTimeline(i); }}
+                            onStepBack={stepBack}
+                            onStepForward={stepForward}
+                            onToggleReplay={() => setReplaying(!replaying)}
+                            onSpeedChange={setReplaySpeed}
+                            onGoLive={() => { setReplaying(false); setViewIteration(null); }}
+                        />
+                    )}
+                    {viewedFrame && (
+                        <div className="px-4 pb-3 -mt-1 text-[11px] font-mono text-gray-500">
+                            Viewing iteration {viewedFrame.iteration}: best so far {viewedFrame.bestPoint?.value.toFixed(4) ?? '—'}
+                            {simState.history[viewedFrame.iteration] && <>, current best {simState.history[viewedFrame.iteration].cost.toFixed(4)}</>}
+                            {viewedFrame.optimizerState.temperature !== undefined && <>, T = {viewedFrame.optimizerState.temperature.toFixed(2)}</>}
+                        </div>
+                    )}
+                    {dimensions > 2 && (
+                        <ProjectionControls
+                            dimensions={dimensions}
+                            mode={projectionMode}
+                            onModeChange={setProjectionMode}
+                            axes={sliceAxes}
+                            onAxesChange={setSliceAxes}
+                            onAnchorToBest={() => setSliceAnchor(positionOf(simState.bestPoint))}
+                            onRefit={fitPca}
+                            canAnchor={simState.bestPoint !== null}
+                        />
+                    )}
+                    {viewMode === '2d' && dimensions === 2 && (
+                        <div className="flex flex-wrap items-center gap-2 px-4 pt-3 pb-2 text-[11px] text-gray-500">
+                            <MousePointerClick size={12} />
+                            <span>{simState.running ? 'Pause to place starting agents.' : 'Click to place a starting agent, drag one to move it.'} Scroll to zoom, drag the map to pan.</span>
+                            {(config.startPositions?.length ?? 0) > 0 && (
+                                <button
+                                    onClick={() => setConfig({ ...config, startPositions: undefined })}
+                                    className="px-2 py-0.5 rounded-full border border-white/20 text-gray-400 hover:text-white"
+                                >
+                                    Clear {config.startPositions.length} placed
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {viewMode === '2d' && <HeatmapControls style={heatmapStyle} onChange={setHeatmapStyle} overlays={fieldOverlays} onOverlaysChange={setFieldOverlays} />}
+                    {dimensions > 2 && (
+                        <div className="px-4 pb-3">
+                            <ParallelCoordinates
+                                agents={displayAgents}
+                                bounds={boundsOf(activeLandscape)}
+                                optima={optimaPositions(activeLandscape)}
+                                highlight={projectionMode === 'slice' ? sliceAxes : undefined}
+                            />
+                        </div>
+                    )}
+                    <ExportControls
+                        canAnimate={timelineRange !== null}
+                        canRecordWebm={canRecordWebm()}
+                        progress={exportProgress}
+                        onExportAnimation={handleExportAnimation}
+                        onExportFrame={handleExportFrame}
+                    />
                 </div>
 
+                {showFamilyTree && config.algo === AlgorithmType.GENETIC && (
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-6 animate-fadeIn">
+                        <h3 className="text-sm font-medium text-gray-400 mb-3 flex items-center gap-2"><GitBranch size={14}/> Family Tree</h3>
+                        <LineagePanel lineage={displayLineage} />
+                    </div>
+                )}
+
                 {/* Metrics & Graphs */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    {/* Graph */}
-                    <div className="bg-white/5 border border-white/10 rounded-2xl p-6 h-64">
-                        <h3 className="text-sm font-medium text-gray-400 mb-4">Convergence Dynamics</h3>
-                        <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={simState.history}>
-                                <XAxis dataKey="iteration" hide />
-                                <YAxis domain={['auto', 'auto']} hide />
-                                <RechartsTooltip 
-                                    contentStyle={{ backgroundColor: '#1C1C1E', borderColor: '#333', color: '#fff' }}
-                                    itemStyle={{ color: '#007AFF' }}
-                                    formatter={(value: number) => [value.toFixed(4), 'Cost']}
-                                />
-                                <Line 
-                                    type="monotone" 
-                                    dataKey="cost" 
-                                    stroke="#007AFF" 
-                                    strokeWidth={2} 
-                                    dot={false}
-                                    isAnimationActive={false}
-                                />
-                            </LineChart>
-                        </ResponsiveContainer>
+                    {/* Graphs */}
+                    <div className="space-y-6">
+                        <div ref={convergenceChartRef} className="bg-white/5 border border-white/10 rounded-2xl p-6 h-64">
+                            <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+                                <h3 className="text-sm font-medium text-gray-400">Convergence Dynamics</h3>
+                                <div className="flex items-center gap-2">
+                                    {(['png', 'svg'] as ImageFormat[]).map(format => (
+                                        <Tooltip key={format} content={`Download the chart as ${format.toUpperCase()}.`}>
+                                            <button onClick={() => handleExportChart(format)} disabled={simState.history.length === 0} className="text-[10px] px-2 py-0.5 rounded-full border border-white/10 text-gray-500 hover:text-white disabled:opacity-30 flex items-center gap-1">
+                                                <Download size={10} /> {format.toUpperCase()}
+                                            </button>
+                                        </Tooltip>
+                                    ))}
+                                    {convergedAt !== null ? (
+                                        <span className="text-[10px] px-2 py-0.5 rounded-full bg-green-500/20 text-green-400 whitespace-nowrap">Converged @ {convergedAt}</span>
+                                    ) : simState.stopReason && (
+                                        <span className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-gray-400 whitespace-nowrap">Not converged</span>
+                                    )}
+                                    <ChartAxisToggle value={chartAxis} onChange={setChartAxis} />
+                                </div>
+                            </div>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={simState.history}>
+                                    {convergedAt !== null && simState.history[convergedAt]?.[chartAxis] !== undefined && (
+                                        <ReferenceLine x={simState.history[convergedAt][chartAxis]} stroke="#34C759" strokeDasharray="4 4" />
+                                    )}
+                                    {viewIteration !== null && simState.history[viewIteration] && (
+                                        <ReferenceLine x={simState.history[viewIteration][chartAxis]} stroke="#FFFFFF" strokeOpacity={0.6} />
+                                    )}
+                                    <XAxis dataKey={chartAxis} type="number" domain={['dataMin', 'dataMax']} hide />
+                                    <YAxis domain={['auto', 'auto']} hide />
+                                    {isAnnealing && <YAxis yAxisId="temperature" domain={[0, 'auto']} hide />}
+                                    {isAnnealing && <YAxis yAxisId="acceptance" domain={[0, 1]} hide />}
+                                    <RechartsTooltip 
+                                        contentStyle={{ backgroundColor: '#1C1C1E', borderColor: '#333', color: '#fff' }}
+                                        formatter={(value: number, name: string) => [name === 'Acceptance' ? `${(value * 100).toFixed(0)}%` : value.toFixed(4), name]}
+                                        labelFormatter={(x: number) => `${CHART_AXIS_LABELS[chartAxis]}: ${chartAxis === 'elapsedMs' ? x.toFixed(1) : x}`}
+                                    />
+                                    <Line 
+                                        type="monotone" 
+                                        dataKey="cost" 
+                                        name="Cost"
+                                        stroke="#007AFF" 
+                                        strokeWidth={2} 
+                                        dot={false}
+                                        isAnimationActive={false}
+                                    />
+                                    {isAnnealing && (
+                                        <Line yAxisId="temperature" type="monotone" dataKey="temperature" name="Temperature" stroke="#FF9F0A" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                                    )}
+                                    {isAnnealing && (
+                                        <Line yAxisId="acceptance" type="monotone" dataKey="acceptance" name="Acceptance" stroke="#AF52DE" strokeWidth={1.5} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                                    )}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        {/* Exploration Metrics */}
+                        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 h-64">
+                            <Tooltip content="Diversity: mean distance between agents. Entropy: how evenly they spread over a grid. Coverage: share of the domain visited so far. Improvement: recent drop in best cost per iteration.">
+                                <h3 className="text-sm font-medium text-gray-400 mb-2 cursor-help">Exploration</h3>
+                            </Tooltip>
+                            <div className="h-[85%]">
+                                <ExplorationChart history={simState.history} axis={chartAxis} showAcceptance={isAnnealing} />
+                            </div>
+                        </div>
                     </div>
 
                     {/* Stats & AI Feedback */}
@@ -836,6 +1950,28 @@ const App: React.FC = () => {
                                     <div className="text-2xl font-bold text-white">{simState.iteration}</div>
                                     <div className="text-xs text-gray-500">Epochs</div>
                                 </div>
+                                <div>
+                                    <div className="text-lg font-bold text-white">{simState.bestPoint ? (simState.bestPoint.value - activeLandscape.globalMin).toExponential(2) : "—"}</div>
+                                    <div className="text-xs text-gray-500">Cost Gap (f − f*)</div>
+                                </div>
+                                <div>
+                                    <div className="text-lg font-bold text-white">{distanceToOptimum(activeLandscape, simState.bestPoint)?.toFixed(4) ?? "—"}</div>
+                                    <div className="text-xs text-gray-500">Distance to Optimum</div>
+                                </div>
+                                <div>
+                                    <div className="text-lg font-bold text-white">{simState.evaluations.toLocaleString()}</div>
+                                    <div className="text-xs text-gray-500">Function Evaluations</div>
+                                </div>
+                                <div>
+                                    <div className="text-sm font-bold text-white">{simState.stopReason ? STOP_REASON_LABELS[simState.stopReason] : simState.running ? "Running" : "—"}</div>
+                                    <div className="text-xs text-gray-500">Stopped By</div>
+                                </div>
+                                {isAnnealing && simState.optimizerState.temperature !== undefined && (
+                                    <div>
+                                        <div className="text-lg font-bold text-orange-300">{simState.optimizerState.temperature.toFixed(2)}</div>
+                                        <div className="text-xs text-gray-500">Temperature{simState.optimizerState.reheats ? ` (${simState.optimizerState.reheats} reheats)` : ''}</div>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -850,7 +1986,33 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 </div>
+
+                {/* Benchmark Results */}
+                {activeTab === 'research' && benchmarkResults.length > 0 && (
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-6 animate-fadeIn">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-sm font-medium text-gray-400">Benchmarks — {benchmarkResults[0].landscapeName}</h3>
+                            <span className="text-xs text-gray-600">Bands show the interquartile range across seeds</span>
+                        </div>
+                        <BenchmarkResults
+                            results={benchmarkResults}
+                            onRemove={(id) => setBenchmarkResults(prev => prev.filter(r => r.id !== id))}
+                        />
+                    </div>
+                )}
+
+                {/* Sweep Results */}
+                {activeTab === 'research' && sweepResults.length > 0 && (
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-6 animate-fadeIn">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-sm font-medium text-gray-400">Sweep Results — {selectedLandscape.name}</h3>
+                            <span className="text-xs text-gray-600">Click a row to load its config</span>
+                        </div>
+                        <SweepResults results={sweepResults} onApply={handleApplySweepConfig} />
+                    </div>
+                )}
             </div>
+            </>)}
         </main>
     </div>
   );
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { BenchmarkResult } from '../types';
+import { mannWhitneyU } from '../services/statistics';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Trash2 } from 'lucide-react';
+
+interface BenchmarkResultsProps {
+  results: BenchmarkResult[];
+  onRemove: (id: string) => void;
+}
+
+const COLORS = ['#007AFF', '#FF9500', '#34C759', '#AF52DE', '#FF3B30', '#5AC8FA'];
+const ALPHA = 0.05;
+
+// Helper: Keep tiny p-values readable
+const formatP = (p: number) => (p < 0.001 ? p.toExponential(1) : p.toFixed(3));
+
+const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onRemove }) => {
+  const [pair, setPair] = useState<[string | null, string | null]>([null, null]);
+
+  // Default to the two most recent benchmarks
+  const aId = pair[0] && results.some(r => r.id === pair[0]) ? pair[0] : results[results.length - 2]?.id;
+  const bId = pair[1] && results.some(r => r.id === pair[1]) ? pair[1] : results[results.length - 1]?.id;
+  const a = results.find(r => r.id === aId);
+  const b = results.find(r => r.id === bId);
+  const test = a && b && a.id !== b.id ? mannWhitneyU(a.finalCosts, b.finalCosts) : null;
+
+  // Median line plus an interquartile band per benchmark
+  const chartData = useMemo(() => {
+    const length = Math.max(0, ...results.map(r => r.curve.length));
+    return Array.from({ length }, (_, i) => {
+      const row: Record<string, number | [number, number]> = { iteration: i };
+      results.forEach(r => {
+        const c = r.curve[i];
+        if (!c) return;
+        row[`${r.id}-median`] = c.median;
+        row[`${r.id}-band`] = [c.q25, c.q75];
+      });
+      return row;
+    });
+  }, [results]);
+
+  const select = (slot: 0 | 1, value: string | undefined) => (
+    <select
+      className="bg-black border border-white/20 rounded-lg px-2 py-1 text-xs max-w-[45%]"
+      value={value}
+      onChange={(e) => setPair(slot === 0 ? [e.target.value, bId ?? null] : [aId ?? null, e.target.value])}
+    >
+      {results.map((r, i) => <option key={r.id} value={r.id}>#{i + 1} {r.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-gray-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-2 py-2 text-left font-medium">Config</th>
+              <th className="px-2 py-2 text-left font-medium">Seeds</th>
+              <th className="px-2 py-2 text-left font-medium">Mean [95% CI]</th>
+              <th className="px-2 py-2 text-left font-medium">Median</th>
+              <th className="px-2 py-2 text-left font-medium">Success</th>
+              <th className="px-2 py-2 text-left font-medium">ERT</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((r, i) => (
+              <tr key={r.id} className="border-t border-white/5 text-gray-300">
+                <td className="px-2 py-1 whitespace-nowrap">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                  #{i + 1} {r.label}
+                </td>
+                <td className="px-2 py-1">{r.finalCosts.length}</td>
+                <td className="px-2 py-1 text-blue-400 whitespace-nowrap">
+                  {r.meanBestCost.toFixed(4)} <span className="text-gray-500">[{r.meanCI[0].toFixed(4)}, {r.meanCI[1].toFixed(4)}]</span>
+                </td>
+                <td className="px-2 py-1">{r.medianBestCost.toFixed(4)}</td>
+                <td className={`px-2 py-1 ${r.successRate >= 0.5 ? 'text-green-400' : 'text-gray-500'}`}>{(r.successRate * 100).toFixed(0)}%</td>
+                <td className="px-2 py-1">{r.expectedRunningTime === null ? '∞' : Math.round(r.expectedRunningTime).toLocaleString()}</td>
+                <td className="px-2 py-1 text-right">
+                  <button onClick={() => onRemove(r.id)} className="text-gray-600 hover:text-red-500 p-1">
+                    <Trash2 size={12} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-2 text-[10px] text-gray-600">
+          ERT = expected running time: function evaluations spent over all seeds (failures count in full) per successful seed.
+        </p>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <XAxis dataKey="iteration" hide />
+            <YAxis domain={['auto', 'auto']} hide />
+            <RechartsTooltip
+              contentStyle={{ backgroundColor: '#1C1C1E', borderColor: '#333', color: '#fff' }}
+              formatter={(value: number | [number, number]) => (Array.isArray(value) ? `${value[0].toFixed(4)} – ${value[1].toFixed(4)}` : value.toFixed(4))}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {results.map((r, i) => (
+              <Area
+                key={`${r.id}-band`}
+                dataKey={`${r.id}-band`}
+                name={`#${i + 1} IQR`}
+                stroke="none"
+                fill={COLORS[i % COLORS.length]}
+                fillOpacity={0.15}
+                legendType="none"
+                isAnimationActive={false}
+              />
+            ))}
+            {results.map((r, i) => (
+              <Line
+                key={`${r.id}-median`}
+                type="monotone"
+                dataKey={`${r.id}-median`}
+                name={`#${i + 1} median best-so-far`}
+                stroke={COLORS[i % COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {results.length >= 2 && (
+        <div className="p-3 bg-black/40 border border-white/10 rounded-xl space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="shrink-0">Mann–Whitney U:</span>
+            {select(0, aId)}
+            <span>vs</span>
+            {select(1, bId)}
+          </div>
+          {test ? (
+            <div className="text-xs">
+              <span className="font-mono text-gray-300">U = {test.u.toFixed(1)}, z = {test.z.toFixed(2)}, p = {formatP(test.pValue)}</span>
+              <p className={`mt-1 ${test.pValue < ALPHA ? 'text-green-400' : 'text-gray-500'}`}>
+                {test.pValue < ALPHA
+                  ? `Significant at α = ${ALPHA}: ${a!.medianBestCost <= b!.medianBestCost ? a!.label : b!.label} tends to reach lower cost.`
+                  : `No significant difference at α = ${ALPHA}. These samples can't tell the configs apart; try more seeds.`}
+              </p>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-600">Pick two different benchmarks.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkResults;
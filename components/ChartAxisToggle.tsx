@@ -0,0 +1,25 @@
+import React from 'react';
+import { ChartAxis } from '../types';
+import { CHART_AXIS_LABELS } from '../constants';
+
+interface ChartAxisToggleProps {
+  value: ChartAxis;
+  onChange: (axis: ChartAxis) => void;
+}
+
+// Pill switch for the convergence chart's x-axis
+const ChartAxisToggle: React.FC<ChartAxisToggleProps> = ({ value, onChange }) => (
+  <div className="flex bg-black/40 rounded-full p-0.5 border border-white/10">
+    {(Object.keys(CHART_AXIS_LABELS) as ChartAxis[]).map(axis => (
+      <button
+        key={axis}
+        onClick={() => onChange(axis)}
+        className={`px-2 py-0.5 rounded-full text-[10px] transition-colors ${value === axis ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+      >
+        {CHART_AXIS_LABELS[axis]}
+      </button>
+    ))}
+  </div>
+);
+
+export default ChartAxisToggle;
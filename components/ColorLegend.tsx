@@ -0,0 +1,26 @@
+import React from 'react';
+import { Colormap, CostScale } from '../types';
+import { colormapGradient } from '../services/heatmap';
+
+interface ColorLegendProps {
+  colormap: Colormap;
+  scale: CostScale;
+}
+
+// Positions along the bar that get a cost label
+const TICKS = [1, 0.75, 0.5, 0.25, 0];
+
+// Helper: Three significant figures without exponent noise for everyday magnitudes
+const formatCost = (cost: number) => Number(cost.toPrecision(3)).toString();
+
+// Vertical colour bar labelled with the real costs each colour stands for
+const ColorLegend: React.FC<ColorLegendProps> = ({ colormap, scale }) => (
+  <div className="flex items-stretch gap-1 bg-black/50 rounded-md p-1.5 h-32">
+    <div className="w-2.5 rounded-sm border border-white/20" style={{ background: colormapGradient(colormap) }} />
+    <div className="flex flex-col justify-between text-[10px] font-mono text-white/70 leading-none">
+      {TICKS.map(t => <span key={t}>{formatCost(scale.invert(t))}</span>)}
+    </div>
+  </div>
+);
+
+export default ColorLegend;
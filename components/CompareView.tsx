@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlgorithmType, ChartAxis, CompareLane, CustomLandscapeDefinition, Landscape, OptimizationConfig, SimulationCommand, SimulationMessage, SimulationState } from '../types';
+import { CHART_AXIS_LABELS, RESEARCH_OPTIONS, STOP_REASON_LABELS } from '../constants';
+import { applyFrame, bestSoFarArea, iterationsToThreshold } from '../services/runner';
+import { searchDistribution } from '../services/optimizer';
+import Visualizer from './Visualizer';
+import ChartAxisToggle from './ChartAxisToggle';
+import { LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Pause, Play, Plus, RefreshCw, StepForward, Trash2 } from 'lucide-react';
+
+interface CompareViewProps {
+  landscape: Landscape;
+  customLandscape?: CustomLandscapeDefinition;
+  baseConfig: OptimizationConfig; // Current Setup panel config; new lanes start from it
+  allowedAlgorithms: AlgorithmType[];
+  intervalMs: number;
+  showTrails: boolean;
+}
+
+const LANE_COLORS = ['#007AFF', '#FF9500', '#34C759', '#AF52DE', '#FF3B30', '#5AC8FA'];
+const MAX_LANES = LANE_COLORS.length;
+
+const EMPTY_STATE: SimulationState = {
+  running: false,
+  iteration: 0,
+  bestPoint: null,
+  history: [],
+  agents: [],
+  trails: [],
+  rngState: 0,
+  optimizerState: {},
+  evaluations: 0,
+  lastImprovement: 0,
+  stopReason: null,
+  lineage: [],
+  visited: []
+};
+
+// Helper: Short label for legends and the stats table
+const laneLabel = (config: OptimizationConfig) => `${config.algo.replace(/_/g, ' ')} · lr ${config.learningRate}`;
+
+const CompareView: React.FC<CompareViewProps> = ({ landscape, customLandscape, baseConfig, allowedAlgorithms, intervalMs, showTrails }) => {
+  // Start with the classic local-vs-global pairing, where the landscape allows it
+  const [lanes, setLanes] = useState<CompareLane[]>(() =>
+    [AlgorithmType.HILL_CLIMBING, AlgorithmType.SIMULATED_ANNEALING]
+      .map((algo, i) => (allowedAlgorithms.includes(algo) ? algo : allowedAlgorithms[i % allowedAlgorithms.length]))
+      .map(algo => ({ id: crypto.randomUUID(), config: { ...baseConfig, algo } }))
+  );
+  // Shared by every lane so the only difference between panes is the algorithm config
+  const [seed, setSeed] = useState(baseConfig.seed);
+  const [maxIterations, setMaxIterations] = useState(baseConfig.maxIterations);
+  const [epsilon, setEpsilon] = useState(0.1);
+
+  const [states, setStates] = useState<Record<string, SimulationState>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null); // The workers could not load the landscape
+  const [axis, setAxis] = useState<ChartAxis>('iteration');
+
+  // One simulation worker per lane; a shared clock steps them together
+  const workersRef = useRef(new Map<string, Worker>());
+  const lanesRef = useRef(lanes);
+  const statesRef = useRef(states);
+
+  useEffect(() => {
+    lanesRef.current = lanes;
+    statesRef.current = states;
+  }, [lanes, states]);
+
+  useEffect(() => {
+    const workers = workersRef.current;
+    for (const lane of lanes) {
+      if (workers.has(lane.id)) continue;
+      const worker = new Worker(new URL('../services/simulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+        const frame = e.data;
+        if ('error' in frame) {
+          setError(frame.error);
+          return;
+        }
+        const algo = lanesRef.current.find(l => l.id === lane.id)?.config.algo ?? lane.config.algo;
+        setStates(prev => ({ ...prev, [lane.id]: applyFrame(prev[lane.id] || EMPTY_STATE, frame, algo) }));
+      };
+      workers.set(lane.id, worker);
+    }
+    for (const [id, worker] of workers) {
+      if (lanes.some(l => l.id === id)) continue;
+      worker.terminate();
+      workers.delete(id);
+    }
+  }, [lanes]);
+
+  useEffect(() => {
+    const workers = workersRef.current;
+    return () => {
+      workers.forEach(w => w.terminate());
+      workers.clear();
+    };
+  }, []);
+
+  // Same rule as the Setup panel: swap out algorithms the landscape doesn't allow
+  useEffect(() => {
+    if (lanes.every(l => allowedAlgorithms.includes(l.config.algo))) return;
+    setLanes(prev => prev.map(l => (allowedAlgorithms.includes(l.config.algo) ? l : { ...l, config: { ...l.config, algo: allowedAlgorithms[0] } })));
+  }, [lanes, allowedAlgorithms]);
+
+  const post = (id: string, cmd: SimulationCommand) => workersRef.current.get(id)?.postMessage(cmd);
+
+  // Any change to the line-up restarts every lane, so they always share an iteration count
+  const resetAll = () => {
+    setRunning(false);
+    setStates({});
+    setError(null);
+    for (const lane of lanes) {
+      post(lane.id, {
+        type: 'reset',
+        config: { ...lane.config, seed, maxIterations },
+        landscapeName: landscape.name,
+        customLandscape
+      });
+    }
+  };
+
+  useEffect(() => {
+    resetAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lanes, seed, maxIterations, landscape]);
+
+  const stepAll = () => lanesRef.current.forEach(l => post(l.id, { type: 'step' }));
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      // Lanes may stop early on their own criteria; the clock runs until all have
+      const finished = lanesRef.current.every(l => !!statesRef.current[l.id]?.stopReason);
+      if (finished) {
+        setRunning(false);
+        return;
+      }
+      stepAll();
+    }, intervalMs);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [running, intervalMs, maxIterations]);
+
+  const updateLane = (id: string, patch: Partial<OptimizationConfig>) => {
+    setLanes(prev => prev.map(l => (l.id === id ? { ...l, config: { ...l.config, ...patch } } : l)));
+  };
+
+  const addLane = () => {
+    if (lanes.length >= MAX_LANES) return;
+    setLanes(prev => [...prev, { id: crypto.randomUUID(), config: { ...baseConfig } }]);
+  };
+
+  const removeLane = (id: string) => {
+    setLanes(prev => prev.filter(l => l.id !== id));
+  };
+
+  const iteration = Math.min(...lanes.map(l => states[l.id]?.iteration ?? 0));
+
+  return (
+    <div className="space-y-6">
+      {/* Shared Controls */}
+      <div className="p-6 bg-white/5 border border-white/10 rounded-2xl flex flex-wrap items-end gap-4">
+        <div>
+          <h2 className="text-xl font-bold">Compare Runs</h2>
+          <p className="text-xs text-gray-500">{landscape.name} · same seed and start for every lane · iteration {iteration}/{maxIterations}</p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="ml-auto flex items-end gap-3">
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-1">Seed</label>
+            <input
+              type="number"
+              className="w-28 bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs font-mono"
+              value={seed}
+              onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-1">Iterations</label>
+            <select
+              className="bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+              value={maxIterations}
+              onChange={(e) => setMaxIterations(parseInt(e.target.value))}
+            >
+              {RESEARCH_OPTIONS.maxIterations.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-1">ε (hit tolerance)</label>
+            <select
+              className="bg-black border border-white/20 rounded-lg px-2 py-1.5 text-xs"
+              value={epsilon}
+              onChange={(e) => setEpsilon(parseFloat(e.target.value))}
+            >
+              {RESEARCH_OPTIONS.tolerances.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => setRunning(!running)}
+            className={`p-2 rounded-lg transition-colors ${running ? 'bg-red-500/20 text-red-500' : 'bg-green-500/20 text-green-500 hover:bg-green-500/30'}`}
+          >
+            {running ? <Pause size={16} /> : <Play size={16} fill="currentColor" />}
+          </button>
+          <button onClick={stepAll} disabled={running} className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40">
+            <StepForward size={16} />
+          </button>
+          <button onClick={resetAll} className="p-2 rounded-lg bg-white/10 hover:bg-white/20">
+            <RefreshCw size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Lanes */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {lanes.map((lane, i) => {
+          const state = states[lane.id] || EMPTY_STATE;
+          return (
+            <div key={lane.id} className="bg-apple-gray border border-white/10 rounded-2xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: LANE_COLORS[i] }} />
+                <select
+                  className="flex-1 bg-black border border-white/20 rounded-lg px-2 py-1 text-xs"
+                  value={lane.config.algo}
+                  onChange={(e) => updateLane(lane.id, { algo: e.target.value as AlgorithmType })}
+                >
+                  {allowedAlgorithms.map(a => <option key={a} value={a}>{a.replace(/_/g, ' ')}</option>)}
+                </select>
+                <select
+                  className="bg-black border border-white/20 rounded-lg px-2 py-1 text-xs"
+                  value={lane.config.learningRate}
+                  onChange={(e) => updateLane(lane.id, { learningRate: parseFloat(e.target.value) })}
+                >
+                  {RESEARCH_OPTIONS.learningRates.map(v => <option key={v} value={v}>lr {v}</option>)}
+                </select>
+                <button
+                  onClick={() => removeLane(lane.id)}
+                  disabled={lanes.length <= 1}
+                  className="text-gray-600 hover:text-red-500 p-1 disabled:opacity-30"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <div className="flex justify-center bg-black rounded-xl overflow-hidden">
+                <Visualizer
+                  landscape={landscape}
+                  agents={state.agents}
+                  trails={state.trails}
+                  distribution={searchDistribution(state.optimizerState, state.agents[0])}
+                  lineage={state.lineage}
+                  width={400}
+                  height={260}
+                  showTrails={showTrails}
+                />
+              </div>
+            </div>
+          );
+        })}
+        {lanes.length < MAX_LANES && (
+          <button
+            onClick={addLane}
+            className="min-h-[120px] border border-dashed border-white/20 rounded-2xl flex flex-col items-center justify-center gap-2 text-xs text-gray-500 hover:text-white hover:border-white/40 transition-colors"
+          >
+            <Plus size={18} />
+            Add lane from current Setup
+          </button>
+        )}
+      </div>
+
+      {/* Shared Convergence Chart */}
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-6 h-72">
+        <div className="flex justify-between items-center mb-4 gap-2">
+          <h3 className="text-sm font-medium text-gray-400">Convergence Dynamics</h3>
+          <ChartAxisToggle value={axis} onChange={setAxis} />
+        </div>
+        <ResponsiveContainer width="100%" height="85%">
+          {/* Each lane plots its own history, so lanes line up by evaluations or time as well as by iteration */}
+          <LineChart>
+            <XAxis dataKey={axis} type="number" domain={['dataMin', 'dataMax']} allowDuplicatedCategory={false} hide />
+            <YAxis domain={['auto', 'auto']} hide />
+            <RechartsTooltip
+              contentStyle={{ backgroundColor: '#1C1C1E', borderColor: '#333', color: '#fff' }}
+              formatter={(value: number) => value.toFixed(4)}
+              labelFormatter={(x: number) => `${CHART_AXIS_LABELS[axis]}: ${axis === 'elapsedMs' ? x.toFixed(1) : x}`}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {lanes.map((lane, i) => (
+              <Line
+                key={lane.id}
+                type="monotone"
+                data={states[lane.id]?.history ?? []}
+                dataKey="cost"
+                name={laneLabel(lane.config)}
+                stroke={LANE_COLORS[i]}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Summary Stats */}
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-6">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-gray-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-2 py-2 text-left font-medium">Run</th>
+              <th className="px-2 py-2 text-left font-medium">Final Cost</th>
+              <th className="px-2 py-2 text-left font-medium">Best-so-far AUC</th>
+              <th className="px-2 py-2 text-left font-medium">Iter to ε</th>
+              <th className="px-2 py-2 text-left font-medium">Stopped By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lanes.map((lane, i) => {
+              const state = states[lane.id] || EMPTY_STATE;
+              const hit = iterationsToThreshold(state.history, landscape.globalMin, epsilon);
+              return (
+                <tr key={lane.id} className="border-t border-white/5 text-gray-300">
+                  <td className="px-2 py-1">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: LANE_COLORS[i] }} />
+                    {laneLabel(lane.config)}
+                  </td>
+                  <td className="px-2 py-1 text-blue-400">{state.bestPoint ? state.bestPoint.value.toFixed(4) : '—'}</td>
+                  <td className="px-2 py-1">{state.history.length > 0 ? bestSoFarArea(state.history, landscape.globalMin).toFixed(2) : '—'}</td>
+                  <td className="px-2 py-1">{hit === null ? '—' : hit}</td>
+                  <td className="px-2 py-1 text-gray-500">{state.stopReason ? STOP_REASON_LABELS[state.stopReason] : '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { CoolingSchedule, OptimizationConfig } from '../types';
+import { COOLING_SCHEDULE_LABELS, RESEARCH_OPTIONS } from '../constants';
+import { coolingTemperature } from '../services/optimizer';
+import { toStepConfig } from '../services/runner';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import Tooltip from './Tooltip';
+
+interface CoolingControlsProps {
+  config: OptimizationConfig;
+  onChange: (config: OptimizationConfig) => void;
+}
+
+const SCHEDULE_HINTS: Record<CoolingSchedule, string> = {
+  'inverse': 'T_k = T_0 / (1 + 0.1k). Drops quickly at first, then lingers.',
+  'linear': 'T_k = T_0 (1 - k / K). Falls at a steady rate, reaching zero at the last iteration.',
+  'exponential': 'T_k = T_0 α^k. The textbook geometric schedule; α close to 1 cools slowly.',
+  'logarithmic': 'T_k = T_0 ln 2 / ln(k + 2). Very slow; the schedule with the classic convergence guarantee.',
+  'lundy-mees': 'T_{k+1} = T_k / (1 + βT_k). One proposal per temperature, cooling fastest while hot.',
+  'adaptive': 'Raise or lower T each step to keep the acceptance rate near the target.'
+};
+
+const selectClass = "w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-orange-500/30 text-orange-200";
+
+const CoolingControls: React.FC<CoolingControlsProps> = ({ config, onChange }) => {
+  const schedule = config.coolingSchedule || 'inverse';
+
+  // Temperature over the run with no reheats; adaptive depends on the run itself, so it has no preview
+  const preview = useMemo(() => {
+    if (schedule === 'adaptive') return [];
+    const stepConfig = toStepConfig(config);
+    const points = Math.min(stepConfig.horizon, 100);
+    return Array.from({ length: points + 1 }, (_, i) => {
+      const k = Math.round((i / points) * stepConfig.horizon);
+      return { k, temperature: coolingTemperature(stepConfig, k) };
+    });
+  }, [config, schedule]);
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Cooling Schedule</label>
+          <Tooltip content={SCHEDULE_HINTS[schedule]}>
+            <select
+              className={selectClass}
+              value={schedule}
+              onChange={(e) => onChange({ ...config, coolingSchedule: e.target.value as CoolingSchedule })}
+            >
+              {(Object.keys(COOLING_SCHEDULE_LABELS) as CoolingSchedule[]).map(s => (
+                <option key={s} value={s}>{COOLING_SCHEDULE_LABELS[s]}</option>
+              ))}
+            </select>
+          </Tooltip>
+        </div>
+
+        {schedule === 'exponential' && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Cooling Factor (α)</label>
+            <Tooltip content="Each step multiplies the temperature by α.">
+              <select
+                className={selectClass}
+                value={config.coolingAlpha}
+                onChange={(e) => onChange({ ...config, coolingAlpha: parseFloat(e.target.value) })}
+              >
+                {RESEARCH_OPTIONS.coolingAlphas.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </Tooltip>
+          </div>
+        )}
+        {schedule === 'lundy-mees' && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Cooling Rate (β)</label>
+            <Tooltip content="Larger β cools faster. What matters is β·T₀: at 0.1 this matches the classic inverse schedule.">
+              <select
+                className={selectClass}
+                value={config.coolingBeta}
+                onChange={(e) => onChange({ ...config, coolingBeta: parseFloat(e.target.value) })}
+              >
+                {RESEARCH_OPTIONS.coolingBetas.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </Tooltip>
+          </div>
+        )}
+        {schedule === 'adaptive' && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Target Acceptance</label>
+            <Tooltip content="Fraction of proposed moves the adaptive schedule tries to accept.">
+              <select
+                className={selectClass}
+                value={config.targetAcceptance}
+                onChange={(e) => onChange({ ...config, targetAcceptance: parseFloat(e.target.value) })}
+              >
+                {RESEARCH_OPTIONS.targetAcceptances.map(v => <option key={v} value={v}>{(v * 100).toFixed(0)}%</option>)}
+              </select>
+            </Tooltip>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Reheat After</label>
+          <Tooltip content="Restart the schedule from the initial temperature after this many steps without a new best.">
+            <select
+              className={selectClass}
+              value={config.reheatWindow}
+              onChange={(e) => onChange({ ...config, reheatWindow: parseInt(e.target.value) })}
+            >
+              {RESEARCH_OPTIONS.reheatWindows.map(v => <option key={v} value={v}>{v === 0 ? 'Never' : `${v} steps`}</option>)}
+            </select>
+          </Tooltip>
+        </div>
+      </div>
+
+      {preview.length > 0 && (
+        <div className="h-12 bg-black/40 border border-white/10 rounded-lg px-2 py-1">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={preview}>
+              <YAxis domain={[0, 'auto']} hide />
+              <Line type="monotone" dataKey="temperature" stroke="#FF9F0A" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoolingControls;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ChartAxis, HistoryEntry } from '../types';
+import { CHART_AXIS_LABELS } from '../constants';
+import { LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface ExplorationChartProps {
+  history: HistoryEntry[];
+  axis: ChartAxis;
+  showAcceptance?: boolean; // Annealing only
+}
+
+// Series on the shared 0..1 axis
+const FRACTION_SERIES = [
+  { key: 'diversity', name: 'Diversity', color: '#34C759' },
+  { key: 'entropy', name: 'Entropy', color: '#5AC8FA' },
+  { key: 'coverage', name: 'Coverage', color: '#FFD60A' }
+];
+
+const ExplorationChart: React.FC<ExplorationChartProps> = ({ history, axis, showAcceptance = false }) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <LineChart data={history}>
+      <XAxis dataKey={axis} type="number" domain={['dataMin', 'dataMax']} hide />
+      <YAxis yAxisId="fraction" domain={[0, 1]} hide />
+      <YAxis yAxisId="rate" domain={[0, 'auto']} hide />
+      <RechartsTooltip
+        contentStyle={{ backgroundColor: '#1C1C1E', borderColor: '#333', color: '#fff' }}
+        formatter={(value: number, name: string) => [name === 'Improvement / iter' ? value.toPrecision(3) : `${(value * 100).toFixed(1)}%`, name]}
+        labelFormatter={(x: number) => `${CHART_AXIS_LABELS[axis]}: ${axis === 'elapsedMs' ? x.toFixed(1) : x}`}
+      />
+      <Legend wrapperStyle={{ fontSize: 10 }} />
+      {FRACTION_SERIES.map(s => (
+        <Line key={s.key} yAxisId="fraction" type="monotone" dataKey={s.key} name={s.name} stroke={s.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      ))}
+      {showAcceptance && (
+        <Line yAxisId="fraction" type="monotone" dataKey="acceptance" name="Acceptance" stroke="#AF52DE" strokeWidth={1.5} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+      )}
+      <Line yAxisId="rate" type="monotone" dataKey="improvementRate" name="Improvement / iter" stroke="#FF375F" strokeWidth={1} dot={false} isAnimationActive={false} />
+    </LineChart>
+  </ResponsiveContainer>
+);
+
+export default ExplorationChart;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Film, ImageIcon } from 'lucide-react';
+import { AnimationFormat, ImageFormat } from '../types';
+import Tooltip from './Tooltip';
+
+interface ExportControlsProps {
+  canAnimate: boolean; // Something has been recorded
+  canRecordWebm: boolean;
+  progress: number | null; // 0..1 while an animation is being rendered
+  onExportAnimation: (format: AnimationFormat) => void;
+  onExportFrame: (format: ImageFormat) => void;
+}
+
+const BUTTON = "flex items-center gap-1 text-xs px-2 py-1 rounded-full border border-white/20 text-gray-400 hover:text-white hover:border-white/40 transition-colors disabled:opacity-30 disabled:hover:text-gray-400";
+
+// Download the visualizer as an animation of the recorded run or as an image of the frame on screen
+const ExportControls: React.FC<ExportControlsProps> = ({ canAnimate, canRecordWebm, progress, onExportAnimation, onExportFrame }) => {
+  const busy = progress !== null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 pb-3 text-xs text-gray-500">
+      <span className="uppercase tracking-wider text-[10px]">Export</span>
+      <Tooltip content="Animated GIF of the recorded run, with the iteration and best cost burned in.">
+        <button onClick={() => onExportAnimation('gif')} disabled={!canAnimate || busy} className={BUTTON}>
+          <Film size={12} /> GIF
+        </button>
+      </Tooltip>
+      <Tooltip content={canRecordWebm ? "WebM video of the recorded run (recorded in real time)." : "This browser cannot record WebM video."}>
+        <button onClick={() => onExportAnimation('webm')} disabled={!canAnimate || !canRecordWebm || busy} className={BUTTON}>
+          <Film size={12} /> WebM
+        </button>
+      </Tooltip>
+      <Tooltip content="High-resolution PNG of the frame on screen.">
+        <button onClick={() => onExportFrame('png')} disabled={busy} className={BUTTON}>
+          <ImageIcon size={12} /> PNG
+        </button>
+      </Tooltip>
+      <Tooltip content="SVG of the frame on screen: vector agents, trails and labels over an embedded heatmap.">
+        <button onClick={() => onExportFrame('svg')} disabled={busy} className={BUTTON}>
+          <ImageIcon size={12} /> SVG
+        </button>
+      </Tooltip>
+      {busy && (
+        <div className="flex items-center gap-2 ml-2">
+          <div className="w-24 h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="font-mono">{Math.round(progress * 100)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { CrossoverMethod, MutationMethod, OptimizationConfig, SelectionMethod } from '../types';
+import { CROSSOVER_LABELS, MUTATION_LABELS, RESEARCH_OPTIONS, SELECTION_LABELS } from '../constants';
+import Tooltip from './Tooltip';
+
+interface GeneticControlsProps {
+  config: OptimizationConfig;
+  onChange: (config: OptimizationConfig) => void;
+}
+
+const SELECTION_HINTS: Record<SelectionMethod, string> = {
+  'truncation': 'Parents drawn uniformly from the better half. Simple, but blind to how much better.',
+  'tournament': 'Draw k agents, keep the best. Larger k means stronger selection pressure.',
+  'roulette': 'Chance of being picked grows with how far below the worst cost an agent sits.',
+  'rank': 'Chance of being picked follows rank only, so one outlier cannot take over.'
+};
+
+const CROSSOVER_HINTS: Record<CrossoverMethod, string> = {
+  'midpoint': 'Child sits exactly halfway between its parents.',
+  'arithmetic': 'Child is a random blend λ·p₁ + (1 − λ)·p₂ on the segment between parents.',
+  'blx-alpha': 'Each gene is drawn from the parents\' interval stretched by α on both sides, so children can explore beyond them.',
+  'sbx': 'Simulated binary crossover: mimics one-point binary crossover on real numbers; children usually land near a parent.'
+};
+
+const MUTATION_HINTS: Record<MutationMethod, string> = {
+  'uniform': 'With the mutation rate, nudge both genes together by up to ±2 × learning rate.',
+  'gaussian': 'Each gene independently, with the mutation rate, gets N(0, learning rate²) noise.',
+  'polynomial': 'Each gene independently, with the mutation rate, gets a bounded bump that respects the domain edges.'
+};
+
+const selectClass = "w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm border-green-500/30 text-green-200";
+
+const GeneticControls: React.FC<GeneticControlsProps> = ({ config, onChange }) => {
+  const selection = config.selection || 'truncation';
+  const crossover = config.crossover || 'midpoint';
+  const mutation = config.mutation || 'uniform';
+
+  return (
+    <div className="grid grid-cols-2 gap-4 animate-fadeIn">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Selection</label>
+        <Tooltip content={SELECTION_HINTS[selection]}>
+          <select
+            className={selectClass}
+            value={selection}
+            onChange={(e) => onChange({ ...config, selection: e.target.value as SelectionMethod })}
+          >
+            {(Object.keys(SELECTION_LABELS) as SelectionMethod[]).map(s => <option key={s} value={s}>{SELECTION_LABELS[s]}</option>)}
+          </select>
+        </Tooltip>
+      </div>
+      {selection === 'tournament' ? (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Tournament Size (k)</label>
+          <Tooltip content="Contestants per tournament.">
+            <select
+              className={selectClass}
+              value={config.tournamentSize}
+              onChange={(e) => onChange({ ...config, tournamentSize: parseInt(e.target.value) })}
+            >
+              {RESEARCH_OPTIONS.tournamentSizes.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </Tooltip>
+        </div>
+      ) : <div />}
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Crossover</label>
+        <Tooltip content={CROSSOVER_HINTS[crossover]}>
+          <select
+            className={selectClass}
+            value={crossover}
+            onChange={(e) => onChange({ ...config, crossover: e.target.value as CrossoverMethod })}
+          >
+            {(Object.keys(CROSSOVER_LABELS) as CrossoverMethod[]).map(c => <option key={c} value={c}>{CROSSOVER_LABELS[c]}</option>)}
+          </select>
+        </Tooltip>
+      </div>
+      {crossover === 'blx-alpha' ? (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">BLX α</label>
+          <Tooltip content="0 keeps children between the parents; larger values let them overshoot.">
+            <select
+              className={selectClass}
+              value={config.blxAlpha}
+              onChange={(e) => onChange({ ...config, blxAlpha: parseFloat(e.target.value) })}
+            >
+              {RESEARCH_OPTIONS.blxAlphas.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </Tooltip>
+        </div>
+      ) : crossover === 'sbx' ? (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">SBX η</label>
+          <Tooltip content="Distribution index. Larger values keep children closer to their parents.">
+            <select
+              className={selectClass}
+              value={config.sbxEta}
+              onChange={(e) => onChange({ ...config, sbxEta: parseFloat(e.target.value) })}
+            >
+              {RESEARCH_OPTIONS.sbxEtas.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </Tooltip>
+        </div>
+      ) : <div />}
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Mutation</label>
+        <Tooltip content={MUTATION_HINTS[mutation]}>
+          <select
+            className={selectClass}
+            value={mutation}
+            onChange={(e) => onChange({ ...config, mutation: e.target.value as MutationMethod })}
+          >
+            {(Object.keys(MUTATION_LABELS) as MutationMethod[]).map(m => <option key={m} value={m}>{MUTATION_LABELS[m]}</option>)}
+          </select>
+        </Tooltip>
+      </div>
+      {mutation === 'polynomial' ? (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Mutation η</label>
+          <Tooltip content="Distribution index. Larger values make smaller bumps.">
+            <select
+              className={selectClass}
+              value={config.mutationEta}
+              onChange={(e) => onChange({ ...config, mutationEta: parseFloat(e.target.value) })}
+            >
+              {RESEARCH_OPTIONS.mutationEtas.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </Tooltip>
+        </div>
+      ) : <div />}
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Elite Fraction</label>
+        <Tooltip content="Share of the best agents copied unchanged into the next generation. Too high and the population stops exploring.">
+          <select
+            className={selectClass}
+            value={config.eliteFraction}
+            onChange={(e) => onChange({ ...config, eliteFraction: parseFloat(e.target.value) })}
+          >
+            {RESEARCH_OPTIONS.eliteFractions.map(v => <option key={v} value={v}>{(v * 100).toFixed(0)}%</option>)}
+          </select>
+        </Tooltip>
+      </div>
+    </div>
+  );
+};
+
+export default GeneticControls;
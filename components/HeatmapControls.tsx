@@ -0,0 +1,55 @@
+import React from 'react';
+import { Colormap, ColorScale, FieldOverlays, HeatmapStyle } from '../types';
+import { COLORMAP_LABELS, COLOR_SCALE_LABELS, FIELD_OVERLAY_LABELS, RESEARCH_OPTIONS } from '../constants';
+import Tooltip from './Tooltip';
+
+interface HeatmapControlsProps {
+  style: HeatmapStyle;
+  onChange: (style: HeatmapStyle) => void;
+  overlays: FieldOverlays;
+  onOverlaysChange: (overlays: FieldOverlays) => void;
+}
+
+const selectClass = "bg-black border border-white/20 rounded-lg px-2 py-1 text-xs text-gray-300";
+
+// What each overlay shows, for its tooltip
+const OVERLAY_HINTS: Record<keyof FieldOverlays, string> = {
+  gradient: 'Arrows along the negative gradient: the direction a greedy step takes from each point.',
+  minima: 'Every local minimum found by following the steepest downhill neighbour across a grid.',
+  basins: 'Each pixel shaded by the local minimum a hill climber starting there would end in.'
+};
+
+// Colormap, colour scale, contour density and analysis overlays for the 2D heatmap
+const HeatmapControls: React.FC<HeatmapControlsProps> = ({ style, onChange, overlays, onOverlaysChange }) => (
+  <div className="flex flex-wrap items-center gap-3 px-4 pb-3 text-xs text-gray-500">
+    <span className="uppercase tracking-wider text-[10px]">Heatmap</span>
+    <select className={selectClass} value={style.colormap} onChange={(e) => onChange({ ...style, colormap: e.target.value as Colormap })}>
+      {(Object.keys(COLORMAP_LABELS) as Colormap[]).map(c => <option key={c} value={c}>{COLORMAP_LABELS[c]}</option>)}
+    </select>
+    <Tooltip content="Log spreads colour over the low-cost end, where basins are; quantile gives every colour an equal share of the domain.">
+      <select className={selectClass} value={style.scale} onChange={(e) => onChange({ ...style, scale: e.target.value as ColorScale })}>
+        {(Object.keys(COLOR_SCALE_LABELS) as ColorScale[]).map(s => <option key={s} value={s}>{COLOR_SCALE_LABELS[s]}</option>)}
+      </select>
+    </Tooltip>
+    <Tooltip content="Contour lines at evenly spaced steps of the colour scale.">
+      <select className={selectClass} value={style.contours} onChange={(e) => onChange({ ...style, contours: parseInt(e.target.value) })}>
+        {RESEARCH_OPTIONS.contourLevels.map(n => <option key={n} value={n}>{n === 0 ? 'No contours' : `${n} contours`}</option>)}
+      </select>
+    </Tooltip>
+    {(Object.keys(FIELD_OVERLAY_LABELS) as (keyof FieldOverlays)[]).map(key => (
+      <Tooltip key={key} content={OVERLAY_HINTS[key]}>
+        <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={overlays[key]}
+            onChange={(e) => onOverlaysChange({ ...overlays, [key]: e.target.checked })}
+            className="rounded bg-black border-white/20"
+          />
+          {FIELD_OVERLAY_LABELS[key]}
+        </label>
+      </Tooltip>
+    ))}
+  </div>
+);
+
+export default HeatmapControls;
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { CustomLandscapeDefinition } from '../types';
+import { validateLandscape } from '../services/customLandscapes';
+import { Check, X } from 'lucide-react';
+
+interface LandscapeEditorProps {
+  initial?: CustomLandscapeDefinition; // Editing an existing custom landscape
+  reservedNames: string[]; // Built-in landscape names that can't be reused
+  onSave: (def: CustomLandscapeDefinition) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_DEFINITION: CustomLandscapeDefinition = {
+  name: '',
+  description: '',
+  expression: '(1-x)^2 + 100*(y-x^2)^2',
+  minX: -2, maxX: 2, minY: -1, maxY: 3,
+  globalMin: 0
+};
+
+const LandscapeEditor: React.FC<LandscapeEditorProps> = ({ initial, reservedNames, onSave, onCancel }) => {
+  const [def, setDef] = useState<CustomLandscapeDefinition>(initial || EMPTY_DEFINITION);
+
+  // Re-validate on every keystroke so parse errors show up inline
+  const problem = useMemo(() => validateLandscape(def, reservedNames), [def, reservedNames]);
+
+  const numberField = (key: 'minX' | 'maxX' | 'minY' | 'maxY' | 'globalMin', label: string) => (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+      <input
+        type="number"
+        className="w-full bg-black border border-white/20 rounded-lg px-2 py-1 text-xs font-mono"
+        value={Number.isFinite(def[key]) ? def[key] : ''}
+        onChange={(e) => setDef({ ...def, [key]: parseFloat(e.target.value) })}
+      />
+    </div>
+  );
+
+  // Optional single known optimum; both coordinates or neither
+  const [optimumText, setOptimumText] = useState({
+    x: initial?.optima?.[0] ? String(initial.optima[0].x) : '',
+    y: initial?.optima?.[0] ? String(initial.optima[0].y) : ''
+  });
+  const updateOptimum = (axis: 'x' | 'y', text: string) => {
+    const next = { ...optimumText, [axis]: text };
+    setOptimumText(next);
+    const x = parseFloat(next.x);
+    const y = parseFloat(next.y);
+    setDef({ ...def, optima: Number.isFinite(x) && Number.isFinite(y) ? [{ x, y }] : [] });
+  };
+
+  const optimumField = (axis: 'x' | 'y', label: string) => (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+      <input
+        type="number"
+        placeholder="optional"
+        className="w-full bg-black border border-white/20 rounded-lg px-2 py-1 text-xs font-mono"
+        value={optimumText[axis]}
+        onChange={(e) => updateOptimum(axis, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-black/40 border border-white/10 rounded-xl space-y-3 animate-fadeIn">
+      <input
+        type="text"
+        placeholder="Landscape name..."
+        className="w-full bg-black border border-white/20 rounded-lg px-3 py-2 text-sm focus:border-blue-500 outline-none"
+        value={def.name}
+        onChange={(e) => setDef({ ...def, name: e.target.value })}
+      />
+
+      <div>
+        <label className="block text-[10px] text-gray-500 mb-1">f(x, y) =</label>
+        <input
+          type="text"
+          spellCheck={false}
+          className={`w-full bg-black border rounded-lg px-3 py-2 text-sm font-mono outline-none ${problem?.field === 'expression' ? 'border-red-500/60' : 'border-white/20 focus:border-blue-500'}`}
+          value={def.expression}
+          onChange={(e) => setDef({ ...def, expression: e.target.value })}
+        />
+        {problem?.field === 'expression' && (
+          <div className="mt-1 text-[10px] font-mono text-red-400 whitespace-pre overflow-x-auto">
+            {/* Caret under the offending character */}
+            <div className="text-gray-500">{def.expression}</div>
+            <div>{' '.repeat(problem.position)}^</div>
+            <div className="font-sans">{problem.error}</div>
+          </div>
+        )}
+        <p className="mt-1 text-[10px] text-gray-600">
+          Operators + - * / % ^, functions sin cos tan exp log sqrt abs min max pow..., constants pi and e.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {numberField('minX', 'Min X')}
+        {numberField('maxX', 'Max X')}
+        {numberField('minY', 'Min Y')}
+        {numberField('maxY', 'Max Y')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {numberField('globalMin', 'Known Global Min')}
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Description</label>
+          <input
+            type="text"
+            className="w-full bg-black border border-white/20 rounded-lg px-2 py-1 text-xs"
+            value={def.description}
+            onChange={(e) => setDef({ ...def, description: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {optimumField('x', 'Optimum X')}
+        {optimumField('y', 'Optimum Y')}
+      </div>
+
+      {problem && problem.field !== 'expression' && (
+        <div className="text-[10px] text-red-400">{problem.error}</div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSave({ ...def, name: def.name.trim() })}
+          disabled={!!problem}
+          className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-40"
+        >
+          <Check size={14} /> Save Landscape
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 px-3 py-2 rounded-lg text-xs font-medium transition-colors"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LandscapeEditor;
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { LineageNode } from '../types';
+import { founderCount, lineOfDescent } from '../services/lineage';
+
+interface LineagePanelProps {
+  lineage: LineageNode[][];
+}
+
+const WIDTH = 600;
+const HEIGHT = 140;
+const PAD = 10;
+
+const LineagePanel: React.FC<LineagePanelProps> = ({ lineage }) => {
+  const latest = lineage[lineage.length - 1];
+  const best = latest?.reduce((b, n) => (n.value < b.value ? n : b), latest[0]);
+
+  const steps = useMemo(() => (best ? lineOfDescent(lineage, best.id) : []), [lineage, best]);
+  const founders = useMemo(() => (best ? founderCount(lineage, best.id) : 0), [lineage, best]);
+
+  if (!best || steps.length === 0) {
+    return <div className="text-xs text-gray-600">Run the genetic algorithm to grow a family tree.</div>;
+  }
+
+  // Generation across, cost down (lower cost sits lower, like the landscape)
+  const costs = steps.flatMap(s => (s.coParent ? [s.node.value, s.coParent.value] : [s.node.value]));
+  const minCost = Math.min(...costs);
+  const maxCost = Math.max(...costs);
+  const lastGen = Math.max(1, lineage.length - 1);
+  const px = (g: number) => PAD + (g / lastGen) * (WIDTH - 2 * PAD);
+  const py = (v: number) => PAD + (maxCost === minCost ? 0.5 : (maxCost - v) / (maxCost - minCost)) * (HEIGHT - 2 * PAD);
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-400">
+        Best individual <span className="font-mono text-white">#{best.id}</span> (f = {best.value.toFixed(4)}) descends from{' '}
+        <span className="text-green-400">{founders} of {lineage[0].length}</span> founders.
+        The line follows its fitter parent at each birth; hollow dots are the other parent.
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-36 bg-black/40 rounded-lg border border-white/10">
+        {steps.map(s => s.coParent && (
+          <line
+            key={`co-${s.node.id}`}
+            x1={px(s.generation - 1)} y1={py(s.coParent.value)}
+            x2={px(s.generation)} y2={py(s.node.value)}
+            stroke="rgba(255,255,255,0.25)" strokeDasharray="2 2"
+          />
+        ))}
+        <polyline
+          points={steps.map(s => `${px(s.generation)},${py(s.node.value)}`).join(' ')}
+          fill="none" stroke="#34C759" strokeWidth={1.5}
+        />
+        {steps.map((s, i) => (
+          <g key={s.node.id}>
+            {s.coParent && (
+              <circle cx={px(s.generation - 1)} cy={py(s.coParent.value)} r={2.5} fill="none" stroke="rgba(255,255,255,0.5)">
+                <title>#{s.coParent.id}, f = {s.coParent.value.toFixed(4)}</title>
+              </circle>
+            )}
+            <circle cx={px(s.generation)} cy={py(s.node.value)} r={3} fill={i === steps.length - 1 ? '#34C759' : '#FFFFFF'}>
+              <title>#{s.node.id}, born gen {s.generation}, f = {s.node.value.toFixed(4)}</title>
+            </circle>
+          </g>
+        ))}
+      </svg>
+
+      <div className="max-h-40 overflow-y-auto">
+        <table className="w-full text-[11px] font-mono text-gray-300">
+          <thead className="text-gray-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">Gen</th>
+              <th className="px-2 py-1 text-left font-medium">Individual</th>
+              <th className="px-2 py-1 text-left font-medium">Position</th>
+              <th className="px-2 py-1 text-left font-medium">Cost</th>
+              <th className="px-2 py-1 text-left font-medium">Bred With</th>
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map(s => (
+              <tr key={s.node.id} className="border-t border-white/5">
+                <td className="px-2 py-0.5">{s.generation}</td>
+                <td className="px-2 py-0.5">#{s.node.id}</td>
+                <td className="px-2 py-0.5">({s.node.x.toFixed(3)}, {s.node.y.toFixed(3)})</td>
+                <td className="px-2 py-0.5 text-blue-400">{s.node.value.toFixed(4)}</td>
+                <td className="px-2 py-0.5 text-gray-500">{s.coParent ? `#${s.coParent.id}` : s.generation === 0 ? 'founder' : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LineagePanel;
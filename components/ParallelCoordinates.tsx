@@ -0,0 +1,63 @@
+import React from 'react';
+import { Point } from '../types';
+import { positionOf } from '../services/dimensions';
+import { bestAgentIndex } from '../services/render';
+
+interface ParallelCoordinatesProps {
+  agents: Point[];
+  bounds: [number, number][];
+  optima?: number[][];
+  highlight?: number[]; // Dimensions shown on the 2D view
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD_X = 16;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 18;
+// At most this many axis labels, so 50 dimensions stay readable
+const MAX_LABELS = 20;
+
+// One vertical axis per dimension (scaled to its bounds) and one polyline per agent, best agent in green
+const ParallelCoordinates: React.FC<ParallelCoordinatesProps> = ({ agents, bounds, optima = [], highlight = [] }) => {
+  const n = bounds.length;
+  const px = (k: number) => PAD_X + (n > 1 ? k / (n - 1) : 0.5) * (WIDTH - 2 * PAD_X);
+  const py = (k: number, x: number) => {
+    const [lo, hi] = bounds[k];
+    return PAD_TOP + (1 - (x - lo) / (hi - lo)) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  };
+  const polyline = (position: number[]) => position.map((x, k) => `${px(k)},${py(k, x)}`).join(' ');
+  const bestIndex = agents.length > 0 ? bestAgentIndex(agents) : -1;
+  const labelEvery = Math.ceil(n / MAX_LABELS);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 bg-black/40 rounded-lg border border-white/10">
+      {bounds.map((_, k) => (
+        <g key={k}>
+          <line
+            x1={px(k)} y1={PAD_TOP} x2={px(k)} y2={HEIGHT - PAD_BOTTOM}
+            stroke={highlight.includes(k) ? 'rgba(96,165,250,0.8)' : 'rgba(255,255,255,0.15)'}
+          />
+          {(k % labelEvery === 0 || highlight.includes(k)) && (
+            <text x={px(k)} y={HEIGHT - 5} textAnchor="middle" fontSize={9} fill={highlight.includes(k) ? '#60A5FA' : '#6B7280'}>
+              x{k + 1}
+            </text>
+          )}
+        </g>
+      ))}
+      {optima.map((o, i) => (
+        <polyline key={`opt-${i}`} points={polyline(o)} fill="none" stroke="#FACC15" strokeDasharray="3 3" strokeWidth={1} />
+      ))}
+      {agents.map((a, i) => i !== bestIndex && (
+        <polyline key={i} points={polyline(positionOf(a))} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth={1} />
+      ))}
+      {bestIndex >= 0 && (
+        <polyline points={polyline(positionOf(agents[bestIndex]))} fill="none" stroke="#34C759" strokeWidth={1.5}>
+          <title>Best agent, f = {agents[bestIndex].value.toFixed(4)}</title>
+        </polyline>
+      )}
+    </svg>
+  );
+};
+
+export default ParallelCoordinates;
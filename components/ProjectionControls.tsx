@@ -0,0 +1,65 @@
+import React from 'react';
+import { ProjectionMode } from '../types';
+import { PROJECTION_MODE_LABELS } from '../constants';
+import Tooltip from './Tooltip';
+
+interface ProjectionControlsProps {
+  dimensions: number;
+  mode: ProjectionMode;
+  onModeChange: (mode: ProjectionMode) => void;
+  axes: [number, number];
+  onAxesChange: (axes: [number, number]) => void;
+  onAnchorToBest: () => void; // Slice: fix the other coordinates at the best point found so far
+  onRefit: () => void; // PCA: refit the plane to the current agents and trails
+  canAnchor: boolean;
+}
+
+const selectClass = "bg-black border border-white/20 rounded-lg px-2 py-1 text-xs text-gray-300";
+const buttonClass = "px-2 py-0.5 rounded-full border border-white/20 text-gray-400 hover:text-white disabled:opacity-40";
+
+// Which plane of an n-dimensional run the 2D view shows
+const ProjectionControls: React.FC<ProjectionControlsProps> = ({ dimensions, mode, onModeChange, axes, onAxesChange, onAnchorToBest, onRefit, canAnchor }) => {
+  const axisSelect = (which: 0 | 1) => (
+    <select
+      className={selectClass}
+      value={axes[which]}
+      onChange={(e) => {
+        const next: [number, number] = [axes[0], axes[1]];
+        next[which] = parseInt(e.target.value);
+        onAxesChange(next);
+      }}
+    >
+      {Array.from({ length: dimensions }, (_, k) => (
+        <option key={k} value={k} disabled={k === axes[1 - which]}>x{k + 1}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 pt-3 text-xs text-gray-500">
+      <span className="uppercase tracking-wider text-[10px]">{dimensions}D view</span>
+      <Tooltip content="An axis slice varies two coordinates and holds the rest fixed; the PCA plane follows the two directions the agents are most spread along.">
+        <select className={selectClass} value={mode} onChange={(e) => onModeChange(e.target.value as ProjectionMode)}>
+          {(Object.keys(PROJECTION_MODE_LABELS) as ProjectionMode[]).map(m => <option key={m} value={m}>{PROJECTION_MODE_LABELS[m]}</option>)}
+        </select>
+      </Tooltip>
+      {mode === 'slice' ? (
+        <>
+          {axisSelect(0)}
+          <span>×</span>
+          {axisSelect(1)}
+          <button onClick={onAnchorToBest} disabled={!canAnchor} className={buttonClass}>Through best</button>
+        </>
+      ) : (
+        <button onClick={onRefit} className={buttonClass}>Refit to agents</button>
+      )}
+      <span className="text-[11px]">
+        {mode === 'slice'
+          ? `The heatmap holds every other coordinate at the anchor; agents sit at their own x${axes[0] + 1}, x${axes[1] + 1}.`
+          : 'The heatmap is the cost on the fitted plane; agents are shown at their projection onto it.'}
+      </span>
+    </div>
+  );
+};
+
+export default ProjectionControls;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Landscape, OrbitCamera, Point } from '../types';
+import { CAMERA_LIMITS, DEFAULT_CAMERA, createSurfaceRenderer } from '../services/surface';
+
+interface SurfaceViewProps {
+  landscape: Landscape;
+  agents: Point[];
+  trails?: Point[][];
+  width?: number;
+  height?: number;
+  showTrails?: boolean;
+}
+
+// Radians of orbit per pixel dragged
+const ORBIT_SPEED = 0.008;
+// Distance multiplier per wheel notch
+const ZOOM_STEP = 1.1;
+
+// 3D counterpart of the Visualizer: the landscape as a shaded surface, orbited by dragging and zoomed with the wheel
+const SurfaceView: React.FC<SurfaceViewProps> = ({ landscape, agents, trails = [], width = 400, height = 400, showTrails = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<ReturnType<typeof createSurfaceRenderer>>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [camera, setCamera] = useState<OrbitCamera>(DEFAULT_CAMERA);
+  const [supported, setSupported] = useState(true);
+  const [meshVersion, setMeshVersion] = useState(0); // Bumped when the mesh is rebuilt, to trigger a redraw
+
+  // One renderer per canvas
+  useEffect(() => {
+    const gl = canvasRef.current?.getContext('webgl', { antialias: true, preserveDrawingBuffer: true });
+    const renderer = gl ? createSurfaceRenderer(gl) : null;
+    if (!renderer) {
+      setSupported(false);
+      return;
+    }
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!rendererRef.current) return;
+    rendererRef.current.setLandscape(landscape);
+    setMeshVersion(v => v + 1);
+  }, [landscape]);
+
+  useEffect(() => {
+    rendererRef.current?.draw(camera, agents, trails, showTrails);
+  }, [camera, agents, trails, showTrails, meshVersion, width, height]);
+
+  // The wheel listener must be non-passive to keep the page from scrolling while zooming
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setCamera(c => ({
+        ...c,
+        distance: Math.min(CAMERA_LIMITS.maxDistance, Math.max(CAMERA_LIMITS.minDistance, c.distance * factor))
+      }));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCamera(c => ({
+      ...c,
+      yaw: c.yaw - dx * ORBIT_SPEED,
+      pitch: Math.min(CAMERA_LIMITS.maxPitch, Math.max(CAMERA_LIMITS.minPitch, c.pitch + dy * ORBIT_SPEED))
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="relative border border-white/10 rounded-xl overflow-hidden shadow-2xl shadow-blue-900/10" style={{ width, height }}>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute top-0 left-0 cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => setCamera(DEFAULT_CAMERA)}
+      />
+      {!supported && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+          WebGL is not available in this browser; switch back to the 2D view.
+        </div>
+      )}
+      <div className="absolute bottom-2 left-2 text-xs text-white/50 font-mono pointer-events-none">
+        Drag to orbit · scroll to zoom · double-click to reset
+      </div>
+    </div>
+  );
+};
+
+export default SurfaceView;
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { AlgorithmType, OptimizationConfig, SweepCellResult } from '../types';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface SweepResultsProps {
+  results: SweepCellResult[];
+  onApply?: (config: OptimizationConfig) => void; // Load a cell's config into the Setup panel
+}
+
+type SortKey = 'algo' | 'learningRate' | 'maxIterations' | 'meanBestCost' | 'meanDistanceToOptimum' | 'meanIterationsToThreshold' | 'successRate';
+
+// Helper: Algorithm-specific parameters as a short label
+const describeParams = (config: OptimizationConfig) => {
+  if (config.algo === AlgorithmType.SIMULATED_ANNEALING) return `T=${config.temperature}`;
+  if (config.algo === AlgorithmType.GENETIC) return `pop=${config.populationSize} mut=${config.mutationRate}`;
+  if (config.algo === AlgorithmType.MOMENTUM || config.algo === AlgorithmType.NESTEROV) return `μ=${config.momentum}`;
+  if (config.algo === AlgorithmType.RMSPROP) return `ρ=${config.rmsDecay}`;
+  if (config.algo === AlgorithmType.ADAM) return `β1=${config.beta1} β2=${config.beta2}`;
+  if (config.algo === AlgorithmType.PARTICLE_SWARM) return `pop=${config.populationSize} w=${config.inertia}`;
+  if (config.algo === AlgorithmType.CMA_ES) return `λ=${config.populationSize}`;
+  if (config.algo === AlgorithmType.DIFFERENTIAL_EVOLUTION) return `pop=${config.populationSize} F=${config.differentialWeight} CR=${config.crossoverRate}`;
+  return '—';
+};
+
+const sortValue = (r: SweepCellResult, key: SortKey): number | string => {
+  switch (key) {
+    case 'algo': return r.config.algo;
+    case 'learningRate': return r.config.learningRate;
+    case 'maxIterations': return r.config.maxIterations;
+    case 'meanBestCost': return r.meanBestCost;
+    case 'meanDistanceToOptimum': return r.meanDistanceToOptimum ?? Infinity;
+    case 'meanIterationsToThreshold': return r.meanIterationsToThreshold ?? Infinity; // Never reached sorts last
+    case 'successRate': return r.successRate;
+  }
+};
+
+const SweepResults: React.FC<SweepResultsProps> = ({ results, onApply }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('meanBestCost');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const rows = [...results];
+    rows.sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      const cmp = va < vb ? -1 : va > vb ? 1 : 0;
+      return ascending ? cmp : -cmp;
+    });
+    return rows;
+  }, [results, sortKey, ascending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key !== 'successRate'); // Higher success is better, show it first
+    }
+  };
+
+  const header = (key: SortKey, label: string) => (
+    <th
+      onClick={() => toggleSort(key)}
+      className="px-2 py-2 text-left font-medium cursor-pointer select-none hover:text-white whitespace-nowrap"
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="max-h-80 overflow-y-auto">
+      <table className="w-full text-xs font-mono">
+        <thead className="sticky top-0 bg-apple-gray text-gray-500 uppercase tracking-wider">
+          <tr>
+            {header('algo', 'Algo')}
+            {header('learningRate', 'LR')}
+            {header('maxIterations', 'Iters')}
+            <th className="px-2 py-2 text-left font-medium">Params</th>
+            {header('meanBestCost', 'Best Cost')}
+            {header('meanDistanceToOptimum', 'Dist→x*')}
+            {header('meanIterationsToThreshold', 'Iters→Tol')}
+            {header('successRate', 'Success')}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((r, i) => (
+            <tr
+              key={i}
+              onClick={() => onApply?.(r.config)}
+              className="border-t border-white/5 text-gray-300 hover:bg-white/5 cursor-pointer"
+            >
+              <td className="px-2 py-1">{r.config.algo.replace(/_/g, ' ')}</td>
+              <td className="px-2 py-1">{r.config.learningRate}</td>
+              <td className="px-2 py-1">{r.config.maxIterations}</td>
+              <td className="px-2 py-1 text-gray-500">{describeParams(r.config)}</td>
+              <td className="px-2 py-1 text-blue-400">{r.meanBestCost.toFixed(4)}</td>
+              <td className="px-2 py-1">{r.meanDistanceToOptimum === null ? '—' : r.meanDistanceToOptimum.toFixed(4)}</td>
+              <td className="px-2 py-1">{r.meanIterationsToThreshold === null ? '—' : r.meanIterationsToThreshold.toFixed(1)}</td>
+              <td className={`px-2 py-1 ${r.successRate >= 0.5 ? 'text-green-400' : 'text-gray-500'}`}>{(r.successRate * 100).toFixed(0)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SweepResults;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Pause, Play, Radio, SkipBack, SkipForward } from 'lucide-react';
+import Tooltip from './Tooltip';
+
+interface TimelineControlsProps {
+  first: number;
+  last: number;
+  iteration: number; // Iteration on screen
+  live: boolean; // Following the simulation rather than viewing the past
+  replaying: boolean;
+  speed: number;
+  onSeek: (iteration: number) => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onToggleReplay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onGoLive: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const TimelineControls: React.FC<TimelineControlsProps> = ({
+  first, last, iteration, live, replaying, speed,
+  onSeek, onStepBack, onStepForward, onToggleReplay, onSpeedChange, onGoLive
+}) => (
+  <div className="flex items-center gap-3 px-4 py-3">
+    <Tooltip content="Step back one iteration.">
+      <button onClick={onStepBack} disabled={iteration <= first} className="p-1.5 rounded-full text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-30">
+        <SkipBack size={16} />
+      </button>
+    </Tooltip>
+    <Tooltip content={replaying ? "Pause the replay" : "Replay from this iteration"}>
+      <button onClick={onToggleReplay} disabled={live && !replaying} className="p-1.5 rounded-full text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-30">
+        {replaying ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+    </Tooltip>
+    <Tooltip content="Step forward one iteration (at the live end, this runs a new one).">
+      <button onClick={onStepForward} className="p-1.5 rounded-full text-gray-300 hover:text-white hover:bg-white/10">
+        <SkipForward size={16} />
+      </button>
+    </Tooltip>
+
+    <input
+      type="range"
+      min={first}
+      max={Math.max(first, last)}
+      value={iteration}
+      onChange={(e) => onSeek(parseInt(e.target.value))}
+      className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+    />
+    <span className="text-xs font-mono text-gray-400 whitespace-nowrap w-24 text-right">{iteration} / {last}</span>
+
+    <select
+      className="bg-black border border-white/20 rounded-lg px-2 py-1 text-xs"
+      value={speed}
+      onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+    >
+      {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+    </select>
+    <Tooltip content="Jump back to the running simulation.">
+      <button
+        onClick={onGoLive}
+        className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full border transition-colors ${live ? 'border-red-500/50 text-red-400' : 'border-white/20 text-gray-400 hover:text-white'}`}
+      >
+        <Radio size={12} /> Live
+      </button>
+    </Tooltip>
+  </div>
+);
+
+export default TimelineControls;
@@ -1,5 +1,10 @@
-import React, { useRef, useEffect } from 'react';
-import { Landscape, Point } from '../types';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { FieldOverlays, HeatmapStyle, Landscape, LineageNode, Point, SearchDistribution, Vector2, ViewBounds } from '../types';
+import { DEFAULT_FIELD_OVERLAYS, DEFAULT_HEATMAP_STYLE } from '../constants';
+import { bestAgentIndex, drawHeatmap, drawOverlays, drawTrails, fromCanvas, toCanvas } from '../services/render';
+import { createCostScale, evaluateField } from '../services/heatmap';
+import { BASIN_CELL, findBasins } from '../services/terrain';
+import ColorLegend from './ColorLegend';
 
 interface VisualizerProps {
   landscape: Landscape;
@@ -8,106 +13,200 @@ interface VisualizerProps {
   width?: number;
   height?: number;
   showTrails?: boolean;
+  distribution?: SearchDistribution | null; // Evolution strategy sampling region to overlay
+  lineage?: LineageNode[][]; // Genetic generations; the most recent births are drawn as parent -> child edges
+  heatmap?: HeatmapStyle;
+  showLegend?: boolean;
+  overlays?: FieldOverlays; // Descent arrows, local minima and basins of attraction over the heatmap
+  editable?: boolean; // Starting agents can be placed by clicking and moved by dragging
+  onPlaceAgent?: (point: Vector2) => void;
+  onMoveAgent?: (index: number, point: Vector2) => void;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ landscape, agents, trails = [], width = 400, height = 400, showTrails = true }) => {
+// Pointer travel (px) below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+// How close (px) a press must land to an agent to pick it up
+const AGENT_HIT_RADIUS = 8;
+// View range multiplier per wheel notch
+const ZOOM_STEP = 1.2;
+// Deepest zoom, as a fraction of the landscape's own range
+const MIN_ZOOM_FRACTION = 1e-6;
+
+// A press in progress: dragging an agent, or panning the view (which is a click if it never moves far)
+interface Gesture {
+  agentIndex: number | null;
+  startX: number;
+  startY: number;
+  bounds: ViewBounds;
+  moved: boolean;
+}
+
+const Visualizer: React.FC<VisualizerProps> = ({ landscape, agents, trails = [], width = 400, height = 400, showTrails = true, distribution = null, lineage = [], heatmap = DEFAULT_HEATMAP_STYLE, showLegend = true, overlays = DEFAULT_FIELD_OVERLAYS,
+  editable = false, onPlaceAgent, onMoveAgent
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const landscapeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const trailsCanvasRef = useRef<HTMLCanvasElement>(null);
 
-  // Function to map real coordinates to canvas pixels
-  const toCanvas = (x: number, y: number) => {
-    const rangeX = landscape.maxX - landscape.minX;
-    const rangeY = landscape.maxY - landscape.minY;
-    const px = ((x - landscape.minX) / rangeX) * width;
-    const py = height - ((y - landscape.minY) / rangeY) * height; // Invert Y for canvas
-    return { x: px, y: py };
-  };
+  // Zoomed region, remembered against the landscape it was set on so switching landscapes shows the full domain
+  const [zoom, setZoom] = useState<{ landscape: Landscape; bounds: ViewBounds } | null>(null);
+  const view = useMemo(
+    () => (zoom && zoom.landscape === landscape ? { ...landscape, ...zoom.bounds } : landscape),
+    [landscape, zoom]
+  );
+  const zoomed = view !== landscape;
+
+  const [hover, setHover] = useState<Vector2 | null>(null); // Pointer position in pixels
+  const [dragged, setDragged] = useState<{ index: number; point: Vector2 } | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+
+  const toPixel = (x: number, y: number) => toCanvas(view, width, height, x, y);
+  const toDomain = (px: number, py: number) => fromCanvas(view, width, height, px, py);
+
+  // Cost at every pixel: evaluated once per view, then recoloured as the style changes
+  const field = useMemo(() => evaluateField(view, width, height), [view, width, height]);
+  const costScale = useMemo(() => createCostScale(field, heatmap.scale), [field, heatmap.scale]);
+  // Basin search reuses the same field, and only runs while an overlay needs it
+  const needsBasins = overlays.basins || overlays.minima;
+  const basins = useMemo(() => (needsBasins ? findBasins(field, view) : null), [needsBasins, field, view]);
+
+  // Draw Landscape (Heatmap style) - Only redraws when the landscape or its styling changes
+  useEffect(() => {
+    const ctx = landscapeCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    drawHeatmap(ctx, field, costScale, heatmap);
+  }, [field, costScale, heatmap]);
+
+  // Overlay Layer - Redraws when the view or the chosen overlays change
+  useEffect(() => {
+    const ctx = overlayCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    drawOverlays(ctx, view, width, height, overlays, basins);
+  }, [view, width, height, overlays, basins]);
 
-  // Draw Landscape (Heatmap style) - Only redraws when landscape changes
+  // Trails Layer - Redraws when trails change
   useEffect(() => {
-    const canvas = landscapeCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+    const ctx = trailsCanvasRef.current?.getContext('2d');
     if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    drawTrails(ctx, view, width, height, { trails, lineage, distribution, showTrails });
+  }, [trails, view, width, height, showTrails, distribution, lineage]);
 
-    const imgData = ctx.createImageData(width, height);
-    const data = imgData.data;
-    
-    // Find min/max value for normalization estimate
-    let minZ = Infinity;
-    let maxZ = -Infinity;
-    
-    // Coarse pass for scaling
-    for(let cx = 0; cx < width; cx+=20) {
-        for(let cy = 0; cy < height; cy+=20) {
-             const lx = landscape.minX + (cx / width) * (landscape.maxX - landscape.minX);
-             const ly = landscape.minY + ((height - cy) / height) * (landscape.maxY - landscape.minY);
-             const z = landscape.func(lx, ly);
-             if(z < minZ) minZ = z;
-             if(z > maxZ) maxZ = z;
+  // Wheel zoom about the pointer; the listener must be non-passive to keep the page from scrolling
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = viewRef.current;
+      const rect = container.getBoundingClientRect();
+      const anchor = fromCanvas(current, width, height, e.clientX - rect.left, e.clientY - rect.top);
+      const factor = e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      const rangeX = (current.maxX - current.minX) * factor;
+      if (rangeX >= landscape.maxX - landscape.minX) {
+        setZoom(null);
+        return;
+      }
+      if (rangeX < (landscape.maxX - landscape.minX) * MIN_ZOOM_FRACTION) return;
+      setZoom({
+        landscape,
+        bounds: {
+          minX: anchor.x - (anchor.x - current.minX) * factor,
+          maxX: anchor.x + (current.maxX - anchor.x) * factor,
+          minY: anchor.y - (anchor.y - current.minY) * factor,
+          maxY: anchor.y + (current.maxY - anchor.y) * factor
         }
+      });
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [landscape, width, height]);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = pointerPosition(e);
+    const hit = editable && onMoveAgent
+      ? agents.findIndex(a => {
+          const q = toPixel(a.x, a.y);
+          return Math.hypot(q.x - p.x, q.y - p.y) <= AGENT_HIT_RADIUS;
+        })
+      : -1;
+    gestureRef.current = {
+      agentIndex: hit >= 0 ? hit : null,
+      startX: p.x,
+      startY: p.y,
+      bounds: { minX: view.minX, maxX: view.maxX, minY: view.minY, maxY: view.maxY },
+      moved: false
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const p = pointerPosition(e);
+    setHover(p);
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    if (!gesture.moved && Math.hypot(p.x - gesture.startX, p.y - gesture.startY) < CLICK_TOLERANCE) return;
+    gesture.moved = true;
+
+    if (gesture.agentIndex !== null) {
+      setDragged({ index: gesture.agentIndex, point: toDomain(p.x, p.y) });
+      return;
     }
-    if (minZ === Infinity) minZ = 0;
-    if (maxZ === -Infinity) maxZ = 100;
-    if (maxZ === minZ) maxZ = minZ + 1;
-
-    // Draw pixels
-    for (let py = 0; py < height; py++) {
-      for (let px = 0; px < width; px++) {
-        const lx = landscape.minX + (px / width) * (landscape.maxX - landscape.minX);
-        const ly = landscape.minY + ((height - py) / height) * (landscape.maxY - landscape.minY);
-        
-        const z = landscape.func(lx, ly);
-        
-        // Normalize Z 0..1
-        const t = Math.max(0, Math.min(1, (z - minZ) / (maxZ - minZ)));
-        
-        // OLED Style: Deep Black to White with Blue tint
-        const intensity = Math.floor(t * 255);
-        
-        const index = (py * width + px) * 4;
-        data[index] = intensity * 0.2;     // R
-        data[index + 1] = intensity * 0.2; // G
-        data[index + 2] = intensity * 0.5 + 20; // B
-        data[index + 3] = 255;             // Alpha
-      }
+    // Pan: the domain point under the pointer stays under it
+    const { bounds } = gesture;
+    const dx = ((p.x - gesture.startX) / width) * (bounds.maxX - bounds.minX);
+    const dy = ((p.y - gesture.startY) / height) * (bounds.maxY - bounds.minY);
+    setZoom({ landscape, bounds: { minX: bounds.minX - dx, maxX: bounds.maxX - dx, minY: bounds.minY + dy, maxY: bounds.maxY + dy } });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture) return;
+    const p = pointerPosition(e);
+    if (gesture.agentIndex !== null) {
+      if (gesture.moved) onMoveAgent?.(gesture.agentIndex, toDomain(p.x, p.y));
+      setDragged(null);
+    } else if (!gesture.moved && editable) {
+      onPlaceAgent?.(toDomain(p.x, p.y));
     }
-    
-    ctx.putImageData(imgData, 0, 0);
+  };
 
-  }, [landscape, width, height]);
+  // An agent being dragged is shown where it would start
+  const shownAgents = dragged
+    ? agents.map((a, i) => (i === dragged.index ? { ...a, ...dragged.point, value: landscape.func(dragged.point.x, dragged.point.y) } : a))
+    : agents;
 
-  // Trails Layer - Redraws when trails change
-  useEffect(() => {
-      const canvas = trailsCanvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      ctx.clearRect(0, 0, width, height);
-
-      if (showTrails && trails.length > 0) {
-        ctx.lineWidth = 1;
-        trails.forEach((trail) => {
-            if(trail.length < 2) return;
-            ctx.beginPath();
-            // Gradient trail or simple fade
-            ctx.strokeStyle = `rgba(255, 255, 255, 0.3)`; 
-            
-            const start = toCanvas(trail[0].x, trail[0].y);
-            ctx.moveTo(start.x, start.y);
-            
-            for(let j=1; j<trail.length; j++) {
-                const p = toCanvas(trail[j].x, trail[j].y);
-                ctx.lineTo(p.x, p.y);
-            }
-            ctx.stroke();
-        });
-      }
-  }, [trails, landscape, width, height, showTrails]);
+  // Highlight the lowest-cost agent (population order is not always sorted)
+  const bestIndex = bestAgentIndex(shownAgents);
+
+  const probe = hover && !dragged ? toDomain(hover.x, hover.y) : null;
+  // Basin under the pointer, numbered from 1 in the order the search found the minima
+  const probeBasin = probe && basins && overlays.basins
+    ? basins.labels[Math.min(basins.rows - 1, Math.floor(hover.y / BASIN_CELL)) * basins.columns + Math.min(basins.columns - 1, Math.floor(hover.x / BASIN_CELL))]
+    : null;
 
   return (
-    <div className="relative border border-white/10 rounded-xl overflow-hidden shadow-2xl shadow-blue-900/10" style={{ width, height }}>
+    <div
+      ref={containerRef}
+      className={`relative border border-white/10 rounded-xl overflow-hidden shadow-2xl shadow-blue-900/10 touch-none ${dragged ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+      style={{ width, height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { gestureRef.current = null; setDragged(null); }}
+      onPointerLeave={() => setHover(null)}
+    >
        {/* Background Layer: Landscape Heatmap */}
        <canvas 
          ref={landscapeCanvasRef} 
@@ -116,6 +215,14 @@ const Visualizer: React.FC<VisualizerProps> = ({ landscape, agents, trails = [],
          className="absolute top-0 left-0 z-0"
        />
        
+       {/* Analysis Layer: Basins, Descent Arrows, Local Minima */}
+       <canvas
+         ref={overlayCanvasRef}
+         width={width}
+         height={height}
+         className="absolute top-0 left-0 z-[5] pointer-events-none"
+       />
+
        {/* Middle Layer: Trails */}
        <canvas
          ref={trailsCanvasRef}
@@ -124,10 +231,30 @@ const Visualizer: React.FC<VisualizerProps> = ({ landscape, agents, trails = [],
          className="absolute top-0 left-0 z-10 pointer-events-none"
        />
        
+       {/* Known Optima Layer (under the agents so they stay visible on arrival) */}
+       <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-[15]">
+         {view.optima.map((o, i) => {
+            const pos = toPixel(o.x, o.y);
+            return (
+                <div
+                    key={i}
+                    title={`Global optimum (${o.x.toFixed(4)}, ${o.y.toFixed(4)}), f* = ${landscape.globalMin}`}
+                    className="absolute w-4 h-4 border-2 border-yellow-400 pointer-events-auto"
+                    style={{
+                        left: pos.x,
+                        top: pos.y,
+                        transform: 'translate(-50%, -50%) rotate(45deg)',
+                        boxShadow: '0 0 8px rgba(250,204,21,0.7)'
+                    }}
+                />
+            )
+         })}
+       </div>
+
        {/* Agent Layer (DOM elements for crispness/animations) */}
        <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-20">
-         {agents.map((agent, i) => {
-            const pos = toCanvas(agent.x, agent.y);
+         {shownAgents.map((agent, i) => {
+            const pos = toPixel(agent.x, agent.y);
             return (
                 <div 
                     key={i}
@@ -136,16 +263,54 @@ const Visualizer: React.FC<VisualizerProps> = ({ landscape, agents, trails = [],
                         left: pos.x, 
                         top: pos.y, 
                         transform: 'translate(-50%, -50%)',
-                        backgroundColor: i === 0 && agents.length > 1 ? '#34C759' : '#FFFFFF', // Best agent green
-                        boxShadow: i === 0 && agents.length > 1 ? '0 0 15px #34C759' : '0 0 10px rgba(255,255,255,0.8)'
+                        backgroundColor: i === bestIndex && shownAgents.length > 1 ? '#34C759' : '#FFFFFF', // Best agent green
+                        boxShadow: i === bestIndex && shownAgents.length > 1 ? '0 0 15px #34C759' : '0 0 10px rgba(255,255,255,0.8)'
                     }} 
                 />
             )
          })}
        </div>
        
-       <div className="absolute bottom-2 left-2 text-xs text-white/50 font-mono pointer-events-none z-30">
-          Domain: [{landscape.minX}, {landscape.maxX}] × [{landscape.minY}, {landscape.maxY}]
+       {/* Crosshair probe */}
+       {probe && hover && (
+         <div className="absolute inset-0 pointer-events-none z-[25]">
+           <div className="absolute top-0 h-full w-px bg-white/30" style={{ left: hover.x }} />
+           <div className="absolute left-0 w-full h-px bg-white/30" style={{ top: hover.y }} />
+           <div
+             className="absolute text-[10px] font-mono text-white bg-black/70 rounded px-1.5 py-0.5 whitespace-nowrap"
+             style={{
+               left: hover.x + 10,
+               top: hover.y + 10,
+               transform: `translate(${hover.x > width - 260 ? 'calc(-100% - 20px)' : '0'}, ${hover.y > height - 40 ? 'calc(-100% - 20px)' : '0'})`
+             }}
+           >
+             x {probe.x.toFixed(3)}, y {probe.y.toFixed(3)}, f {landscape.func(probe.x, probe.y).toFixed(4)}
+             {probeBasin !== null && ` · basin ${probeBasin + 1} of ${basins.minima.length}`}
+           </div>
+         </div>
+       )}
+
+       {showLegend && (
+         <div className="absolute bottom-2 right-2 pointer-events-none z-30">
+           <ColorLegend colormap={heatmap.colormap} scale={costScale} />
+         </div>
+       )}
+
+       <div className="absolute bottom-2 left-2 flex items-center gap-2 text-xs text-white/50 font-mono z-30">
+          {zoomed ? (
+            <>
+              <span className="pointer-events-none">View: [{view.minX.toPrecision(3)}, {view.maxX.toPrecision(3)}] × [{view.minY.toPrecision(3)}, {view.maxY.toPrecision(3)}]</span>
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => setZoom(null)}
+                className="px-2 py-0.5 rounded-full border border-white/20 bg-black/50 text-white/70 hover:text-white"
+              >
+                Reset zoom
+              </button>
+            </>
+          ) : (
+            <span className="pointer-events-none">Domain: [{Number(landscape.minX.toPrecision(4))}, {Number(landscape.maxX.toPrecision(4))}] × [{Number(landscape.minY.toPrecision(4))}, {Number(landscape.maxY.toPrecision(4))}]</span>
+          )}
        </div>
     </div>
   );
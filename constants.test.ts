@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { LANDSCAPES } from './constants';
+
+describe('benchmark landscapes', () => {
+  it.each(LANDSCAPES.map(l => [l.name, l] as const))('%s attains its known minimum at every listed optimum', (_, landscape) => {
+    expect(landscape.optima.length).toBeGreaterThan(0);
+    landscape.optima.forEach(o => {
+      expect(o.x).toBeGreaterThanOrEqual(landscape.minX);
+      expect(o.x).toBeLessThanOrEqual(landscape.maxX);
+      expect(o.y).toBeGreaterThanOrEqual(landscape.minY);
+      expect(o.y).toBeLessThanOrEqual(landscape.maxY);
+      expect(landscape.func(o.x, o.y)).toBeCloseTo(landscape.globalMin, 4);
+    });
+  });
+
+  it.each(LANDSCAPES.map(l => [l.name, l] as const))('%s has nothing below its known minimum on a coarse grid', (_, landscape) => {
+    const steps = 200;
+    let lowest = Infinity;
+    for (let i = 0; i <= steps; i++) {
+      for (let j = 0; j <= steps; j++) {
+        const x = landscape.minX + (landscape.maxX - landscape.minX) * i / steps;
+        const y = landscape.minY + (landscape.maxY - landscape.minY) * j / steps;
+        lowest = Math.min(lowest, landscape.func(x, y));
+      }
+    }
+    expect(lowest).toBeGreaterThanOrEqual(landscape.globalMin - 1e-6);
+  });
+});
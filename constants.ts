@@ -1,4 +1,4 @@
-import { AlgorithmType, Landscape, LearningModule } from './types';
+import { AlgorithmType, ChartAxis, Colormap, ColorScale, CoolingSchedule, CrossoverMethod, FieldOverlays, HeatmapStyle, Landscape, LearningModule, MutationMethod, ProjectionMode, SelectionMethod, StopReason } from './types';
 
 export const COGNITIVE_SESSION = {
   "session_id": "d3c2f00c-2369-4b01-b4b1-cc78f08fb38c",
@@ -31,7 +31,9 @@ export const LANDSCAPES: Landscape[] = [
     description: "A simple convex function. Easy for any algorithm to find the bottom.",
     func: (x, y) => x * x + y * y,
     minX: -5, maxX: 5, minY: -5, maxY: 5,
-    globalMin: 0
+    globalMin: 0,
+    optima: [{ x: 0, y: 0 }],
+    scalable: { evaluate: (v) => v.reduce((s, x) => s + x * x, 0), optimum: 0 }
   },
   {
     name: "Rastrigin Function",
@@ -41,7 +43,9 @@ export const LANDSCAPES: Landscape[] = [
       return A * 2 + (x * x - A * Math.cos(2 * Math.PI * x)) + (y * y - A * Math.cos(2 * Math.PI * y));
     },
     minX: -5.12, maxX: 5.12, minY: -5.12, maxY: 5.12,
-    globalMin: 0
+    globalMin: 0,
+    optima: [{ x: 0, y: 0 }],
+    scalable: { evaluate: (v) => 10 * v.length + v.reduce((s, x) => s + x * x - 10 * Math.cos(2 * Math.PI * x), 0), optimum: 0 }
   },
   {
     name: "Ackley Function",
@@ -50,7 +54,13 @@ export const LANDSCAPES: Landscape[] = [
       return -20 * Math.exp(-0.2 * Math.sqrt(0.5 * (x * x + y * y))) - Math.exp(0.5 * (Math.cos(2 * Math.PI * x) + Math.cos(2 * Math.PI * y))) + Math.E + 20;
     },
     minX: -5, maxX: 5, minY: -5, maxY: 5,
-    globalMin: 0
+    globalMin: 0,
+    optima: [{ x: 0, y: 0 }],
+    scalable: {
+      evaluate: (v) => -20 * Math.exp(-0.2 * Math.sqrt(v.reduce((s, x) => s + x * x, 0) / v.length))
+        - Math.exp(v.reduce((s, x) => s + Math.cos(2 * Math.PI * x), 0) / v.length) + Math.E + 20,
+      optimum: 0
+    }
   },
   {
     name: "Cognitive Sandbox",
@@ -63,7 +73,133 @@ export const LANDSCAPES: Landscape[] = [
       return (complexBase + anomalies) / 10 + 200; // Scaled for visualizer
     },
     minX: -500, maxX: 500, minY: -500, maxY: 500,
-    globalMin: 0
+    // The +200 offset and the anomaly term move the Schwefel optimum; found by a 0.1-step grid scan plus local refinement
+    globalMin: 195.001211,
+    optima: [{ x: 420.659319, y: 420.973415 }]
+  },
+  {
+    name: "Rosenbrock",
+    description: "A long, curved, flat-bottomed valley. Finding the valley is easy; following it to the end is not.",
+    func: (x, y) => (1 - x) * (1 - x) + 100 * (y - x * x) * (y - x * x),
+    minX: -2, maxX: 2, minY: -1, maxY: 3,
+    globalMin: 0,
+    optima: [{ x: 1, y: 1 }],
+    scalable: {
+      evaluate: (v) => v.slice(1).reduce((s, x, i) => s + (1 - v[i]) ** 2 + 100 * (x - v[i] * v[i]) ** 2, 0),
+      optimum: 1,
+      // Every later coordinate sits near the square of the one before, so they all take y's range
+      bounds: (k) => (k === 0 ? [-2, 2] : [-1, 3])
+    }
+  },
+  {
+    name: "Himmelblau",
+    description: "Four equally deep minima. Which one you find depends entirely on where you start.",
+    func: (x, y) => (x * x + y - 11) ** 2 + (x + y * y - 7) ** 2,
+    minX: -5, maxX: 5, minY: -5, maxY: 5,
+    globalMin: 0,
+    optima: [
+      { x: 3, y: 2 },
+      { x: -2.805118, y: 3.131312 },
+      { x: -3.779310, y: -3.283186 },
+      { x: 3.584428, y: -1.848126 }
+    ]
+  },
+  {
+    name: "Beale",
+    description: "Sharp ridges along the corners of the domain and a flat, narrow basin near the optimum.",
+    func: (x, y) => (1.5 - x + x * y) ** 2 + (2.25 - x + x * y * y) ** 2 + (2.625 - x + x * y * y * y) ** 2,
+    minX: -4.5, maxX: 4.5, minY: -4.5, maxY: 4.5,
+    globalMin: 0,
+    optima: [{ x: 3, y: 0.5 }]
+  },
+  {
+    name: "Booth",
+    description: "A tilted quadratic bowl. Convex, but the valley runs diagonally to the axes.",
+    func: (x, y) => (x + 2 * y - 7) ** 2 + (2 * x + y - 5) ** 2,
+    minX: -10, maxX: 10, minY: -10, maxY: 10,
+    globalMin: 0,
+    optima: [{ x: 1, y: 3 }]
+  },
+  {
+    name: "Eggholder",
+    description: "Deeply rugged with the global minimum pinned against the edge of the domain.",
+    func: (x, y) => -(y + 47) * Math.sin(Math.sqrt(Math.abs(x / 2 + (y + 47)))) - x * Math.sin(Math.sqrt(Math.abs(x - (y + 47)))),
+    minX: -512, maxX: 512, minY: -512, maxY: 512,
+    globalMin: -959.640663,
+    optima: [{ x: 512, y: 404.231805 }]
+  },
+  {
+    name: "Levy",
+    description: "Rippled terrain over a gentle bowl, with many shallow local minima.",
+    func: (x, y) => {
+      const w1 = 1 + (x - 1) / 4;
+      const w2 = 1 + (y - 1) / 4;
+      return Math.sin(Math.PI * w1) ** 2
+        + (w1 - 1) ** 2 * (1 + 10 * Math.sin(Math.PI * w1 + 1) ** 2)
+        + (w2 - 1) ** 2 * (1 + Math.sin(2 * Math.PI * w2) ** 2);
+    },
+    minX: -10, maxX: 10, minY: -10, maxY: 10,
+    globalMin: 0,
+    optima: [{ x: 1, y: 1 }],
+    scalable: {
+      evaluate: (v) => {
+        const w = v.map(x => 1 + (x - 1) / 4);
+        const last = w[w.length - 1];
+        return Math.sin(Math.PI * w[0]) ** 2
+          + w.slice(0, -1).reduce((s, wi) => s + (wi - 1) ** 2 * (1 + 10 * Math.sin(Math.PI * wi + 1) ** 2), 0)
+          + (last - 1) ** 2 * (1 + Math.sin(2 * Math.PI * last) ** 2);
+      },
+      optimum: 1
+    }
+  },
+  {
+    name: "Michalewicz",
+    description: "Steep, narrow valleys on a flat plateau (m = 10). Almost no gradient information away from the valleys.",
+    func: (x, y) => -(Math.sin(x) * Math.sin(x * x / Math.PI) ** 20 + Math.sin(y) * Math.sin(2 * y * y / Math.PI) ** 20),
+    minX: 0, maxX: Math.PI, minY: 0, maxY: Math.PI,
+    globalMin: -1.8013034,
+    optima: [{ x: 2.202906, y: 1.570796 }]
+  },
+  {
+    name: "Styblinski-Tang",
+    description: "Four basins of different depth. The deepest lies in one corner; the others are decoys.",
+    func: (x, y) => 0.5 * (x ** 4 - 16 * x * x + 5 * x + y ** 4 - 16 * y * y + 5 * y),
+    minX: -5, maxX: 5, minY: -5, maxY: 5,
+    globalMin: -78.3323314,
+    optima: [{ x: -2.903534, y: -2.903534 }],
+    scalable: { evaluate: (v) => 0.5 * v.reduce((s, x) => s + x ** 4 - 16 * x * x + 5 * x, 0), optimum: -2.903534 }
+  },
+  {
+    name: "Schwefel",
+    description: "The best basin is far from the second best, so converging on a good-looking region is a trap.",
+    func: (x, y) => 418.9829 * 2 - (x * Math.sin(Math.sqrt(Math.abs(x))) + y * Math.sin(Math.sqrt(Math.abs(y)))),
+    minX: -500, maxX: 500, minY: -500, maxY: 500,
+    globalMin: 0.0000254551, // The usual 418.9829 constant is rounded, so the floor sits just above zero
+    optima: [{ x: 420.968746, y: 420.968746 }],
+    scalable: { evaluate: (v) => 418.9829 * v.length - v.reduce((s, x) => s + x * Math.sin(Math.sqrt(Math.abs(x))), 0), optimum: 420.968746 }
+  },
+  {
+    name: "Griewank",
+    description: "A wide bowl covered in regularly spaced dimples. Shown zoomed in to [-10, 10] so the dimples are visible.",
+    func: (x, y) => 1 + (x * x + y * y) / 4000 - Math.cos(x) * Math.cos(y / Math.SQRT2),
+    minX: -10, maxX: 10, minY: -10, maxY: 10,
+    globalMin: 0,
+    optima: [{ x: 0, y: 0 }],
+    scalable: {
+      evaluate: (v) => 1 + v.reduce((s, x) => s + x * x, 0) / 4000 - v.reduce((p, x, i) => p * Math.cos(x / Math.sqrt(i + 1)), 1),
+      optimum: 0
+    }
+  },
+  {
+    name: "Six-Hump Camel",
+    description: "Six local minima, two of them global and mirror images of each other.",
+    func: (x, y) => (4 - 2.1 * x * x + x ** 4 / 3) * x * x + x * y + (-4 + 4 * y * y) * y * y,
+    minX: -3, maxX: 3, minY: -2, maxY: 2,
+    globalMin: -1.0316285,
+    optima: [
+      { x: 0.089842, y: -0.712656 },
+      { x: -0.089842, y: 0.712656 }
+    ]
   }
 ];
 
@@ -72,45 +208,254 @@ export const LEARNING_MODULES: LearningModule[] = [
     id: 'fundamentals',
     title: 'The Landscape of Loss',
     description: 'Understand the core goal: finding the lowest point in a complex terrain.',
-    concept: 'Optimization acts like a ball rolling down a hill. The "Cost Function" is the terrain. Your goal is to reach the absolute bottom (Global Minimum) efficiently.',
-    difficulty: 'Beginner'
+    concept: 'Optimization acts like a ball rolling down a hill. The "Cost Function" is the terrain. Your goal is to reach the absolute bottom (Global Minimum) efficiently. Switch to the 3D view to watch the agents roll over the terrain itself.',
+    difficulty: 'Beginner',
+    algorithm: AlgorithmType.GRADIENT_DESCENT
   },
   {
     id: 'greedy',
     title: 'Greedy & Hill Climbing',
     description: 'Always taking the step that looks best right now.',
-    concept: 'Imagine climbing a mountain in fog. You only step up. This works for simple hills but gets you stuck on false peaks (Local Optima) in complex terrain.',
-    difficulty: 'Beginner'
+    concept: 'Imagine climbing a mountain in fog. You only step up. This works for simple hills but gets you stuck on false peaks (Local Optima) in complex terrain. Switch on the Basins and Local minima overlays: every coloured patch is the set of starts that end in the same trap, and a cyan ring marks each trap.',
+    difficulty: 'Beginner',
+    algorithm: AlgorithmType.HILL_CLIMBING
   },
   {
     id: 'annealing',
     title: 'Simulated Annealing',
     description: 'Accepting bad moves to escape traps.',
-    concept: 'Inspired by metallurgy. Sometimes you must go UPHILL (take a worse solution) to escape a local trap. As the system "cools", you stop taking risks and settle.',
-    difficulty: 'Intermediate'
+    concept: 'Inspired by metallurgy. Sometimes you must go UPHILL (take a worse solution) to escape a local trap. As the system "cools", you stop taking risks and settle. How fast it cools is the cooling schedule: pick one below and watch the temperature fall beside the cost curve.',
+    difficulty: 'Intermediate',
+    algorithm: AlgorithmType.SIMULATED_ANNEALING
   },
   {
     id: 'genetic',
     title: 'Genetic Evolution',
     description: 'Survival of the fittest solutions.',
     concept: 'Maintain a population of solutions. Mix them (crossover) and randomly change them (mutation). The best solutions survive to the next generation.',
-    difficulty: 'Advanced'
+    difficulty: 'Advanced',
+    algorithm: AlgorithmType.GENETIC
+  },
+  {
+    id: 'gradient-descent',
+    title: 'Gradient Descent',
+    description: 'Measure the slope, step straight downhill.',
+    concept: 'The gradient points uphill, so step the opposite way, scaled by the learning rate. Too small and the ball crawls; too large and it overshoots the valley and bounces around.',
+    difficulty: 'Beginner',
+    algorithm: AlgorithmType.GRADIENT_DESCENT
+  },
+  {
+    id: 'momentum',
+    title: 'Momentum',
+    description: 'A heavy ball that remembers where it was going.',
+    concept: 'Velocity accumulates past gradients, so the ball speeds up on long slopes and rolls through small bumps. It can also overshoot and oscillate before settling.',
+    difficulty: 'Intermediate',
+    algorithm: AlgorithmType.MOMENTUM
+  },
+  {
+    id: 'nesterov',
+    title: 'Nesterov Accelerated Gradient',
+    description: 'Look before you leap.',
+    concept: 'Instead of measuring the slope where the ball is, measure it where momentum is about to carry it. This early correction brakes before the ball overshoots.',
+    difficulty: 'Intermediate',
+    algorithm: AlgorithmType.NESTEROV
+  },
+  {
+    id: 'rmsprop',
+    title: 'RMSProp',
+    description: 'Different step sizes for different directions.',
+    concept: 'Each coordinate is divided by a running average of its squared gradients. Steep, noisy directions get damped; flat directions get amplified.',
+    difficulty: 'Advanced',
+    algorithm: AlgorithmType.RMSPROP
+  },
+  {
+    id: 'adam',
+    title: 'Adam',
+    description: 'Momentum and adaptive scaling together.',
+    concept: 'Adam keeps a momentum-like average of the gradient and an RMSProp-like average of its square, with bias correction for the first steps. Its step size is roughly the learning rate regardless of how steep the terrain is.',
+    difficulty: 'Advanced',
+    algorithm: AlgorithmType.ADAM
+  },
+  {
+    id: 'pso',
+    title: 'Particle Swarm',
+    description: 'A flock that shares what it finds.',
+    concept: 'Each particle flies with momentum, pulled toward the best spot it has personally seen and the best spot the whole swarm has seen. Balancing the two pulls trades exploration against fast consensus.',
+    difficulty: 'Intermediate',
+    algorithm: AlgorithmType.PARTICLE_SWARM
+  },
+  {
+    id: 'differential-evolution',
+    title: 'Differential Evolution',
+    description: 'Let the population decide how far to jump.',
+    concept: 'New candidates are built by adding the scaled difference of two members to a third. While the population is spread out, jumps are big; as it converges, jumps shrink automatically.',
+    difficulty: 'Advanced',
+    algorithm: AlgorithmType.DIFFERENTIAL_EVOLUTION
+  },
+  {
+    id: 'one-plus-one-es',
+    title: '(1+1) Evolution Strategy',
+    description: 'Learn your own step size from your success rate.',
+    concept: 'Mutate, keep the child only if it is better. If more than 1 in 5 mutations succeed, the steps are too timid, so grow them; if fewer succeed, shrink them. Watch the circle breathe as the agent closes in.',
+    difficulty: 'Intermediate',
+    algorithm: AlgorithmType.ONE_PLUS_ONE_ES
+  },
+  {
+    id: 'cma-es',
+    title: 'CMA-ES',
+    description: 'A search cloud that learns the shape of the valley.',
+    concept: 'Sample a population from a Gaussian, move its centre toward the best samples, and stretch and rotate its covariance along directions that paid off. In a narrow curved valley the ellipse aligns with the valley floor and shrinks onto the minimum.',
+    difficulty: 'Advanced',
+    algorithm: AlgorithmType.CMA_ES
   }
 ];
 
+// Algorithms that evolve a whole population rather than a single agent
+export const POPULATION_ALGORITHMS = [
+  AlgorithmType.GENETIC,
+  AlgorithmType.PARTICLE_SWARM,
+  AlgorithmType.DIFFERENTIAL_EVOLUTION,
+  AlgorithmType.CMA_ES
+];
+
 export const INITIAL_CONFIG = {
   algo: AlgorithmType.HILL_CLIMBING,
   learningRate: 0.1,
   maxIterations: 100,
   temperature: 100,
   populationSize: 20,
-  mutationRate: 0.1
+  mutationRate: 0.1,
+  momentum: 0.9,
+  rmsDecay: 0.9,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+  inertia: 0.7,
+  cognitive: 1.5,
+  social: 1.5,
+  differentialWeight: 0.8,
+  crossoverRate: 0.9,
+  coolingSchedule: 'inverse' as CoolingSchedule,
+  coolingAlpha: 0.95,
+  coolingBeta: 0.01,
+  targetAcceptance: 0.4,
+  reheatWindow: 0,
+  selection: 'truncation' as SelectionMethod,
+  tournamentSize: 3,
+  crossover: 'midpoint' as CrossoverMethod,
+  blxAlpha: 0.5,
+  sbxEta: 15,
+  mutation: 'uniform' as MutationMethod,
+  mutationEta: 20,
+  eliteFraction: 0.2,
+  seed: 1337,
+  tolerance: 0.1,
+  stopOnTolerance: false,
+  stagnationWindow: 0,
+  diversityThreshold: 0,
+  evaluationBudget: 0
+};
+
+export const COOLING_SCHEDULE_LABELS: Record<CoolingSchedule, string> = {
+  'inverse': 'Inverse (classic)',
+  'linear': 'Linear',
+  'exponential': 'Exponential (geometric)',
+  'logarithmic': 'Logarithmic',
+  'lundy-mees': 'Lundy–Mees',
+  'adaptive': 'Adaptive (target acceptance)'
+};
+
+export const SELECTION_LABELS: Record<SelectionMethod, string> = {
+  'truncation': 'Truncation (better half)',
+  'tournament': 'Tournament',
+  'roulette': 'Roulette wheel',
+  'rank': 'Rank'
+};
+
+export const CROSSOVER_LABELS: Record<CrossoverMethod, string> = {
+  'midpoint': 'Midpoint',
+  'arithmetic': 'Arithmetic (random blend)',
+  'blx-alpha': 'BLX-α',
+  'sbx': 'SBX (simulated binary)'
+};
+
+export const MUTATION_LABELS: Record<MutationMethod, string> = {
+  'uniform': 'Uniform (both genes)',
+  'gaussian': 'Gaussian (per gene)',
+  'polynomial': 'Polynomial (per gene)'
+};
+
+export const CHART_AXIS_LABELS: Record<ChartAxis, string> = {
+  iteration: 'Iterations',
+  evaluations: 'Evaluations',
+  elapsedMs: 'Time (ms)'
+};
+
+export const COLORMAP_LABELS: Record<Colormap, string> = {
+  'ocean': 'Ocean (classic)',
+  'viridis': 'Viridis',
+  'magma': 'Magma',
+  'diverging': 'Diverging (blue–red)'
+};
+
+export const COLOR_SCALE_LABELS: Record<ColorScale, string> = {
+  'linear': 'Linear',
+  'log': 'Log',
+  'quantile': 'Quantile (equal area)'
+};
+
+export const DEFAULT_HEATMAP_STYLE: HeatmapStyle = { colormap: 'ocean', scale: 'linear', contours: 0 };
+
+export const FIELD_OVERLAY_LABELS: Record<keyof FieldOverlays, string> = {
+  'gradient': 'Descent arrows',
+  'minima': 'Local minima',
+  'basins': 'Basins'
+};
+
+export const DEFAULT_FIELD_OVERLAYS: FieldOverlays = { gradient: false, minima: false, basins: false };
+
+export const PROJECTION_MODE_LABELS: Record<ProjectionMode, string> = {
+  'slice': 'Axis slice',
+  'pca': 'PCA plane'
+};
+
+export const STOP_REASON_LABELS: Record<StopReason, string> = {
+  'max-iterations': 'Reached max iterations',
+  'tolerance': 'Within tolerance of the optimum',
+  'stagnation': 'Stagnated (no new best)',
+  'diversity': 'Population collapsed',
+  'budget': 'Evaluation budget spent'
 };
 
 export const RESEARCH_OPTIONS = {
     learningRates: [0.01, 0.05, 0.1, 0.5, 1.0],
+    benchmarkSeeds: [10, 20, 30, 50],
+    stagnationWindows: [0, 10, 25, 50, 100],
+    diversityThresholds: [0, 0.001, 0.01, 0.05],
+    evaluationBudgets: [0, 500, 1000, 5000, 20000],
     temperatures: [10, 50, 100, 500, 1000],
+    coolingAlphas: [0.8, 0.9, 0.95, 0.99],
+    coolingBetas: [0.0001, 0.001, 0.01, 0.1],
+    targetAcceptances: [0.1, 0.2, 0.4, 0.6],
+    reheatWindows: [0, 10, 25, 50],
+    tournamentSizes: [2, 3, 5, 7],
+    blxAlphas: [0, 0.25, 0.5, 1],
+    sbxEtas: [2, 5, 15, 30],
+    mutationEtas: [5, 20, 50],
+    eliteFractions: [0, 0.05, 0.1, 0.2, 0.5],
+    contourLevels: [0, 5, 10, 15, 20, 30],
     populationSizes: [10, 20, 50, 100],
+    dimensions: [2, 3, 5, 10, 20, 50],
     mutationRates: [0.01, 0.05, 0.1, 0.2, 0.5],
-    maxIterations: [50, 100, 200, 500]
+    maxIterations: [50, 100, 200, 500],
+    momentums: [0.5, 0.9, 0.99],
+    rmsDecays: [0.9, 0.99, 0.999],
+    beta1s: [0.8, 0.9, 0.95],
+    beta2s: [0.99, 0.999],
+    inertias: [0.4, 0.7, 0.9],
+    accelerations: [0.5, 1.5, 2.0], // PSO cognitive / social coefficients
+    differentialWeights: [0.4, 0.6, 0.8, 1.0],
+    crossoverRates: [0.1, 0.5, 0.9],
+    sweepSeeds: [1, 3, 5, 10],
+    tolerances: [0.01, 0.1, 1]
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { CustomLandscapeDefinition, Landscape } from '../types';
+import { compileExpression } from './expression';
+
+export type LandscapeValidation =
+  | { field: 'name' | 'bounds' | 'globalMin' | 'optima'; error: string }
+  | { field: 'expression'; error: string; position: number };
+
+// Returns the first problem with a definition, or null if it can be built
+export const validateLandscape = (def: CustomLandscapeDefinition, reservedNames: string[]): LandscapeValidation | null => {
+  const compiled = compileExpression(def.expression);
+  if (compiled.ok === false) return { field: 'expression', error: compiled.error, position: compiled.position };
+  if (!def.name.trim()) return { field: 'name', error: 'Give the landscape a name' };
+  if (reservedNames.includes(def.name.trim())) return { field: 'name', error: 'That name belongs to a built-in landscape' };
+  if (![def.minX, def.maxX, def.minY, def.maxY].every(Number.isFinite)) return { field: 'bounds', error: 'Bounds must be numbers' };
+  if (def.minX >= def.maxX || def.minY >= def.maxY) return { field: 'bounds', error: 'Each minimum must be below its maximum' };
+  if (!Number.isFinite(def.globalMin)) return { field: 'globalMin', error: 'Known minimum must be a number' };
+  if (def.optima?.some(o => o.x < def.minX || o.x > def.maxX || o.y < def.minY || o.y > def.maxY)) {
+    return { field: 'optima', error: 'Optimum location must lie inside the bounds' };
+  }
+  return null;
+};
+
+export const buildLandscape = (def: CustomLandscapeDefinition): Landscape | null => {
+  const compiled = compileExpression(def.expression);
+  if (compiled.ok === false) return null;
+  return {
+    name: def.name,
+    description: def.description || `f(x, y) = ${def.expression}`,
+    func: compiled.func,
+    minX: def.minX, maxX: def.maxX, minY: def.minY, maxY: def.maxY,
+    globalMin: def.globalMin,
+    optima: def.optima || []
+  };
+};
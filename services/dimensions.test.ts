@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { LANDSCAPES } from '../constants';
+import { boundsOf, canScale, costAt, liftFromPlane, optimaPositions, pcaPlane, planeLandscape, projectOntoPlane, slicePlane, withDimensions } from './dimensions';
+import { createRng } from './random';
+
+const byName = (name: string) => LANDSCAPES.find(l => l.name === name);
+const dot = (a: number[], b: number[]) => a.reduce((sum, x, k) => sum + x * b[k], 0);
+
+describe('withDimensions', () => {
+  it('evaluates scalable landscapes in n variables with the optimum at f*', () => {
+    const rastrigin = withDimensions(byName('Rastrigin Function'), 10);
+    expect(boundsOf(rastrigin)).toHaveLength(10);
+    expect(costAt(rastrigin, optimaPositions(rastrigin)[0])).toBe(rastrigin.globalMin);
+    expect(costAt(rastrigin, Array(10).fill(1))).toBeGreaterThan(rastrigin.globalMin);
+  });
+
+  it('takes declared per-dimension bounds', () => {
+    expect(boundsOf(withDimensions(byName('Rosenbrock'), 4))).toEqual([[-2, 2], [-1, 3], [-1, 3], [-1, 3]]);
+  });
+
+  it('leaves non-scalable landscapes and two dimensions unchanged', () => {
+    const himmelblau = byName('Himmelblau');
+    expect(canScale(himmelblau)).toBe(false);
+    expect(withDimensions(himmelblau, 10)).toBe(himmelblau);
+    expect(withDimensions(byName('Convex Bowl'), 2)).toBe(byName('Convex Bowl'));
+  });
+});
+
+describe('pcaPlane', () => {
+  it('returns orthonormal axes along the direction of greatest spread', () => {
+    const rng = createRng(5);
+    // Spread mostly along (1, 1, 0, 0, 0), a little along x3
+    const positions = Array.from({ length: 200 }, () => {
+      const t = (rng() - 0.5) * 10;
+      return [t + 3, t, (rng() - 0.5) * 2, 0, 0];
+    });
+    const { origin, u, v } = pcaPlane(positions);
+    expect(dot(u, u)).toBeCloseTo(1, 9);
+    expect(dot(v, v)).toBeCloseTo(1, 9);
+    expect(dot(u, v)).toBeCloseTo(0, 9);
+    expect(Math.abs(dot(u, [Math.SQRT1_2, Math.SQRT1_2, 0, 0, 0]))).toBeCloseTo(1, 3);
+    expect(Math.abs(v[2])).toBeCloseTo(1, 3);
+    expect(origin[0] - origin[1]).toBeCloseTo(3, 9);
+  });
+
+  it('falls back to coordinate axes when the positions have no spread', () => {
+    const { u, v } = pcaPlane([[1, 2, 3]]);
+    expect(dot(u, u)).toBeCloseTo(1, 12);
+    expect(dot(v, v)).toBeCloseTo(1, 12);
+    expect(dot(u, v)).toBeCloseTo(0, 12);
+  });
+});
+
+describe('planes', () => {
+  const bowl = withDimensions(byName('Convex Bowl'), 5);
+
+  it('round-trips view coordinates through a plane', () => {
+    const plane = pcaPlane([[1, 0, 0, 0, 0], [0, 2, 0, 0, 1], [0, 0, 3, 1, 0], [1, 1, 1, 1, 1]]);
+    const lifted = liftFromPlane(plane, 0.7, -1.3);
+    const { x, y } = projectOntoPlane(plane, lifted);
+    expect(x).toBeCloseTo(0.7, 12);
+    expect(y).toBeCloseTo(-1.3, 12);
+  });
+
+  it('shows a slice in the real values of its two coordinates', () => {
+    const view = planeLandscape(bowl, slicePlane([1, 1, 1, 1, 1], [2, 4]));
+    expect([view.minX, view.maxX, view.minY, view.maxY]).toEqual([-5, 5, -5, 5]);
+    expect(view.func(0, 0)).toBe(3); // x2 = x4 = 0, the other three held at 1
+    expect(view.optima).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  it('spans the domain even when the plane is anchored outside it', () => {
+    const plane = { origin: [20, 20, 20, 20, 20], u: [1, 0, 0, 0, 0], v: [0, 0.6, 0.8, 0, 0] };
+    const view = planeLandscape(bowl, plane);
+    const corners = [[view.minX, view.minY], [view.maxX, view.maxY]].map(([a, b]) => liftFromPlane(plane, a, b));
+    expect(view.maxX - view.minX).toBeCloseTo(10, 12);
+    expect(corners[0][0]).toBeCloseTo(-5, 12);
+    expect(corners[1][0]).toBeCloseTo(5, 12);
+  });
+});
@@ -0,0 +1,167 @@
+// n-dimensional search spaces: positions, landscapes that scale past two variables, and the planes that flatten them onto the 2D view.
+import { Landscape, LineageNode, Point, ProjectionPlane, Vector2 } from '../types';
+
+// Power iterations per principal axis
+const PCA_ITERATIONS = 100;
+
+// Helper: Dot product
+const dot = (a: number[], b: number[]) => a.reduce((sum, x, k) => sum + x * b[k], 0);
+
+// Helper: Unit vector along coordinate axis k
+const unitAxis = (n: number, k: number) => Array.from({ length: n }, (_, i) => (i === k ? 1 : 0));
+
+// Helper: Scale a vector to unit length (null if it has none)
+const normalize = (a: number[]): number[] | null => {
+  const length = Math.sqrt(dot(a, a));
+  return length > 1e-12 ? a.map(x => x / length) : null;
+};
+
+export const dimensionsOf = (landscape: Landscape) => landscape.dimensions ?? 2;
+
+// [min, max] per dimension
+export const boundsOf = (landscape: Landscape): [number, number][] =>
+  landscape.bounds ?? [[landscape.minX, landscape.maxX], [landscape.minY, landscape.maxY]];
+
+// Full position of a point or lineage node
+export const positionOf = (p: Point | LineageNode): number[] => p.coords ?? [p.x, p.y];
+
+// Cost at a full position
+export const costAt = (landscape: Landscape, position: number[]) =>
+  landscape.evaluate ? landscape.evaluate(position) : landscape.func(position[0], position[1]);
+
+// Point at a position with a known cost; coords are only stored past two dimensions, so 2D points keep their original shape
+export const toPoint = (position: number[], value: number): Point =>
+  position.length > 2
+    ? { x: position[0], y: position[1], value, coords: position }
+    : { x: position[0], y: position[1], value };
+
+// Point at a position, evaluated on the landscape
+export const pointAt = (landscape: Landscape, position: number[]): Point => toPoint(position, costAt(landscape, position));
+
+// Full positions of the known optima
+export const optimaPositions = (landscape: Landscape): number[][] =>
+  landscape.scalable && dimensionsOf(landscape) > 2
+    ? [Array(dimensionsOf(landscape)).fill(landscape.scalable.optimum)]
+    : landscape.optima.map(o => [o.x, o.y]);
+
+// Whether a landscape runs past two dimensions: it needs an n-dimensional form, and bounds for every coordinate
+// (declared, or the single range x and y share)
+export const canScale = (landscape: Landscape) =>
+  !!landscape.scalable && (!!landscape.scalable.bounds || (landscape.minX === landscape.minY && landscape.maxX === landscape.maxY));
+
+// A scalable landscape in `dimensions` variables. Anything else (or two dimensions) comes back unchanged.
+export const withDimensions = (landscape: Landscape, dimensions = 2): Landscape => {
+  if (dimensions <= 2 || !canScale(landscape)) return landscape;
+  const { evaluate, optimum, bounds = (): [number, number] => [landscape.minX, landscape.maxX] } = landscape.scalable;
+  const rest = Array(dimensions - 2).fill(optimum);
+  return {
+    ...landscape,
+    dimensions,
+    bounds: Array.from({ length: dimensions }, (_, k) => bounds(k)),
+    minX: bounds(0)[0],
+    maxX: bounds(0)[1],
+    minY: bounds(1)[0],
+    maxY: bounds(1)[1],
+    evaluate,
+    // 2D consumers see the slice through the optimum in every other coordinate
+    func: (x, y) => evaluate([x, y, ...rest]),
+    globalMin: evaluate(Array(dimensions).fill(optimum))
+  };
+};
+
+// View coordinates of a position on a plane
+export const projectOntoPlane = (plane: ProjectionPlane, position: number[]): Vector2 => {
+  const offset = position.map((x, k) => x - plane.origin[k]);
+  return { x: dot(offset, plane.u), y: dot(offset, plane.v) };
+};
+
+// Full position at view coordinates (a, b) on a plane
+export const liftFromPlane = (plane: ProjectionPlane, a: number, b: number): number[] =>
+  plane.origin.map((o, k) => o + a * plane.u[k] + b * plane.v[k]);
+
+// Same point with x / y replaced by its view coordinates (coords keep the full position)
+export const projectPoint = <T extends Point | LineageNode>(plane: ProjectionPlane, p: T): T => ({
+  ...p,
+  ...projectOntoPlane(plane, positionOf(p))
+});
+
+// Axis-aligned slice through `anchor`: view coordinates are the two chosen coordinates' real values
+export const slicePlane = (anchor: number[], axes: [number, number]): ProjectionPlane => ({
+  origin: anchor.map((a, k) => (k === axes[0] || k === axes[1] ? 0 : a)),
+  u: unitAxis(anchor.length, axes[0]),
+  v: unitAxis(anchor.length, axes[1])
+});
+
+// Plane through the centroid of some positions along their two directions of greatest spread.
+// Degenerate spreads (one position, or all on a line) fall back to coordinate axes for the missing directions.
+export const pcaPlane = (positions: number[][]): ProjectionPlane => {
+  const n = positions[0].length;
+  const mean = Array.from({ length: n }, (_, k) => positions.reduce((sum, p) => sum + p[k], 0) / positions.length);
+  const centred = positions.map(p => p.map((x, k) => x - mean[k]));
+  // Covariance times a vector, without forming the n x n matrix
+  const apply = (w: number[]) => {
+    const out = Array(n).fill(0);
+    centred.forEach(c => {
+      const s = dot(c, w);
+      c.forEach((x, k) => { out[k] += s * x; });
+    });
+    return out;
+  };
+  const orthogonalTo = (w: number[], axes: number[][]) =>
+    axes.reduce((acc, a) => { const s = dot(acc, a); return acc.map((x, k) => x - s * a[k]); }, w);
+
+  // Power iteration, kept orthogonal to the axes already found
+  const principal = (found: number[][]): number[] => {
+    const fallback = Array.from({ length: n }, (_, k) => normalize(orthogonalTo(unitAxis(n, k), found))).find(Boolean);
+    let w = normalize(orthogonalTo(Array.from({ length: n }, (_, k) => 1 + k / n), found)) ?? fallback;
+    let spread = false;
+    for (let i = 0; i < PCA_ITERATIONS; i++) {
+      const next = normalize(orthogonalTo(apply(w), found));
+      if (!next) break;
+      w = next;
+      spread = true;
+    }
+    if (!spread) w = fallback;
+    // Sign convention: largest component positive, so refits don't flip the view
+    const largest = w.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+    return largest < 0 ? w.map(x => -x) : w;
+  };
+  const u = principal([]);
+  const v = principal([u]);
+  return { origin: mean, u, v };
+};
+
+// Helper: Range of t for which origin + t * direction stays inside the bounds (origin must be inside them)
+const chord = (origin: number[], direction: number[], bounds: [number, number][]): [number, number] => {
+  let lo = -Infinity;
+  let hi = Infinity;
+  direction.forEach((d, k) => {
+    if (Math.abs(d) < 1e-12) return;
+    const a = (bounds[k][0] - origin[k]) / d;
+    const b = (bounds[k][1] - origin[k]) / d;
+    lo = Math.max(lo, Math.min(a, b));
+    hi = Math.min(hi, Math.max(a, b));
+  });
+  return [lo, hi];
+};
+
+// The landscape restricted to a plane, as an ordinary 2D landscape spanning the plane's axes across the domain
+export const planeLandscape = (landscape: Landscape, plane: ProjectionPlane): Landscape => {
+  const bounds = boundsOf(landscape);
+  // Measure the chords from the origin clamped into the domain, so a plane anchored outside it still spans the domain
+  const inside = plane.origin.map((o, k) => Math.min(bounds[k][1], Math.max(bounds[k][0], o)));
+  const offset = projectOntoPlane(plane, inside);
+  const [loX, hiX] = chord(inside, plane.u, bounds);
+  const [loY, hiY] = chord(inside, plane.v, bounds);
+  return {
+    name: landscape.name,
+    description: landscape.description,
+    func: (a, b) => costAt(landscape, liftFromPlane(plane, a, b)),
+    minX: offset.x + loX,
+    maxX: offset.x + hiX,
+    minY: offset.y + loY,
+    maxY: offset.y + hiY,
+    globalMin: landscape.globalMin,
+    optima: optimaPositions(landscape).map(o => projectOntoPlane(plane, o))
+  };
+};
@@ -0,0 +1,238 @@
+// Image and animation exports of the Visualizer and the charts, produced entirely in the browser.
+import { AnimationFormat, FrameScene, HeatmapStyle, ImageFormat, Landscape } from '../types';
+import { LINEAGE_DEPTH, bestAgentIndex, heatmapCanvas, renderFrame, toCanvas } from './render';
+import { generationEdges } from './lineage';
+import { buildPalette, createGifEncoder } from './gif';
+
+// Still images are rendered at this multiple of the on-screen size
+export const IMAGE_SCALE = 3;
+// Longer runs are thinned to this many evenly spaced iterations
+export const MAX_ANIMATION_FRAMES = 300;
+// Playback rate of exported animations
+const ANIMATION_FRAME_MS = 50;
+// WebM is compressed well enough to afford a sharper picture than GIF
+const WEBM_SCALE = 2;
+// Frames sampled across the run to choose the GIF palette
+const GIF_PALETTE_SAMPLES = 8;
+// Backdrop behind exported charts (matches the chart tooltip)
+const CHART_BACKGROUND = '#1C1C1E';
+
+// Save a blob under a file name via a temporary link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000); // Some browsers start the download after click() returns
+};
+
+// Helper: canvas.toBlob as a promise
+const canvasBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type));
+
+// Helper: Yield to the browser so progress can repaint between frames
+const pause = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Helper: Blank canvas of the given pixel size
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Helper: Escape text for inclusion in SVG markup
+const escapeXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// One frame as a high-resolution PNG
+export const framePng = async (landscape: Landscape, style: HeatmapStyle, width: number, height: number, scene: FrameScene): Promise<Blob | null> => {
+  try {
+    const canvas = createCanvas(width * IMAGE_SCALE, height * IMAGE_SCALE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    renderFrame(ctx, heatmapCanvas(landscape, canvas.width, canvas.height, style, IMAGE_SCALE), landscape, width, height, IMAGE_SCALE, scene);
+    return await canvasBlob(canvas, 'image/png');
+  } catch (e) {
+    console.error("Failed to render frame", e);
+    return null;
+  }
+};
+
+// One frame as SVG: the heatmap is embedded as an image, everything drawn over it stays vector
+export const frameSvg = (landscape: Landscape, style: HeatmapStyle, width: number, height: number, scene: FrameScene): Blob => {
+  const at = (x: number, y: number) => toCanvas(landscape, width, height, x, y);
+  const point = (x: number, y: number) => {
+    const p = at(x, y);
+    return `${p.x.toFixed(2)},${p.y.toFixed(2)}`;
+  };
+  const parts: string[] = [];
+
+  const heatmap = heatmapCanvas(landscape, width * IMAGE_SCALE, height * IMAGE_SCALE, style, IMAGE_SCALE).toDataURL('image/png');
+  parts.push(`<image href="${heatmap}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none"/>`);
+
+  if (scene.showTrails) {
+    scene.trails.filter(t => t.length > 1).forEach(trail => {
+      parts.push(`<polyline points="${trail.map(p => point(p.x, p.y)).join(' ')}" fill="none" stroke="#FFFFFF" stroke-opacity="0.3" stroke-width="1"/>`);
+    });
+    if (scene.lineage.length > 1) {
+      for (let age = LINEAGE_DEPTH - 1; age >= 0; age--) {
+        const edges = generationEdges(scene.lineage, scene.lineage.length - 1 - age);
+        if (edges.length === 0) continue;
+        const d = edges.map(({ from, to }) => `M${point(from.x, from.y)}L${point(to.x, to.y)}`).join('');
+        parts.push(`<path d="${d}" stroke="#34C759" stroke-opacity="${(0.6 * (1 - age / LINEAGE_DEPTH)).toFixed(2)}" stroke-width="1"/>`);
+      }
+    }
+  }
+
+  const distribution = scene.distribution;
+  if (distribution) {
+    const c = at(distribution.center.x, distribution.center.y);
+    const sx = width / (landscape.maxX - landscape.minX);
+    const sy = height / (landscape.maxY - landscape.minY);
+    parts.push(
+      `<ellipse rx="${distribution.radii.x}" ry="${distribution.radii.y}" transform="translate(${c.x} ${c.y}) scale(${sx} ${-sy}) rotate(${(distribution.angle * 180) / Math.PI})" ` +
+      `fill="none" stroke="#FF9F0A" stroke-opacity="0.9" stroke-width="1.5" stroke-dasharray="4 3" vector-effect="non-scaling-stroke"/>`,
+      `<circle cx="${c.x}" cy="${c.y}" r="2.5" fill="#FF9F0A" fill-opacity="0.9"/>`
+    );
+  }
+
+  landscape.optima.forEach(o => {
+    const p = at(o.x, o.y);
+    parts.push(`<rect x="-6" y="-6" width="12" height="12" transform="translate(${p.x} ${p.y}) rotate(45)" fill="none" stroke="#FACC15" stroke-width="2"/>`);
+  });
+
+  const bestIndex = bestAgentIndex(scene.agents);
+  scene.agents.forEach((agent, i) => {
+    const p = at(agent.x, agent.y);
+    const fill = i === bestIndex && scene.agents.length > 1 ? '#34C759' : '#FFFFFF';
+    parts.push(`<circle cx="${p.x.toFixed(2)}" cy="${p.y.toFixed(2)}" r="5" fill="${fill}"/>`);
+  });
+
+  const caption = scene.caption ?? [];
+  if (caption.length > 0) {
+    const boxWidth = Math.max(...caption.map(l => l.length)) * 7.2 + 16; // Monospace advance at 12px
+    parts.push(`<rect x="8" y="8" width="${boxWidth}" height="${caption.length * 16 + 8}" fill="#000000" fill-opacity="0.6"/>`);
+    caption.forEach((line, i) => {
+      parts.push(`<text x="16" y="${24 + i * 16}" fill="#FFFFFF" font-family="ui-monospace, SFMono-Regular, Menlo, monospace" font-size="12">${escapeXml(line)}</text>`);
+    });
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${parts.join('')}</svg>`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+// Helper: First WebM flavour this browser can record, or null
+const webmMimeType = () => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t)) ?? null;
+};
+
+// Whether this browser can record WebM from a canvas
+export const canRecordWebm = () => webmMimeType() !== null;
+
+// Animate recorded iterations: GIF is encoded frame by frame, WebM is recorded from a canvas in real time
+export const exportAnimation = async (
+  format: AnimationFormat,
+  landscape: Landscape,
+  style: HeatmapStyle,
+  width: number,
+  height: number,
+  iterations: number[],
+  sceneFor: (iteration: number) => FrameScene | null,
+  onProgress: (fraction: number) => void
+): Promise<Blob | null> => {
+  if (iterations.length === 0) return null;
+  const scale = format === 'webm' ? WEBM_SCALE : 1;
+  const canvas = createCanvas(width * scale, height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: format === 'gif' });
+  if (!ctx) return null;
+  const background = heatmapCanvas(landscape, canvas.width, canvas.height, style, scale);
+
+  // Draw an iteration, reporting whether there was anything to draw
+  const draw = (iteration: number) => {
+    const scene = sceneFor(iteration);
+    if (!scene) return false;
+    renderFrame(ctx, background, landscape, width, height, scale, scene);
+    return true;
+  };
+
+  try {
+    if (format === 'gif') {
+      const samples: Uint8ClampedArray[] = [];
+      const sampleStride = Math.max(1, Math.floor(iterations.length / GIF_PALETTE_SAMPLES));
+      for (let i = 0; i < iterations.length; i += sampleStride) {
+        if (draw(iterations[i])) samples.push(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+      }
+      const encoder = createGifEncoder(canvas.width, canvas.height, buildPalette(samples), ANIMATION_FRAME_MS);
+      for (let i = 0; i < iterations.length; i++) {
+        if (draw(iterations[i])) encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+        onProgress((i + 1) / iterations.length);
+        await pause();
+      }
+      return new Blob([encoder.finish()], { type: 'image/gif' });
+    }
+
+    const mimeType = webmMimeType();
+    if (!mimeType) {
+      console.error("WebM recording is not supported in this browser");
+      return null;
+    }
+    draw(iterations[0]);
+    const recorder = new MediaRecorder(canvas.captureStream(1000 / ANIMATION_FRAME_MS), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+    recorder.start();
+    for (let i = 0; i < iterations.length; i++) {
+      draw(iterations[i]);
+      onProgress((i + 1) / iterations.length);
+      await pause(ANIMATION_FRAME_MS);
+    }
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  } catch (e) {
+    console.error("Failed to export animation", e);
+    return null;
+  }
+};
+
+// A Recharts chart as SVG (its own markup, on a solid backdrop) or as a high-resolution PNG of that SVG
+export const chartImage = async (container: HTMLElement, format: ImageFormat): Promise<Blob | null> => {
+  const surface = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!surface) return null;
+  try {
+    const { width, height } = surface.getBoundingClientRect();
+    const svg = surface.cloneNode(true) as SVGSVGElement;
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    const backdrop = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    backdrop.setAttribute('width', '100%');
+    backdrop.setAttribute('height', '100%');
+    backdrop.setAttribute('fill', CHART_BACKGROUND);
+    svg.insertBefore(backdrop, svg.firstChild);
+    const markup = new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' });
+    if (format === 'svg') return markup;
+
+    const url = URL.createObjectURL(markup);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      const canvas = createCanvas(Math.round(width * IMAGE_SCALE), Math.round(height * IMAGE_SCALE));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      return await canvasBlob(canvas, 'image/png');
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  } catch (e) {
+    console.error("Failed to export chart", e);
+    return null;
+  }
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+
+// Helper: Compile and evaluate, failing the test on a compile error
+const evaluate = (src: string, x = 0, y = 0) => {
+  const compiled = compileExpression(src);
+  if (compiled.ok === false) throw new Error(`${src}: ${compiled.error}`);
+  return compiled.func(x, y);
+};
+
+describe('compileExpression', () => {
+  it('evaluates the standard test functions', () => {
+    expect(evaluate('(1-x)^2 + 100*(y-x^2)^2', 1, 1)).toBe(0);
+    expect(evaluate('(1-x)^2 + 100*(y-x^2)^2', 0, 0)).toBe(1);
+    expect(evaluate('20 + x^2 - 10*cos(2*pi*x) + y^2 - 10*cos(2*pi*y)', 0, 0)).toBeCloseTo(0, 12);
+    expect(evaluate('(x^2 + y - 11)^2 + (x + y^2 - 7)^2', 3, 2)).toBe(0);
+  });
+
+  it('follows operator precedence and associativity', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-x^2', 3)).toBe(-9);
+    expect(evaluate('2^-x', 1)).toBe(0.5);
+    expect(evaluate('2 ** 3')).toBe(8);
+    expect(evaluate('7 % 4')).toBe(3);
+  });
+
+  it('reads numbers, constants and functions', () => {
+    expect(evaluate('1.5e2 + .5')).toBe(150.5);
+    expect(evaluate('e')).toBe(Math.E);
+    expect(evaluate('max(x, y) - min(x, y)', 2, 5)).toBe(3);
+    expect(evaluate('atan2(y, x)', 1, 1)).toBeCloseTo(Math.PI / 4, 12);
+    expect(evaluate('SQRT(X)', 16)).toBe(4);
+  });
+
+  it('reports errors with their position', () => {
+    expect(compileExpression('')).toEqual({ ok: false, error: 'Expression is empty', position: 0 });
+    expect(compileExpression('x + $')).toMatchObject({ ok: false, position: 4 });
+    expect(compileExpression('(x + y')).toMatchObject({ ok: false, position: 6 });
+    expect(compileExpression('x y')).toMatchObject({ ok: false, position: 2 });
+    expect(compileExpression('z + 1')).toMatchObject({ ok: false, position: 0 });
+    expect(compileExpression('foo(x)')).toMatchObject({ ok: false, position: 0 });
+    expect(compileExpression('x + sin(x, y)')).toMatchObject({ ok: false, position: 4 });
+  });
+
+  it('never reaches inherited object keys', () => {
+    expect(compileExpression('constructor(x)').ok).toBe(false);
+    expect(compileExpression('toString').ok).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+// Safe math expression compiler for user-defined landscapes.
+// Parses text like "(1-x)^2 + 100*(y-x^2)^2" into a tree and compiles it to a closure. Never uses eval.
+
+type BinaryOp = '+' | '-' | '*' | '/' | '%' | '^';
+
+type Node =
+  | { kind: 'num'; value: number }
+  | { kind: 'var'; name: 'x' | 'y' }
+  | { kind: 'unary'; op: '-'; arg: Node }
+  | { kind: 'binary'; op: BinaryOp; left: Node; right: Node }
+  | { kind: 'call'; fn: string; args: Node[] };
+
+interface Token {
+  type: 'num' | 'ident' | 'op' | 'lparen' | 'rparen' | 'comma' | 'end';
+  text: string;
+  pos: number;
+}
+
+export type CompileResult =
+  | { ok: true; func: (x: number, y: number) => number }
+  | { ok: false; error: string; position: number }; // position = character offset of the problem
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// name -> [arity, implementation]
+const FUNCTIONS: Record<string, [number, (...args: number[]) => number]> = {
+  sin: [1, Math.sin], cos: [1, Math.cos], tan: [1, Math.tan],
+  asin: [1, Math.asin], acos: [1, Math.acos], atan: [1, Math.atan],
+  sinh: [1, Math.sinh], cosh: [1, Math.cosh], tanh: [1, Math.tanh],
+  exp: [1, Math.exp], log: [1, Math.log], log10: [1, Math.log10], sqrt: [1, Math.sqrt],
+  abs: [1, Math.abs], floor: [1, Math.floor], ceil: [1, Math.ceil], sign: [1, Math.sign],
+  min: [2, Math.min], max: [2, Math.max], pow: [2, Math.pow], atan2: [2, Math.atan2],
+};
+
+const BINARY_OPS: Record<BinaryOp, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': Math.pow,
+};
+
+// Module-private: thrown while parsing, turned into a CompileResult at the boundary
+class ParseFailure {
+  constructor(public message: string, public position: number) {}
+}
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    const num = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(i));
+    if (num) {
+      tokens.push({ type: 'num', text: num[0], pos: i });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', text: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    if (src.startsWith('**', i)) { // Python-style power
+      tokens.push({ type: 'op', text: '^', pos: i });
+      i += 2;
+      continue;
+    }
+    if ('+-*/%^'.includes(ch)) tokens.push({ type: 'op', text: ch, pos: i });
+    else if (ch === '(') tokens.push({ type: 'lparen', text: ch, pos: i });
+    else if (ch === ')') tokens.push({ type: 'rparen', text: ch, pos: i });
+    else if (ch === ',') tokens.push({ type: 'comma', text: ch, pos: i });
+    else throw new ParseFailure(`Unexpected character '${ch}'`, i);
+    i++;
+  }
+  tokens.push({ type: 'end', text: '', pos: src.length });
+  return tokens;
+};
+
+// Recursive descent, lowest precedence first:
+//   expr  := term (('+' | '-') term)*
+//   term  := unary (('*' | '/' | '%') unary)*
+//   unary := '-' unary | '+' unary | power
+//   power := primary ('^' unary)?          (right-associative, so -x^2 = -(x^2) and 2^-x works)
+const parse = (src: string): Node => {
+  const tokens = tokenize(src);
+  let p = 0;
+  const peek = () => tokens[p];
+  const next = () => tokens[p++];
+  const expect = (type: Token['type'], what: string) => {
+    const t = next();
+    if (t.type !== type) throw new ParseFailure(`Expected ${what}${t.type === 'end' ? ' before end of input' : ` but found '${t.text}'`}`, t.pos);
+    return t;
+  };
+
+  const expr = (): Node => {
+    let left = term();
+    while (peek().type === 'op' && (peek().text === '+' || peek().text === '-')) {
+      const op = next().text as '+' | '-';
+      left = { kind: 'binary', op, left, right: term() };
+    }
+    return left;
+  };
+
+  const term = (): Node => {
+    let left = unary();
+    while (peek().type === 'op' && '*/%'.includes(peek().text)) {
+      const op = next().text as '*' | '/' | '%';
+      left = { kind: 'binary', op, left, right: unary() };
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    if (peek().type === 'op' && peek().text === '-') {
+      next();
+      return { kind: 'unary', op: '-', arg: unary() };
+    }
+    if (peek().type === 'op' && peek().text === '+') {
+      next();
+      return unary();
+    }
+    return power();
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    if (peek().type === 'op' && peek().text === '^') {
+      next();
+      return { kind: 'binary', op: '^', left: base, right: unary() };
+    }
+    return base;
+  };
+
+  const primary = (): Node => {
+    const t = next();
+    if (t.type === 'num') return { kind: 'num', value: parseFloat(t.text) };
+    if (t.type === 'lparen') {
+      const inner = expr();
+      expect('rparen', "')'");
+      return inner;
+    }
+    if (t.type === 'ident') {
+      const name = t.text.toLowerCase();
+      if (peek().type === 'lparen') {
+        const fn = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined; // Not inherited keys like 'constructor'
+        if (!fn) throw new ParseFailure(`Unknown function '${t.text}'`, t.pos);
+        next();
+        const args: Node[] = [];
+        if (peek().type !== 'rparen') {
+          args.push(expr());
+          while (peek().type === 'comma') {
+            next();
+            args.push(expr());
+          }
+        }
+        expect('rparen', "')'");
+        if (args.length !== fn[0]) {
+          throw new ParseFailure(`${name}() takes ${fn[0]} argument${fn[0] === 1 ? '' : 's'}, got ${args.length}`, t.pos);
+        }
+        return { kind: 'call', fn: name, args };
+      }
+      if (name === 'x' || name === 'y') return { kind: 'var', name };
+      if (Object.hasOwn(CONSTANTS, name)) return { kind: 'num', value: CONSTANTS[name] };
+      throw new ParseFailure(`Unknown variable '${t.text}' (use x, y, pi or e)`, t.pos);
+    }
+    if (t.type === 'end') throw new ParseFailure('Unexpected end of expression', t.pos);
+    throw new ParseFailure(`Unexpected '${t.text}'`, t.pos);
+  };
+
+  const root = expr();
+  const trailing = peek();
+  if (trailing.type !== 'end') throw new ParseFailure(`Unexpected '${trailing.text}'`, trailing.pos);
+  return root;
+};
+
+// Turn the tree into nested closures once, so evaluation per pixel is just function calls
+const compileNode = (node: Node): ((x: number, y: number) => number) => {
+  switch (node.kind) {
+    case 'num': {
+      const v = node.value;
+      return () => v;
+    }
+    case 'var':
+      return node.name === 'x' ? (x) => x : (_x, y) => y;
+    case 'unary': {
+      const arg = compileNode(node.arg);
+      return (x, y) => -arg(x, y);
+    }
+    case 'binary': {
+      const l = compileNode(node.left);
+      const r = compileNode(node.right);
+      const op = BINARY_OPS[node.op];
+      return (x, y) => op(l(x, y), r(x, y));
+    }
+    case 'call': {
+      const impl = FUNCTIONS[node.fn][1];
+      const args = node.args.map(compileNode);
+      if (args.length === 1) {
+        const [a] = args;
+        return (x, y) => impl(a(x, y));
+      }
+      return (x, y) => impl(...args.map(a => a(x, y)));
+    }
+  }
+};
+
+export const compileExpression = (src: string): CompileResult => {
+  if (!src.trim()) return { ok: false, error: 'Expression is empty', position: 0 };
+  try {
+    return { ok: true, func: compileNode(parse(src)) };
+  } catch (e) {
+    if (e instanceof ParseFailure) return { ok: false, error: e.message, position: e.position };
+    throw e;
+  }
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
-import { AlgorithmType, Landscape } from "../types";
+import { AlgorithmType, Landscape, StopReason } from "../types";
+import { COOLING_SCHEDULE_LABELS, CROSSOVER_LABELS, MUTATION_LABELS, SELECTION_LABELS, STOP_REASON_LABELS } from "../constants";
 
 const initGenAI = () => {
   if (!process.env.API_KEY) {
@@ -16,7 +17,8 @@ export const getGeminiFeedback = async (
   endValue: number,
   iterations: number,
   didConverge: boolean,
-  sessionContext?: string | null
+  sessionContext?: string | null,
+  stopReason?: StopReason | null
 ) => {
   const ai = initGenAI();
   if (!ai) return "AI Configuration missing. Please check API Key.";
@@ -34,6 +36,8 @@ export const getGeminiFeedback = async (
     - Final Cost: ${endValue.toFixed(4)}
     - Iterations: ${iterations}
     - Improvement: ${improvement.toFixed(2)}%
+    - Reached the known global minimum (within tolerance): ${didConverge ? 'Yes' : 'No'}
+    - Stopped because: ${stopReason ? STOP_REASON_LABELS[stopReason] : 'Stopped by the user'}
   `;
 
   if (sessionContext) {
@@ -80,10 +84,10 @@ export const getUseCaseGuidance = async (userDescription: string) => {
       
       Return ONLY a valid JSON object with:
       {
-        "suggestedAlgo": "GREEDY" | "HILL_CLIMBING" | "SIMULATED_ANNEALING" | "GENETIC",
+        "suggestedAlgo": "GREEDY" | "HILL_CLIMBING" | "SIMULATED_ANNEALING" | "GENETIC" | "GRADIENT_DESCENT" | "MOMENTUM" | "NESTEROV" | "RMSPROP" | "ADAM" | "PARTICLE_SWARM" | "DIFFERENTIAL_EVOLUTION" | "CMA_ES" | "ONE_PLUS_ONE_ES",
         "learningRate": number (0.01 to 1.0),
         "temperature": number (for annealing, 10 to 1000),
-        "populationSize": number (for genetic, 10 to 100),
+        "populationSize": number (for genetic, particle swarm or differential evolution, 10 to 100),
         "mutationRate": number (for genetic, 0.01 to 0.5),
         "reasoning": "One concise sentence explaining why this setup fits the problem."
       }
@@ -113,8 +117,10 @@ export const analyzeConfiguration = async (config: any, landscapeName: string) =
     Algorithm: ${config.algo}
     Learning Rate: ${config.learningRate}
     Max Iterations: ${config.maxIterations}
-    ${config.algo === 'SIMULATED_ANNEALING' ? `Temperature: ${config.temperature}` : ''}
-    ${config.algo === 'GENETIC' ? `Population: ${config.populationSize}, Mutation: ${config.mutationRate}` : ''}
+    ${config.algo === 'SIMULATED_ANNEALING' ? `Temperature: ${config.temperature}, Cooling: ${COOLING_SCHEDULE_LABELS[config.coolingSchedule || 'inverse']}${config.reheatWindow ? `, reheat after ${config.reheatWindow} stagnant steps` : ''}` : ''}
+    ${config.algo === 'GENETIC' ? `Population: ${config.populationSize}, Mutation: ${config.mutationRate} (${MUTATION_LABELS[config.mutation || 'uniform']}), Selection: ${SELECTION_LABELS[config.selection || 'truncation']}, Crossover: ${CROSSOVER_LABELS[config.crossover || 'midpoint']}, Elites: ${((config.eliteFraction ?? 0.2) * 100).toFixed(0)}%` : ''}
+    ${config.algo === 'PARTICLE_SWARM' ? `Swarm: ${config.populationSize}, Inertia: ${config.inertia}, Cognitive: ${config.cognitive}, Social: ${config.social}` : ''}
+    ${config.algo === 'DIFFERENTIAL_EVOLUTION' ? `Population: ${config.populationSize}, F: ${config.differentialWeight}, CR: ${config.crossoverRate}` : ''}
 
     Predict the outcome in 1 sentence. Will it converge? Will it get stuck in local minima?
     Provide a probability of success (0-100%).
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildPalette, createGifEncoder } from './gif';
+import { createRng } from './random';
+
+const WIDTH = 160;
+const HEIGHT = 128;
+const COLORS: [number, number, number][] = [[0, 0, 0], [255, 255, 255], [52, 199, 89], [250, 204, 21], [255, 159, 10]];
+
+// Helper: RGBA frame of colours picked by the given function
+const frame = (pick: (i: number) => number) => {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) pixels.set([...COLORS[pick(i)], 255], i * 4);
+  return pixels;
+};
+
+// Helper: Textbook GIF LZW decoder (variable code size, clear and end codes)
+const decodeLzw = (data: number[], minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+  const out: number[] = [];
+  let prev: number[] | null = null;
+  for (let bit = 0; ;) {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << b;
+    if (code === clearCode) {
+      reset();
+      prev = null;
+      continue;
+    }
+    if (code === endCode) return out;
+    const entry = code < table.length ? table[code] : [...prev, prev[0]];
+    for (const index of entry) out.push(index);
+    if (prev && table.length < 4096) table.push([...prev, entry[0]]);
+    prev = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+};
+
+// Helper: Palette indices of every frame in a GIF written by createGifEncoder
+const decodeFrames = (gif: Uint8Array): number[][] => {
+  const frames: number[][] = [];
+  let p = 6 + 7 + 768 + 19; // Header, screen descriptor, global palette, looping extension
+  while (gif[p] !== 0x3b) {
+    p += 8 + 10; // Graphic control extension, image descriptor
+    const minCodeSize = gif[p++];
+    const data: number[] = [];
+    while (gif[p] !== 0) {
+      const size = gif[p++];
+      for (let i = 0; i < size; i++) data.push(gif[p++]);
+    }
+    p++;
+    frames.push(decodeLzw(data, minCodeSize));
+  }
+  return frames;
+};
+
+describe('GIF encoder', () => {
+  const rng = createRng(3);
+  // Flat, striped and noisy frames: the noise overflows the 4096-code dictionary and forces a reset
+  const frames = [
+    frame(() => 1),
+    frame(i => Math.floor(i / WIDTH) % COLORS.length),
+    frame(() => Math.floor(rng() * COLORS.length))
+  ];
+  const palette = buildPalette(frames);
+  const encoder = createGifEncoder(WIDTH, HEIGHT, palette, 100);
+  frames.forEach(f => encoder.addFrame(f));
+  const gif = encoder.finish();
+
+  it('writes a GIF89a header with the frame size', () => {
+    expect(new TextDecoder().decode(gif.slice(0, 6))).toBe('GIF89a');
+    expect(gif[6] | (gif[7] << 8)).toBe(WIDTH);
+    expect(gif[8] | (gif[9] << 8)).toBe(HEIGHT);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('keeps every reserved colour in the palette', () => {
+    COLORS.forEach(([r, g, b]) => {
+      const found = Array.from({ length: 256 }, (_, c) => c).some(c => palette[c * 3] === r && palette[c * 3 + 1] === g && palette[c * 3 + 2] === b);
+      expect(found).toBe(true);
+    });
+  });
+
+  it('round-trips every pixel through LZW', () => {
+    const decoded = decodeFrames(gif);
+    expect(decoded).toHaveLength(frames.length);
+    decoded.forEach((indices, f) => {
+      expect(indices).toHaveLength(WIDTH * HEIGHT);
+      const pixels = frames[f];
+      indices.forEach((index, i) => {
+        expect([palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]]).toEqual([pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]]);
+      });
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// Minimal animated GIF89a encoder: one shared 256-colour palette, LZW-compressed frames, looping forever.
+// Frames are RGBA pixel buffers straight from a canvas (ImageData.data).
+
+// Colours that must survive quantisation even though they cover few pixels (agents, optima, trails)
+const RESERVED_COLORS: [number, number, number][] = [
+  [0, 0, 0],
+  [255, 255, 255],
+  [52, 199, 89],
+  [250, 204, 21],
+  [255, 159, 10]
+];
+
+// LZW codes are capped at 12 bits
+const MAX_CODE = 4096;
+
+// Helper: Growable byte buffer
+const createWriter = () => {
+  let bytes = new Uint8Array(1 << 16);
+  let length = 0;
+  const byte = (b: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = b;
+  };
+  return {
+    byte,
+    word: (w: number) => { byte(w & 0xff); byte((w >> 8) & 0xff); },
+    text: (s: string) => { for (let i = 0; i < s.length; i++) byte(s.charCodeAt(i)); },
+    bytes: (data: ArrayLike<number>) => { for (let i = 0; i < data.length; i++) byte(data[i]); },
+    result: () => bytes.slice(0, length)
+  };
+};
+
+// Helper: 15-bit colour key (5 bits per channel) used for the histogram and the lookup cache
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// Palette from the reserved colours plus the most common remaining colours in a few sample frames
+export const buildPalette = (samples: Uint8ClampedArray[]): Uint8Array => {
+  const counts = new Uint32Array(1 << 15);
+  samples.forEach(pixels => {
+    for (let i = 0; i < pixels.length; i += 4) counts[colorKey(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  });
+  RESERVED_COLORS.forEach(([r, g, b]) => { counts[colorKey(r, g, b)] = 0; });
+
+  const popular = Array.from(counts.keys())
+    .filter(k => counts[k] > 0)
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, 256 - RESERVED_COLORS.length);
+
+  const palette = new Uint8Array(256 * 3);
+  RESERVED_COLORS.forEach(([r, g, b], i) => palette.set([r, g, b], i * 3));
+  popular.forEach((k, i) => {
+    // Centre of the 5-bit bucket
+    palette.set([((k >> 10) << 3) | 4, (((k >> 5) & 31) << 3) | 4, ((k & 31) << 3) | 4], (RESERVED_COLORS.length + i) * 3);
+  });
+  return palette;
+};
+
+// Helper: Map RGBA pixels to palette indices, caching the nearest entry per 15-bit colour
+const quantize = (pixels: Uint8ClampedArray, palette: Uint8Array, cache: Int16Array): Uint8Array => {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0, p = 0; i < pixels.length; i += 4, p++) {
+    const key = colorKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+    let index = cache[key];
+    if (index < 0) {
+      let bestDistance = Infinity;
+      for (let c = 0; c < 256; c++) {
+        const dr = palette[c * 3] - pixels[i];
+        const dg = palette[c * 3 + 1] - pixels[i + 1];
+        const db = palette[c * 3 + 2] - pixels[i + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = c;
+        }
+      }
+      cache[key] = index;
+    }
+    indices[p] = index;
+  }
+  return indices;
+};
+
+// Helper: LZW-compress palette indices into GIF data sub-blocks (minimum code size 8)
+const writeImageData = (out: ReturnType<typeof createWriter>, indices: Uint8Array) => {
+  const clearCode = 256;
+  const endCode = 257;
+  const dictionary = new Map<number, number>();
+  let codeSize = 9;
+  let nextCode = 258;
+
+  // Codes are packed least significant bit first, then cut into blocks of at most 255 bytes
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(8);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = 9;
+      nextCode = 258;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) flushBlock();
+  out.byte(0);
+};
+
+// Streaming encoder for frames of one size; the palette is fixed up front (see buildPalette)
+export const createGifEncoder = (width: number, height: number, palette: Uint8Array, delayMs: number) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const out = createWriter();
+  const delay = Math.max(2, Math.round(delayMs / 10)); // Centiseconds; most viewers clamp anything shorter
+
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // Global colour table of 256 entries, 8 bits per channel
+  out.byte(0); // Background colour index
+  out.byte(0); // Square pixels
+  out.bytes(palette);
+
+  // Loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.text('NETSCAPE2.0');
+  out.bytes([0x03, 0x01]);
+  out.word(0);
+  out.byte(0);
+
+  return {
+    addFrame: (pixels: Uint8ClampedArray) => {
+      out.bytes([0x21, 0xf9, 0x04, 0x04]); // Graphic control: keep the previous frame, no transparency
+      out.word(delay);
+      out.bytes([0, 0]);
+
+      out.byte(0x2c); // Image descriptor covering the whole screen, global palette, not interlaced
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0);
+      writeImageData(out, quantize(pixels, palette, cache));
+    },
+    finish: (): Uint8Array => {
+      out.byte(0x3b);
+      return out.result();
+    }
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ScalarField } from '../types';
+import { LANDSCAPES } from '../constants';
+import { contourLevels, contourSegments, createCostScale, evaluateField } from './heatmap';
+
+// Helper: Field sampled from f at integer pixel coordinates
+const fieldOf = (width: number, height: number, f: (x: number, y: number) => number): ScalarField => {
+  const values = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) values[y * width + x] = f(x, y);
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => { min = Math.min(min, v); max = Math.max(max, v); });
+  return { values, width, height, min, max };
+};
+
+// Helper: Segment endpoints as [x, y] pairs
+const endpoints = (segments: number[]) =>
+  Array.from({ length: segments.length / 2 }, (_, i) => [segments[i * 2], segments[i * 2 + 1]]);
+
+describe('contourSegments', () => {
+  it('traces a straight line through a linear ramp', () => {
+    const segments = contourSegments(fieldOf(20, 10, x => x), 7.25);
+    expect(segments).toHaveLength(9 * 4); // One segment per row of cells
+    endpoints(segments).forEach(([x]) => expect(x).toBeCloseTo(7.25, 12));
+  });
+
+  it('keeps a circle on its radius', () => {
+    const radius = 12;
+    const segments = contourSegments(fieldOf(40, 40, (x, y) => Math.hypot(x - 20, y - 20)), radius);
+    expect(segments.length).toBeGreaterThan(0);
+    endpoints(segments).forEach(([x, y]) => expect(Math.abs(Math.hypot(x - 20, y - 20) - radius)).toBeLessThan(0.1));
+  });
+
+  it('draws nothing for a level outside the field', () => {
+    expect(contourSegments(fieldOf(10, 10, x => x), 50)).toEqual([]);
+  });
+});
+
+describe('createCostScale', () => {
+  const field = evaluateField(LANDSCAPES.find(l => l.name === 'Rastrigin Function'), 64, 48);
+
+  it.each(['linear', 'log'] as const)('%s scale inverts its own mapping', scale => {
+    const costScale = createCostScale(field, scale);
+    expect(costScale.normalize(field.min)).toBeCloseTo(0, 12);
+    expect(costScale.normalize(field.max)).toBeCloseTo(1, 12);
+    [0.1, 0.5, 0.9].forEach(t => expect(costScale.normalize(costScale.invert(t))).toBeCloseTo(t, 9));
+  });
+
+  it('spreads colour over the low-cost end on the log scale', () => {
+    const mid = (field.min + field.max) / 2;
+    expect(createCostScale(field, 'log').normalize(mid)).toBeGreaterThan(createCostScale(field, 'linear').normalize(mid));
+  });
+
+  it('gives quantiles an equal share of the samples', () => {
+    const costScale = createCostScale(field, 'quantile');
+    const median = costScale.invert(0.5);
+    const below = field.values.filter(v => v < median).length / field.values.length;
+    expect(below).toBeCloseTo(0.5, 1);
+  });
+
+  it('places contour levels in increasing order inside the range', () => {
+    const levels = contourLevels(createCostScale(field, 'log'), 6);
+    expect(levels).toHaveLength(6);
+    levels.forEach((level, i) => {
+      expect(level).toBeGreaterThan(field.min);
+      expect(level).toBeLessThan(field.max);
+      if (i > 0) expect(level).toBeGreaterThan(levels[i - 1]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Heatmap colouring: the landscape sampled at every pixel, colour scales over that grid, colormaps and contour lines.
+import { Colormap, ColorScale, CostScale, Landscape, ScalarField } from '../types';
+
+// Colormap control points, low cost first
+const COLORMAP_STOPS: Record<Colormap, [number, number, number][]> = {
+  // The original blue ramp: black through a muted blue
+  ocean: [[0, 0, 20], [51, 51, 148]],
+  viridis: [[68, 1, 84], [71, 45, 123], [59, 82, 139], [44, 114, 142], [33, 145, 140], [40, 174, 128], [94, 201, 98], [173, 220, 48], [253, 231, 37]],
+  magma: [[0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122], [229, 80, 100], [251, 136, 97], [254, 194, 135], [252, 253, 191]],
+  diverging: [[33, 102, 172], [67, 147, 195], [146, 197, 222], [209, 229, 240], [247, 247, 247], [253, 219, 199], [244, 165, 130], [214, 96, 77], [178, 24, 43]]
+};
+
+// Quantile scales rank against at most this many grid samples
+const QUANTILE_SAMPLES = 65536;
+// Log scale offset as a fraction of the cost range, so the minimum itself maps to a finite value
+const LOG_OFFSET = 1e-2;
+
+// Sample the landscape at every pixel, using the same pixel -> domain mapping as the Visualizer
+export const evaluateField = (landscape: Landscape, width: number, height: number): ScalarField => {
+  const values = new Float64Array(width * height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let py = 0; py < height; py++) {
+    const ly = landscape.minY + ((height - py) / height) * (landscape.maxY - landscape.minY);
+    for (let px = 0; px < width; px++) {
+      const z = landscape.func(landscape.minX + (px / width) * (landscape.maxX - landscape.minX), ly);
+      values[py * width + px] = z;
+      if (Number.isFinite(z)) {
+        if (z < min) min = z;
+        if (z > max) max = z;
+      }
+    }
+  }
+  if (min === Infinity) min = 0;
+  if (max === -Infinity || max === min) max = min + 1;
+  // Poles and overflow sit at the top of the range rather than poisoning the scales
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isFinite(values[i])) values[i] = max;
+  }
+  return { values, width, height, min, max };
+};
+
+// Cost <-> 0..1 mapping over a field
+export const createCostScale = (field: ScalarField, scale: ColorScale): CostScale => {
+  const { min, max } = field;
+  const clamp = (t: number) => Math.max(0, Math.min(1, t));
+
+  if (scale === 'log') {
+    const offset = (max - min) * LOG_OFFSET;
+    const span = Math.log1p((max - min) / offset);
+    return {
+      normalize: (cost) => clamp(Math.log1p(Math.max(0, cost - min) / offset) / span),
+      invert: (t) => min + offset * Math.expm1(clamp(t) * span)
+    };
+  }
+
+  if (scale === 'quantile') {
+    const stride = Math.max(1, Math.ceil(field.values.length / QUANTILE_SAMPLES));
+    const sorted = new Float64Array(Math.ceil(field.values.length / stride));
+    for (let i = 0, k = 0; i < field.values.length; i += stride, k++) sorted[k] = field.values[i];
+    sorted.sort();
+    const last = sorted.length - 1;
+    return {
+      normalize: (cost) => {
+        // Number of samples below the cost, by binary search
+        let lo = 0;
+        let hi = sorted.length;
+        while (lo < hi) {
+          const mid = (lo + hi) >> 1;
+          if (sorted[mid] < cost) lo = mid + 1;
+          else hi = mid;
+        }
+        return last > 0 ? clamp(lo / last) : 0;
+      },
+      invert: (t) => sorted[Math.round(clamp(t) * last)]
+    };
+  }
+
+  return {
+    normalize: (cost) => clamp((cost - min) / (max - min)),
+    invert: (t) => min + clamp(t) * (max - min)
+  };
+};
+
+// Helper: Colour at t along a list of stops
+const interpolateStops = (stops: [number, number, number][], t: number): [number, number, number] => {
+  const position = t * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// 256-entry RGB lookup table for a colormap
+export const colormapLut = (colormap: Colormap): Uint8Array => {
+  const lut = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) lut.set(interpolateStops(COLORMAP_STOPS[colormap], i / 255).map(Math.round), i * 3);
+  return lut;
+};
+
+// CSS gradient of a colormap, low cost at the bottom (for legends)
+export const colormapGradient = (colormap: Colormap) =>
+  `linear-gradient(to top, ${COLORMAP_STOPS[colormap].map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
+
+// Costs at which contours are drawn: evenly spaced along the colour scale, so lines follow colour bands
+export const contourLevels = (scale: CostScale, count: number): number[] =>
+  Array.from({ length: count }, (_, k) => scale.invert((k + 1) / (count + 1)));
+
+// Edge pairs crossed by the contour for each marching-squares case (edges: 0 top, 1 right, 2 bottom, 3 left)
+const CASE_EDGES: number[][] = [
+  [], [3, 2], [2, 1], [3, 1], [0, 1], [3, 0, 2, 1], [0, 2], [3, 0],
+  [3, 0], [0, 2], [0, 1, 3, 2], [0, 1], [3, 1], [2, 1], [3, 2], []
+];
+
+// Marching squares: line segments (x1, y1, x2, y2, ...) in pixel coordinates where the field crosses a level
+export const contourSegments = (field: ScalarField, level: number): number[] => {
+  const { values, width, height } = field;
+  const segments: number[] = [];
+  const point = (edge: number, x: number, y: number, tl: number, tr: number, br: number, bl: number): [number, number] => {
+    const cross = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+    switch (edge) {
+      case 0: return [x + cross(tl, tr), y];
+      case 1: return [x + 1, y + cross(tr, br)];
+      case 2: return [x + cross(bl, br), y + 1];
+      default: return [x, y + cross(tl, bl)];
+    }
+  };
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const tl = values[y * width + x];
+      const tr = values[y * width + x + 1];
+      const br = values[(y + 1) * width + x + 1];
+      const bl = values[(y + 1) * width + x];
+      const edges = CASE_EDGES[(tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0)];
+      for (let e = 0; e < edges.length; e += 2) {
+        segments.push(...point(edges[e], x, y, tl, tr, br, bl), ...point(edges[e + 1], x, y, tl, tr, br, bl));
+      }
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, LineageNode } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import { birthRecords, founderCount, generationEdges, lineOfDescent } from './lineage';
+import { runHeadless } from './runner';
+
+// Helper: A lineage node at (id, 0) with the given cost
+const node = (id: number, value: number, parents: number[] = []): LineageNode => ({ id, parents, x: id, y: 0, value });
+
+// Founders 0-3; generation 1 keeps elite 0 and breeds 4 (0 x 1) and 5 (2 x 3);
+// generation 2 keeps 0 and 4 and breeds 6 (4 x 5)
+const lineage: LineageNode[][] = [
+  [node(0, 1), node(1, 2), node(2, 3), node(3, 4)],
+  [node(0, 1), node(4, 0.5, [0, 1]), node(5, 2.5, [2, 3])],
+  [node(4, 0.5, [0, 1]), node(0, 1), node(6, 0.2, [4, 5])]
+];
+
+describe('birthRecords', () => {
+  it('dates each individual by its first appearance', () => {
+    const births = birthRecords(lineage);
+    expect(births.get(0).generation).toBe(0);
+    expect(births.get(4).generation).toBe(1);
+    expect(births.get(6).generation).toBe(2);
+    expect(births.size).toBe(7);
+  });
+});
+
+describe('generationEdges', () => {
+  it('links every newborn to its parents, skipping carried-over elites', () => {
+    expect(generationEdges(lineage, 2)).toEqual([
+      { from: { x: 4, y: 0 }, to: { x: 6, y: 0 } },
+      { from: { x: 5, y: 0 }, to: { x: 6, y: 0 } }
+    ]);
+  });
+
+  it('has nothing to draw for the founders or past the end', () => {
+    expect(generationEdges(lineage, 0)).toEqual([]);
+    expect(generationEdges(lineage, 3)).toEqual([]);
+  });
+});
+
+describe('lineOfDescent', () => {
+  it('follows the fitter parent back to a founder', () => {
+    const line = lineOfDescent(lineage, 6);
+    expect(line.map(s => s.node.id)).toEqual([0, 4, 6]);
+    expect(line.map(s => s.generation)).toEqual([0, 1, 2]);
+    expect(line.map(s => s.coParent?.id ?? null)).toEqual([null, 1, 5]);
+  });
+
+  it('is empty for an unknown id', () => {
+    expect(lineOfDescent(lineage, 99)).toEqual([]);
+  });
+});
+
+describe('founderCount', () => {
+  it('counts distinct founders among all ancestors', () => {
+    expect(founderCount(lineage, 6)).toBe(4);
+    expect(founderCount(lineage, 4)).toBe(2);
+    expect(founderCount(lineage, 0)).toBe(1);
+    expect(founderCount([], 0)).toBe(0);
+  });
+});
+
+describe('recorded genetic runs', () => {
+  const { lineage: recorded } = runHeadless(
+    { ...INITIAL_CONFIG, algo: AlgorithmType.GENETIC, populationSize: 10, maxIterations: 15 },
+    LANDSCAPES.find(l => l.name === 'Rastrigin Function')
+  );
+
+  it('records every generation', () => {
+    expect(recorded).toHaveLength(16);
+    recorded.forEach(members => expect(members).toHaveLength(10));
+  });
+
+  it('breeds every newborn from members of the previous generation', () => {
+    for (let g = 1; g < recorded.length; g++) {
+      const previous = new Set(recorded[g - 1].map(n => n.id));
+      recorded[g].filter(n => !previous.has(n.id)).forEach(child => {
+        expect(child.parents.length).toBeGreaterThan(0);
+        child.parents.forEach(id => expect(previous.has(id)).toBe(true));
+      });
+    }
+  });
+
+  it('traces everyone back to the initial population', () => {
+    recorded[recorded.length - 1].forEach(n => expect(lineOfDescent(recorded, n.id)[0].generation).toBe(0));
+  });
+});
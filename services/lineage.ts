@@ -0,0 +1,79 @@
+// Genealogy of the genetic algorithm: who was bred from whom, generation by generation.
+import { LineageNode, Point, Vector2 } from '../types';
+
+export const toLineageNode = (p: Point): LineageNode => ({
+  id: p.id ?? -1,
+  parents: p.parents ?? [],
+  x: p.x,
+  y: p.y,
+  value: p.value,
+  ...(p.coords && { coords: p.coords })
+});
+
+// Where and when each individual was born (elites reappear in later generations under the same id)
+export const birthRecords = (lineage: LineageNode[][]): Map<number, { node: LineageNode; generation: number }> => {
+  const births = new Map<number, { node: LineageNode; generation: number }>();
+  lineage.forEach((members, generation) => {
+    members.forEach(node => {
+      if (!births.has(node.id)) births.set(node.id, { node, generation });
+    });
+  });
+  return births;
+};
+
+// Parent -> child edges for the individuals born into generation `g`
+export const generationEdges = (lineage: LineageNode[][], g: number): { from: Vector2; to: Vector2 }[] => {
+  if (g < 1 || g >= lineage.length) return [];
+  const previous = new Map(lineage[g - 1].map(n => [n.id, n]));
+  const edges: { from: Vector2; to: Vector2 }[] = [];
+  lineage[g].forEach(child => {
+    if (previous.has(child.id)) return; // Elite carried over, not a birth
+    child.parents.forEach(id => {
+      const parent = previous.get(id);
+      if (parent) edges.push({ from: { x: parent.x, y: parent.y }, to: { x: child.x, y: child.y } });
+    });
+  });
+  return edges;
+};
+
+// One step in a line of descent, with the other parent it was bred with (if any)
+export interface DescentStep {
+  node: LineageNode;
+  generation: number; // Generation it was born into
+  coParent: LineageNode | null;
+}
+
+// Main line of descent from the initial population down to `id`, following the fitter parent at each birth.
+// Oldest first; stops early if the record doesn't reach back to generation 0.
+export const lineOfDescent = (lineage: LineageNode[][], id: number): DescentStep[] => {
+  const births = birthRecords(lineage);
+  const steps: DescentStep[] = [];
+  let current = births.get(id);
+  while (current) {
+    const parents = current.node.parents
+      .map(p => births.get(p)?.node)
+      .filter((p): p is LineageNode => p !== undefined)
+      .sort((a, b) => a.value - b.value);
+    steps.push({ node: current.node, generation: current.generation, coParent: parents[1] ?? null });
+    current = parents.length > 0 ? births.get(parents[0].id) : undefined;
+  }
+  return steps.reverse();
+};
+
+// How many members of the initial population `id` descends from
+export const founderCount = (lineage: LineageNode[][], id: number): number => {
+  if (lineage.length === 0) return 0;
+  const births = birthRecords(lineage);
+  const founders = new Set(lineage[0].map(n => n.id));
+  const seen = new Set<number>();
+  const stack = [id];
+  let count = 0;
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    if (founders.has(next)) count++;
+    stack.push(...(births.get(next)?.node.parents ?? []));
+  }
+  return count;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, Point } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import { COVERAGE_GRID, improvementRate, markVisited, meanPairwiseDistance, spatialEntropy } from './metrics';
+import { runHeadless } from './runner';
+
+const bowl = LANDSCAPES.find(l => l.name === 'Convex Bowl'); // [-5, 5]^2
+const diagonal = Math.hypot(10, 10);
+
+// Helper: Agents at the given positions (costs don't matter here)
+const at = (...coords: [number, number][]): Point[] => coords.map(([x, y]) => ({ x, y, value: 0 }));
+
+describe('meanPairwiseDistance', () => {
+  it('averages over every pair as a fraction of the diagonal', () => {
+    expect(meanPairwiseDistance(at([-5, -5], [5, 5]), bowl)).toBeCloseTo(1, 12);
+    expect(meanPairwiseDistance(at([0, 0], [3, 4], [0, 0]), bowl)).toBeCloseTo((5 + 0 + 5) / 3 / diagonal, 12);
+  });
+
+  it('is zero for one agent or a collapsed population', () => {
+    expect(meanPairwiseDistance(at([1, 1]), bowl)).toBe(0);
+    expect(meanPairwiseDistance(at([1, 1], [1, 1], [1, 1]), bowl)).toBe(0);
+  });
+});
+
+describe('spatialEntropy', () => {
+  it('is zero when every agent shares a cell', () => {
+    expect(spatialEntropy(at([0.1, 0.1], [0.2, 0.2], [0.3, 0.3]), bowl)).toBe(0);
+  });
+
+  it('is one when every agent has a cell of its own', () => {
+    expect(spatialEntropy(at([-4.5, -4.5], [4.5, 4.5], [0.5, -3.5], [-2.5, 2.5]), bowl)).toBeCloseTo(1, 12);
+  });
+
+  it('counts agents on the upper bounds in the last cell', () => {
+    expect(spatialEntropy(at([5, 5], [4.9, 4.9]), bowl)).toBe(0);
+  });
+});
+
+describe('markVisited', () => {
+  it('appends only cells not seen before, in discovery order', () => {
+    const first = markVisited([], at([-5, -5], [-5, -5], [5, 5]), bowl);
+    expect(first).toEqual([0, COVERAGE_GRID * COVERAGE_GRID - 1]);
+    expect(markVisited(first, at([0, -5], [-5, -5]), bowl)).toEqual([...first, COVERAGE_GRID / 2]);
+  });
+
+  it('returns the same array when nothing is new', () => {
+    const visited = markVisited([], at([1, 1]), bowl);
+    expect(markVisited(visited, at([1.1, 1.1]), bowl)).toBe(visited);
+  });
+});
+
+describe('improvementRate', () => {
+  it('averages the best-so-far drop over the recent window', () => {
+    const history = [10, 8, 6].map((bestSoFar, iteration) => ({ iteration, cost: bestSoFar, evaluations: iteration, elapsedMs: 0, bestSoFar }));
+    expect(improvementRate(history, 4, 3)).toBeCloseTo((10 - 4) / 3, 12);
+    expect(improvementRate([], 4, 3)).toBe(0);
+  });
+});
+
+describe('recorded runs', () => {
+  const { history, visited } = runHeadless(
+    { ...INITIAL_CONFIG, algo: AlgorithmType.PARTICLE_SWARM, maxIterations: 30 },
+    LANDSCAPES.find(l => l.name === 'Rastrigin Function')
+  );
+
+  it('only ever grows coverage and lowers the best so far', () => {
+    history.slice(1).forEach((h, i) => {
+      expect(h.coverage).toBeGreaterThanOrEqual(history[i].coverage);
+      expect(h.bestSoFar).toBeLessThanOrEqual(history[i].bestSoFar);
+    });
+    expect(history[history.length - 1].coverage).toBe(visited.length / (COVERAGE_GRID * COVERAGE_GRID));
+  });
+
+  it('keeps diversity and entropy within 0..1', () => {
+    history.forEach(h => {
+      [h.diversity, h.entropy].forEach(m => {
+        expect(m).toBeGreaterThanOrEqual(0);
+        expect(m).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+});
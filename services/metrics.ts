@@ -0,0 +1,86 @@
+// Per-iteration exploration metrics: how spread out the agents are, and how much of the domain they have seen.
+// Diversity uses every dimension; the entropy and coverage grids cover the first two.
+import { HistoryEntry, Landscape, Point } from '../types';
+import { boundsOf, positionOf } from './dimensions';
+
+// Cells per side of the grid used for spatial entropy
+const ENTROPY_GRID = 10;
+// Cells per side of the grid used for domain coverage
+export const COVERAGE_GRID = 20;
+// Iterations the best-agent improvement rate is averaged over
+const IMPROVEMENT_WINDOW = 10;
+
+// Helper: Grid cell (row-major index) containing a point
+const cellIndex = (p: Point, landscape: Landscape, grid: number) => {
+  const cx = Math.min(grid - 1, Math.floor(((p.x - landscape.minX) / (landscape.maxX - landscape.minX)) * grid));
+  const cy = Math.min(grid - 1, Math.floor(((p.y - landscape.minY) / (landscape.maxY - landscape.minY)) * grid));
+  return Math.max(0, cy) * grid + Math.max(0, cx);
+};
+
+// Mean distance between every pair of agents, as a fraction of the domain diagonal (0 for a single agent)
+export const meanPairwiseDistance = (agents: Point[], landscape: Landscape): number => {
+  if (agents.length < 2) return 0;
+  const positions = agents.map(positionOf);
+  let total = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      total += Math.hypot(...positions[i].map((x, k) => x - positions[j][k]));
+    }
+  }
+  const pairs = (agents.length * (agents.length - 1)) / 2;
+  return total / pairs / Math.hypot(...boundsOf(landscape).map(([lo, hi]) => hi - lo));
+};
+
+// Shannon entropy of agent occupancy over a grid, scaled to 0..1 by the most even spread the population allows
+export const spatialEntropy = (agents: Point[], landscape: Landscape): number => {
+  const maxCells = Math.min(agents.length, ENTROPY_GRID * ENTROPY_GRID);
+  if (maxCells < 2) return 0;
+  const counts = new Map<number, number>();
+  agents.forEach(a => {
+    const cell = cellIndex(a, landscape, ENTROPY_GRID);
+    counts.set(cell, (counts.get(cell) ?? 0) + 1);
+  });
+  let entropy = 0;
+  counts.forEach(c => {
+    const p = c / agents.length;
+    entropy -= p * Math.log(p);
+  });
+  return entropy / Math.log(maxCells);
+};
+
+// Coverage grid cells visited so far, with any new ones the agents just entered appended
+export const markVisited = (visited: number[], agents: Point[], landscape: Landscape): number[] => {
+  const seen = new Set(visited);
+  const added: number[] = [];
+  agents.forEach(a => {
+    const cell = cellIndex(a, landscape, COVERAGE_GRID);
+    if (!seen.has(cell)) {
+      seen.add(cell);
+      added.push(cell);
+    }
+  });
+  return added.length > 0 ? [...visited, ...added] : visited;
+};
+
+// Average drop in best-so-far cost per iteration over the recent window
+export const improvementRate = (history: HistoryEntry[], bestSoFar: number, iteration: number): number => {
+  const past = history[Math.max(0, history.length - IMPROVEMENT_WINDOW)];
+  if (!past || iteration <= past.iteration) return 0;
+  return ((past.bestSoFar ?? past.cost) - bestSoFar) / (iteration - past.iteration);
+};
+
+// Metric fields for a history entry
+export const explorationMetrics = (
+  agents: Point[],
+  landscape: Landscape,
+  visited: number[],
+  history: HistoryEntry[],
+  bestSoFar: number,
+  iteration: number
+): Pick<HistoryEntry, 'diversity' | 'entropy' | 'coverage' | 'bestSoFar' | 'improvementRate'> => ({
+  diversity: meanPairwiseDistance(agents, landscape),
+  entropy: spatialEntropy(agents, landscape),
+  coverage: visited.length / (COVERAGE_GRID * COVERAGE_GRID),
+  bestSoFar,
+  improvementRate: improvementRate(history, bestSoFar, iteration)
+});
@@ -0,0 +1,280 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, CoolingSchedule, CrossoverMethod, MutationMethod, OptimizerState, Point, SelectionMethod } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import { createRng } from './random';
+import { coolingTemperature, numericalGradient, randomPositions, stepSimulation } from './optimizer';
+import { pointAt } from './dimensions';
+import { runHeadless, toStepConfig } from './runner';
+
+const bowl = LANDSCAPES.find(l => l.name === 'Convex Bowl');
+const rastrigin = LANDSCAPES.find(l => l.name === 'Rastrigin Function');
+
+const GRADIENT_METHODS = [
+  AlgorithmType.GRADIENT_DESCENT,
+  AlgorithmType.MOMENTUM,
+  AlgorithmType.NESTEROV,
+  AlgorithmType.RMSPROP,
+  AlgorithmType.ADAM
+];
+
+// Helper: Agents after `steps` iterations from a fixed start
+const descend = (algo: AlgorithmType, start: Point[], steps: number) => {
+  const config = toStepConfig({ ...INITIAL_CONFIG, learningRate: 0.05 });
+  const rng = createRng(1);
+  let agents = start;
+  let state: OptimizerState = {};
+  for (let i = 0; i < steps; i++) ({ agents, state } = stepSimulation(algo, agents, bowl, i, config, rng, state));
+  return { agents, state };
+};
+
+// Helper: Every population from a seeded run on Rastrigin, with the optimizer state after each step
+const trace = (algo: AlgorithmType, steps: number) => {
+  const config = toStepConfig(INITIAL_CONFIG);
+  const rng = createRng(7);
+  let agents = randomPositions(rastrigin, 20, rng).map(position => pointAt(rastrigin, position));
+  let state: OptimizerState = {};
+  const frames = [{ agents, state }];
+  for (let i = 0; i < steps; i++) {
+    ({ agents, state } = stepSimulation(algo, agents, rastrigin, i, config, rng, state));
+    frames.push({ agents, state });
+  }
+  return frames;
+};
+
+describe('numericalGradient', () => {
+  it('matches the analytic gradient of the bowl', () => {
+    const g = numericalGradient(bowl, 1.5, -2);
+    expect(g.x).toBeCloseTo(3, 6);
+    expect(g.y).toBeCloseTo(-4, 6);
+  });
+
+  it('vanishes at a minimum', () => {
+    const g = numericalGradient(rastrigin, 0, 0);
+    expect(g.x).toBeCloseTo(0, 4);
+    expect(g.y).toBeCloseTo(0, 4);
+  });
+});
+
+describe('gradient methods', () => {
+  const start = [{ x: 3, y: -4, value: bowl.func(3, -4) }, { x: -2, y: 1, value: bowl.func(-2, 1) }];
+
+  it.each(GRADIENT_METHODS)('%s walks downhill on the bowl', algo => {
+    const { agents } = descend(algo, start, 200);
+    agents.forEach((agent, i) => expect(agent.value).toBeLessThan(start[i].value * 0.01));
+  });
+
+  it.each(GRADIENT_METHODS)('%s is deterministic', algo => {
+    expect(descend(algo, start, 20)).toEqual(descend(algo, start, 20));
+  });
+
+  it('carries per-agent memory between steps', () => {
+    expect(descend(AlgorithmType.MOMENTUM, start, 3).state.velocity).toHaveLength(start.length);
+    expect(descend(AlgorithmType.ADAM, start, 3).state.step).toBe(3);
+  });
+});
+
+describe('particle swarm', () => {
+  const frames = trace(AlgorithmType.PARTICLE_SWARM, 40);
+
+  it('never loses its personal or swarm bests', () => {
+    for (let i = 2; i < frames.length; i++) {
+      const prev = frames[i - 1].state;
+      const next = frames[i].state;
+      expect(next.swarmBest.value).toBeLessThanOrEqual(prev.swarmBest.value);
+      next.personalBest.forEach((p, j) => expect(p.value).toBeLessThanOrEqual(prev.personalBest[j].value));
+    }
+  });
+
+  it('keeps every particle inside the domain', () => {
+    frames.forEach(({ agents }) => agents.forEach(a => {
+      expect(a.x).toBeGreaterThanOrEqual(rastrigin.minX);
+      expect(a.x).toBeLessThanOrEqual(rastrigin.maxX);
+      expect(a.y).toBeGreaterThanOrEqual(rastrigin.minY);
+      expect(a.y).toBeLessThanOrEqual(rastrigin.maxY);
+    }));
+  });
+});
+
+describe('differential evolution', () => {
+  it('only ever replaces an agent with a better trial', () => {
+    const frames = trace(AlgorithmType.DIFFERENTIAL_EVOLUTION, 40);
+    for (let i = 1; i < frames.length; i++) {
+      frames[i].agents.forEach((agent, j) => expect(agent.value).toBeLessThanOrEqual(frames[i - 1].agents[j].value));
+    }
+    expect(frames[40].agents).not.toEqual(frames[0].agents);
+  });
+
+  it('leaves populations too small for three partners untouched', () => {
+    const few = trace(AlgorithmType.DIFFERENTIAL_EVOLUTION, 0)[0].agents.slice(0, 3);
+    const { agents } = stepSimulation(AlgorithmType.DIFFERENTIAL_EVOLUTION, few, rastrigin, 0, toStepConfig(INITIAL_CONFIG), createRng(1));
+    expect(agents).toEqual(few);
+  });
+});
+
+describe('CMA-ES', () => {
+  const config = { ...INITIAL_CONFIG, algo: AlgorithmType.CMA_ES, maxIterations: 60 };
+
+  it('closes in on the bottom of the bowl', () => {
+    const { bestPoint, optimizerState } = runHeadless(config, bowl);
+    expect(bestPoint.value).toBeLessThan(1e-6);
+    expect(Math.hypot(...optimizerState.mean)).toBeLessThan(1e-2);
+  });
+
+  it('keeps the covariance positive definite', () => {
+    const { covariance: C, sigma } = runHeadless({ ...config, maxIterations: 30 }, rastrigin).optimizerState;
+    expect(C[0][1]).toBe(C[1][0]);
+    expect(C[0][0]).toBeGreaterThan(0);
+    expect(C[0][0] * C[1][1] - C[0][1] * C[1][0]).toBeGreaterThan(0);
+    expect(sigma).toBeGreaterThan(0);
+  });
+});
+
+describe('(1+1)-ES', () => {
+  const config = toStepConfig(INITIAL_CONFIG);
+  const parent = { x: 3, y: -4, value: bowl.func(3, -4) };
+
+  it('mutates a single parent and keeps the better of parent and child', () => {
+    const rng = createRng(3);
+    let agents = [parent];
+    let state: OptimizerState = {};
+    for (let i = 0; i < 50; i++) {
+      const prev = agents[0];
+      ({ agents, state } = stepSimulation(AlgorithmType.ONE_PLUS_ONE_ES, agents, bowl, i, config, rng, state));
+      expect(agents).toHaveLength(1);
+      expect(agents[0].value).toBeLessThanOrEqual(prev.value);
+    }
+  });
+
+  it('adapts sigma by the 1/5th rule', () => {
+    const grow = Math.exp(0.8 / 0.8 / 2);
+    const shrink = Math.exp(-0.2 / 0.8 / 2);
+    const rng = createRng(5);
+    let agents = [parent];
+    let state: OptimizerState = { sigma: 0.5 };
+    for (let i = 0; i < 30; i++) {
+      const prev = { agents, state };
+      ({ agents, state } = stepSimulation(AlgorithmType.ONE_PLUS_ONE_ES, agents, bowl, i, config, rng, state));
+      const improved = agents[0] !== prev.agents[0];
+      expect(state.sigma).toBeCloseTo(prev.state.sigma * (improved ? grow : shrink), 12);
+    }
+  });
+});
+
+describe('coolingTemperature', () => {
+  const config = { ...toStepConfig({ ...INITIAL_CONFIG, temperature: 50 }), horizon: 100 };
+  const schedules: CoolingSchedule[] = ['inverse', 'linear', 'exponential', 'logarithmic', 'lundy-mees'];
+
+  it.each(schedules)('%s starts at the initial temperature and only cools', schedule => {
+    const temps = Array.from({ length: 150 }, (_, k) => coolingTemperature({ ...config, coolingSchedule: schedule }, k));
+    expect(temps[0]).toBeCloseTo(50, 12);
+    temps.slice(1).forEach((t, k) => {
+      expect(t).toBeLessThanOrEqual(temps[k]);
+      expect(t).toBeGreaterThan(0);
+    });
+  });
+
+  it('spreads linear cooling over the horizon, then holds a floor', () => {
+    const linear = { ...config, coolingSchedule: 'linear' as const };
+    expect(coolingTemperature(linear, 50)).toBeCloseTo(25, 12);
+    expect(coolingTemperature(linear, 100)).toBe(coolingTemperature(linear, 500));
+  });
+
+  it('matches the Lundy-Mees recurrence', () => {
+    const lundy = { ...config, coolingSchedule: 'lundy-mees' as const };
+    let t = 50;
+    for (let k = 1; k <= 20; k++) {
+      t = t / (1 + config.coolingBeta * t);
+      expect(coolingTemperature(lundy, k)).toBeCloseTo(t, 9);
+    }
+  });
+
+  it('takes the linear horizon from an evaluation budget', () => {
+    const capped = { ...INITIAL_CONFIG, algo: AlgorithmType.SIMULATED_ANNEALING, limitBy: 'evaluations' as const, evaluationBudget: 250 };
+    expect(toStepConfig(capped).horizon).toBe(250);
+    expect(toStepConfig({ ...capped, limitBy: 'iterations' }).horizon).toBe(INITIAL_CONFIG.maxIterations);
+  });
+});
+
+describe('simulated annealing', () => {
+  const agents = [{ x: 3, y: 3, value: rastrigin.func(3, 3) }];
+
+  it('reheats after a window without a new best', () => {
+    const config = { ...toStepConfig(INITIAL_CONFIG), reheatWindow: 5 };
+    const stuck: OptimizerState = { coolingStep: 40, annealBest: -Infinity, sinceImprovement: 4, reheats: 1 };
+    const { state } = stepSimulation(AlgorithmType.SIMULATED_ANNEALING, agents, rastrigin, 40, config, createRng(1), stuck);
+    expect(state.coolingStep).toBe(0);
+    expect(state.sinceImprovement).toBe(0);
+    expect(state.reheats).toBe(2);
+  });
+
+  it('cools when accepting too often and warms when accepting too rarely', () => {
+    const config = { ...toStepConfig(INITIAL_CONFIG), coolingSchedule: 'adaptive' as const, targetAcceptance: 0.4 };
+    const step = (acceptanceRate: number) =>
+      stepSimulation(AlgorithmType.SIMULATED_ANNEALING, agents, rastrigin, 5, config, createRng(1), { coolingStep: 5, temperature: 10, acceptanceRate }).state;
+    expect(step(0.9).temperature).toBeLessThan(10);
+    expect(step(0.1).temperature).toBeGreaterThan(10);
+  });
+});
+
+describe('genetic operators', () => {
+  const population = trace(AlgorithmType.GENETIC, 0)[0].agents;
+  const sorted = [...population].sort((a, b) => a.value - b.value);
+  const base = toStepConfig(INITIAL_CONFIG);
+  // Helper: One generation from the shared starting population
+  const generation = (overrides: Partial<typeof base>, seed = 1) =>
+    stepSimulation(AlgorithmType.GENETIC, population, rastrigin, 0, { ...base, ...overrides }, createRng(seed)).agents;
+  // Helper: Where an individual sits, ignoring its genealogy
+  const position = ({ x, y, value }: Point) => ({ x, y, value });
+  // Helper: Does every child lie inside the bounding box of `parents`?
+  const within = (children: Point[], parents: Point[]) => children.every(c =>
+    c.x >= Math.min(...parents.map(p => p.x)) && c.x <= Math.max(...parents.map(p => p.x)) &&
+    c.y >= Math.min(...parents.map(p => p.y)) && c.y <= Math.max(...parents.map(p => p.y)));
+
+  const selections: SelectionMethod[] = ['truncation', 'tournament', 'roulette', 'rank'];
+  const crossovers: CrossoverMethod[] = ['midpoint', 'arithmetic', 'blx-alpha', 'sbx'];
+  const mutations: MutationMethod[] = ['uniform', 'gaussian', 'polynomial'];
+  const combinations = selections.flatMap(selection => crossovers.flatMap(crossover => mutations.map(mutation => ({ selection, crossover, mutation }))));
+
+  it.each(combinations)('$selection / $crossover / $mutation keeps the size, bounds and elites', operators => {
+    const children = generation({ ...operators, mutationRate: 0.5 });
+    expect(children).toHaveLength(population.length);
+    children.forEach(c => {
+      expect(c.x).toBeGreaterThanOrEqual(rastrigin.minX);
+      expect(c.x).toBeLessThanOrEqual(rastrigin.maxX);
+      expect(c.y).toBeGreaterThanOrEqual(rastrigin.minY);
+      expect(c.y).toBeLessThanOrEqual(rastrigin.maxY);
+      expect(c.value).toBe(rastrigin.func(c.x, c.y));
+    });
+    expect(children.slice(0, 4).map(position)).toEqual(sorted.slice(0, 4).map(position));
+  });
+
+  it('copies the configured share of elites', () => {
+    expect(generation({ eliteFraction: 0.5, mutationRate: 1 }).slice(0, 10).map(position)).toEqual(sorted.slice(0, 10).map(position));
+  });
+
+  it('breeds truncation children from the better half only', () => {
+    const children = generation({ selection: 'truncation', crossover: 'midpoint', mutationRate: 0, eliteFraction: 0 });
+    expect(within(children, sorted.slice(0, population.length / 2))).toBe(true);
+  });
+
+  it('always picks the best with an overwhelming tournament', () => {
+    const children = generation({ selection: 'tournament', tournamentSize: 500, crossover: 'midpoint', mutationRate: 0, eliteFraction: 0 });
+    children.forEach(c => expect({ x: c.x, y: c.y }).toEqual({ x: sorted[0].x, y: sorted[0].y }));
+  });
+
+  it('keeps BLX-0 and arithmetic children between their parents', () => {
+    expect(within(generation({ crossover: 'blx-alpha', blxAlpha: 0, mutationRate: 0 }), population)).toBe(true);
+    expect(within(generation({ crossover: 'arithmetic', mutationRate: 0 }), population)).toBe(true);
+  });
+
+  it('lets BLX-alpha explore beyond its parents', () => {
+    const children = Array.from({ length: 10 }, (_, seed) => generation({ crossover: 'blx-alpha', blxAlpha: 1, mutationRate: 0, eliteFraction: 0 }, seed)).flat();
+    expect(within(children, sorted.slice(0, population.length / 2))).toBe(false);
+  });
+
+  it('keeps a flat population breeding under roulette selection', () => {
+    const flat = population.map(a => ({ ...a, value: 1 }));
+    const children = stepSimulation(AlgorithmType.GENETIC, flat, rastrigin, 0, { ...base, selection: 'roulette' }, createRng(1)).agents;
+    children.forEach(c => expect(Number.isFinite(c.x) && Number.isFinite(c.y)).toBe(true));
+  });
+});
@@ -1,100 +1,618 @@
-import { AlgorithmType, Landscape, Point } from '../types';
+import { AlgorithmType, Landscape, OptimizerState, Point, ProjectionPlane, SearchDistribution, StepConfig, Vector2 } from '../types';
+import { gaussian } from './random';
+import { boundsOf, costAt, pointAt, positionOf, projectOntoPlane } from './dimensions';
 
 // Helper: Random number in range
-const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
+const randomRange = (min: number, max: number, rng: () => number) => rng() * (max - min) + min;
 
 // Helper: Clamp value
 const clamp = (val: number, min: number, max: number) => Math.min(Math.max(val, min), max);
 
+// Helper: Central-difference gradient of the landscape at (x, y)
+export const numericalGradient = (landscape: Landscape, x: number, y: number): Vector2 => {
+  // Step scaled to the domain so tiny and huge landscapes get comparable accuracy
+  const hx = (landscape.maxX - landscape.minX) * 1e-5;
+  const hy = (landscape.maxY - landscape.minY) * 1e-5;
+  return {
+    x: (landscape.func(x + hx, y) - landscape.func(x - hx, y)) / (2 * hx),
+    y: (landscape.func(x, y + hy) - landscape.func(x, y - hy)) / (2 * hy),
+  };
+};
+
+// Central-difference gradient of the landscape at a full position (one entry per dimension)
+export const gradientAt = (landscape: Landscape, position: number[]): number[] => {
+  const bounds = boundsOf(landscape);
+  return position.map((x, k) => {
+    const h = (bounds[k][1] - bounds[k][0]) * 1e-5;
+    const plus = [...position];
+    const minus = [...position];
+    plus[k] = x + h;
+    minus[k] = x - h;
+    return (costAt(landscape, plus) - costAt(landscape, minus)) / (2 * h);
+  });
+};
+
+// Helper: Per-agent zero vectors, reusing existing memory when the population size and dimension match
+const memoryFor = (memory: number[][] | undefined, count: number, n: number): number[][] =>
+  memory && memory.length === count && memory[0]?.length === n
+    ? memory
+    : Array.from({ length: count }, () => Array(n).fill(0));
+
+// Helper: Dot product
+const dot = (a: number[], b: number[]) => a.reduce((sum, x, k) => sum + x * b[k], 0);
+
+// Helper: n x n identity
+const identity = (n: number): number[][] => Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+// Helper: Uniformly random unit vector (2D draws an angle, so seeded 2D runs match earlier versions)
+const randomDirection = (n: number, rng: () => number): number[] => {
+  if (n === 2) {
+    const angle = rng() * Math.PI * 2;
+    return [Math.cos(angle), Math.sin(angle)];
+  }
+  const g = Array.from({ length: n }, () => gaussian(rng));
+  const length = Math.hypot(...g) || 1;
+  return g.map(x => x / length);
+};
+
+// Helper: Eigen-decomposition of a symmetric 2x2 matrix [[xx, xy], [xy, yy]]
+// Returns eigenvalues (major first) and the angle of the major axis
+const eigen2 = (c: { xx: number; xy: number; yy: number }) => {
+  const mid = (c.xx + c.yy) / 2;
+  const spread = Math.sqrt(((c.xx - c.yy) / 2) ** 2 + c.xy * c.xy);
+  return {
+    major: Math.max(mid + spread, 1e-20),
+    minor: Math.max(mid - spread, 1e-20),
+    angle: 0.5 * Math.atan2(2 * c.xy, c.xx - c.yy),
+  };
+};
+
+// Helper: Eigen-decomposition of a symmetric matrix, eigenvalues largest first and eigenvectors as the columns of `vectors`.
+// 2x2 uses the closed form above; larger matrices use cyclic Jacobi rotations.
+const symmetricEigen = (C: number[][]): { values: number[]; vectors: number[][] } => {
+  const n = C.length;
+  if (n === 2) {
+    const { major, minor, angle } = eigen2({ xx: C[0][0], xy: C[0][1], yy: C[1][1] });
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { values: [major, minor], vectors: [[cos, -sin], [sin, cos]] };
+  }
+  const A = C.map(row => [...row]);
+  const V = identity(n);
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    let diag = 0;
+    for (let p = 0; p < n; p++) {
+      diag += A[p][p] * A[p][p];
+      for (let q = p + 1; q < n; q++) off += A[p][q] * A[p][q];
+    }
+    if (off <= 1e-24 * diag || off === 0) break;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (A[p][q] === 0) continue;
+        // Rotation in the (p, q) plane that zeroes A[p][q]
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => A[b][b] - A[a][a]);
+  return {
+    values: order.map(i => Math.max(A[i][i], 1e-20)),
+    vectors: V.map(row => order.map(i => row[i]))
+  };
+};
+
+// Helper: Typical length of the domain, used to turn the learning rate into an initial ES step size
+const domainScale = (landscape: Landscape) => {
+  const bounds = boundsOf(landscape);
+  return bounds.reduce((sum, [lo, hi]) => sum + (hi - lo), 0) / bounds.length;
+};
+
+// The 1-sigma region an evolution strategy is sampling from, or null for other algorithms.
+// Past two dimensions, pass the view plane to get the distribution's shadow on it.
+export const searchDistribution = (state: OptimizerState, center?: Point, plane?: ProjectionPlane): SearchDistribution | null => {
+  if (state.sigma === undefined) return null;
+  if (state.covariance && state.mean) {
+    const C = state.covariance;
+    // Covariance within the plane: u^T C u, u^T C v, v^T C v (the x / y block without one)
+    const form = (a: number[], b: number[]) => dot(a, C.map(row => dot(row, b)));
+    const { major, minor, angle } = eigen2(plane
+      ? { xx: form(plane.u, plane.u), xy: form(plane.u, plane.v), yy: form(plane.v, plane.v) }
+      : { xx: C[0][0], xy: C[0][1], yy: C[1][1] });
+    return {
+      center: plane ? projectOntoPlane(plane, state.mean) : { x: state.mean[0], y: state.mean[1] },
+      radii: { x: state.sigma * Math.sqrt(major), y: state.sigma * Math.sqrt(minor) },
+      angle,
+    };
+  }
+  // (1+1)-ES: isotropic circle around the single agent (a CMA-ES frame replayed without its covariance has no shape)
+  if (!center || state.mean) return null;
+  return {
+    center: plane ? projectOntoPlane(plane, positionOf(center)) : { x: center.x, y: center.y },
+    radii: { x: state.sigma, y: state.sigma },
+    angle: 0
+  };
+};
+
+// Linear cooling stops just short of zero so the Metropolis test stays defined
+const MIN_TEMPERATURE_FRACTION = 1e-3;
+
+// Annealing temperature after `step` steps of cooling from config.temperature.
+// The adaptive schedule depends on the run's acceptance rate, so it is advanced in stepSimulation instead.
+export const coolingTemperature = (config: StepConfig, step: number): number => {
+  const t0 = config.temperature;
+  switch (config.coolingSchedule) {
+    case 'linear':
+      return t0 * Math.max(1 - step / config.horizon, MIN_TEMPERATURE_FRACTION);
+    case 'exponential':
+      return t0 * Math.pow(config.coolingAlpha, step);
+    case 'logarithmic':
+      return t0 * Math.LN2 / Math.log(step + 2);
+    case 'lundy-mees':
+      // Closed form of T_{k+1} = T_k / (1 + beta T_k)
+      return t0 / (1 + step * config.coolingBeta * t0);
+    case 'adaptive':
+      return t0;
+    case 'inverse':
+    default:
+      return t0 / (1 + step * 0.1);
+  }
+};
+
+// Helper: Nudge the temperature toward a target acceptance ratio (adaptive schedule)
+const adaptTemperature = (temperature: number, acceptanceRate: number, target: number) =>
+  acceptanceRate > target ? temperature * 0.95 : temperature / 0.95;
+
+// Helper: Parent picker for one generation; `sorted` is best first (lowest cost)
+const parentSelector = (sorted: Point[], config: StepConfig, rng: () => number): (() => Point) => {
+  const n = sorted.length;
+  switch (config.selection) {
+    case 'tournament':
+      // Best of k uniformly drawn contestants (with replacement)
+      return () => {
+        let winner = sorted[Math.floor(rng() * n)];
+        for (let i = 1; i < config.tournamentSize; i++) {
+          const contestant = sorted[Math.floor(rng() * n)];
+          if (contestant.value < winner.value) winner = contestant;
+        }
+        return winner;
+      };
+    case 'roulette':
+    case 'rank': {
+      // Roulette: weight by how far below the worst cost an agent sits. Rank: weight n for the best down to 1.
+      const worst = sorted[n - 1].value;
+      const weights = config.selection === 'rank'
+        ? sorted.map((_, i) => n - i)
+        : sorted.map(a => worst - a.value);
+      const total = weights.reduce((a, b) => a + b, 0);
+      return () => {
+        if (!(total > 0)) return sorted[Math.floor(rng() * n)]; // Flat population: any parent will do
+        let r = rng() * total;
+        for (let i = 0; i < n; i++) {
+          r -= weights[i];
+          if (r < 0) return sorted[i];
+        }
+        return sorted[n - 1];
+      };
+    }
+    case 'truncation':
+    default:
+      // Uniform over the better half
+      return () => sorted[Math.floor(rng() * (n / 2))];
+  }
+};
+
+// Helper: One child gene from two parent genes (the midpoint / arithmetic cases blend whole vectors instead)
+const crossoverGene = (a: number, b: number, config: StepConfig, rng: () => number): number => {
+  if (config.crossover === 'blx-alpha') {
+    const d = Math.abs(a - b);
+    return randomRange(Math.min(a, b) - config.blxAlpha * d, Math.max(a, b) + config.blxAlpha * d, rng);
+  }
+  // SBX: spread factor drawn so children sit near the parents, then keep one of the two children at random
+  const u = rng();
+  const beta = u <= 0.5
+    ? Math.pow(2 * u, 1 / (config.sbxEta + 1))
+    : Math.pow(1 / (2 * (1 - u)), 1 / (config.sbxEta + 1));
+  const sign = rng() < 0.5 ? 1 : -1;
+  return 0.5 * ((a + b) + sign * beta * (a - b));
+};
+
+// Helper: Polynomial mutation of one gene inside [lo, hi] (Deb & Goyal)
+const polynomialMutation = (x: number, lo: number, hi: number, eta: number, rng: () => number): number => {
+  const range = hi - lo;
+  const u = rng();
+  const power = 1 / (eta + 1);
+  if (u < 0.5) {
+    const xy = 1 - (x - lo) / range;
+    return x + (Math.pow(2 * u + (1 - 2 * u) * Math.pow(xy, eta + 1), power) - 1) * range;
+  }
+  const xy = 1 - (hi - x) / range;
+  return x + (1 - Math.pow(2 * (1 - u) + 2 * (u - 0.5) * Math.pow(xy, eta + 1), power)) * range;
+};
+
+// Uniform positions across the domain, not yet evaluated
+export const randomPositions = (landscape: Landscape, count: number, rng: () => number = Math.random): number[][] => {
+  const bounds = boundsOf(landscape);
+  return Array.from({ length: count }, () => bounds.map(([lo, hi]) => randomRange(lo, hi, rng)));
+};
+
 export const stepSimulation = (
   algo: AlgorithmType,
   agents: Point[],
   landscape: Landscape,
   iteration: number,
-  config: { stepSize: number; temperature: number; mutationRate: number }
-): Point[] => {
-  const { func, minX, maxX, minY, maxY } = landscape;
+  config: StepConfig,
+  rng: () => number = Math.random, // Pass a seeded Rng for reproducible runs
+  state: OptimizerState = {}
+): { agents: Point[]; state: OptimizerState } => {
+  const bounds = boundsOf(landscape);
+  const n = bounds.length;
   const newAgents: Point[] = [];
+  let nextState: OptimizerState = {};
+
+  // Helper: Keep a position inside the domain
+  const clampPosition = (position: number[]) => position.map((x, k) => clamp(x, bounds[k][0], bounds[k][1]));
+
+  // Helper: Move an agent by a step vector, staying inside the domain
+  const moveBy = (agent: Point, step: number[]): Point =>
+    pointAt(landscape, clampPosition(positionOf(agent).map((x, k) => x + step[k])));
 
   switch (algo) {
     case AlgorithmType.GREEDY: // Simple Hill Climbing (Steepest Descent equivalent here)
     case AlgorithmType.HILL_CLIMBING:
       agents.forEach(agent => {
-        // Try moves in 4 directions
-        const directions = [
-          { dx: config.stepSize, dy: 0 },
-          { dx: -config.stepSize, dy: 0 },
-          { dx: 0, dy: config.stepSize },
-          { dx: 0, dy: -config.stepSize },
-        ];
-        
+        // Try a step either way along every axis
+        const position = positionOf(agent);
         let bestMove = { ...agent };
-        
-        for (const dir of directions) {
-          const nx = clamp(agent.x + dir.dx, minX, maxX);
-          const ny = clamp(agent.y + dir.dy, minY, maxY);
-          const nVal = func(nx, ny);
-          
-          if (nVal < bestMove.value) {
-            bestMove = { x: nx, y: ny, value: nVal };
+
+        for (let k = 0; k < n; k++) {
+          for (const sign of [1, -1]) {
+            const candidate = [...position];
+            candidate[k] = clamp(position[k] + sign * config.stepSize, bounds[k][0], bounds[k][1]);
+            const moved = pointAt(landscape, candidate);
+
+            if (moved.value < bestMove.value) {
+              bestMove = moved;
+            }
           }
         }
         newAgents.push(bestMove);
       });
       break;
 
-    case AlgorithmType.SIMULATED_ANNEALING:
+    case AlgorithmType.SIMULATED_ANNEALING: {
+      const coolingStep = state.coolingStep ?? 0;
+      const currentTemp = config.coolingSchedule === 'adaptive' && coolingStep > 0 && state.temperature !== undefined
+        ? adaptTemperature(state.temperature, state.acceptanceRate ?? 1, config.targetAcceptance)
+        : coolingTemperature(config, coolingStep);
+      let accepted = 0;
+
       agents.forEach(agent => {
         // Generate random neighbor
-        const angle = Math.random() * Math.PI * 2;
-        const dist = config.stepSize;
-        const nx = clamp(agent.x + Math.cos(angle) * dist, minX, maxX);
-        const ny = clamp(agent.y + Math.sin(angle) * dist, minY, maxY);
-        const nVal = func(nx, ny);
+        const direction = randomDirection(n, rng);
+        const candidate = moveBy(agent, direction.map(d => d * config.stepSize));
 
-        const currentTemp = config.temperature / (1 + iteration * 0.1);
-        const delta = nVal - agent.value;
+        const delta = candidate.value - agent.value;
 
         // Metropolis Criterion: Accept if better, or if lucky based on temp
-        if (delta < 0 || Math.random() < Math.exp(-delta / currentTemp)) {
-          newAgents.push({ x: nx, y: ny, value: nVal });
+        if (delta < 0 || rng() < Math.exp(-delta / currentTemp)) {
+          newAgents.push(candidate);
+          accepted++;
         } else {
           newAgents.push(agent);
         }
       });
+
+      // Smooth the acceptance rate so a single agent's accept/reject coin flips read as a trend
+      const rate = accepted / agents.length;
+      const acceptanceRate = state.acceptanceRate === undefined ? rate : 0.9 * state.acceptanceRate + 0.1 * rate;
+
+      // Reheat: after too long without a new best, restart the schedule from the initial temperature
+      const stepBest = Math.min(...newAgents.map(a => a.value));
+      const improved = state.annealBest === undefined || stepBest < state.annealBest;
+      const sinceImprovement = improved ? 0 : (state.sinceImprovement ?? 0) + 1;
+      const reheat = config.reheatWindow > 0 && sinceImprovement >= config.reheatWindow;
+
+      nextState = {
+        temperature: currentTemp,
+        acceptanceRate,
+        coolingStep: reheat ? 0 : coolingStep + 1,
+        annealBest: improved ? stepBest : state.annealBest,
+        sinceImprovement: reheat ? 0 : sinceImprovement,
+        reheats: (state.reheats ?? 0) + (reheat ? 1 : 0)
+      };
       break;
+    }
 
-    case AlgorithmType.GENETIC:
+    case AlgorithmType.GENETIC: {
+      // Individuals without an id (a population from before tracking began) are numbered in population order
+      const population = agents.map((a, i) => (a.id === undefined ? { ...a, id: i, parents: [] } : a));
+      let nextId = state.nextId ?? population.length;
       // Sort by fitness (lowest value is best)
-      const sorted = [...agents].sort((a, b) => a.value - b.value);
-      // Elitism: Keep top 20%
-      const eliteCount = Math.floor(agents.length * 0.2);
-      const elites = sorted.slice(0, eliteCount);
-      
-      newAgents.push(...elites);
+      const sorted = [...population].sort((a, b) => a.value - b.value);
+      // Elitism: the best carry over unchanged
+      const eliteCount = Math.floor(agents.length * config.eliteFraction);
+      newAgents.push(...sorted.slice(0, eliteCount));
+
+      const selectParent = parentSelector(sorted, config, rng);
 
       // Fill rest with children
       while (newAgents.length < agents.length) {
-        // Tournament selection
-        const p1 = sorted[Math.floor(Math.random() * (sorted.length / 2))]; // Prefer better half
-        const p2 = sorted[Math.floor(Math.random() * (sorted.length / 2))];
+        const p1 = selectParent();
+        const p2 = selectParent();
+        const a = positionOf(p1);
+        const b = positionOf(p2);
 
         // Crossover
-        let childX = (p1.x + p2.x) / 2;
-        let childY = (p1.y + p2.y) / 2;
+        let child: number[];
+        if (config.crossover === 'blx-alpha' || config.crossover === 'sbx') {
+          child = a.map((x, k) => crossoverGene(x, b[k], config, rng));
+        } else {
+          const lambda = config.crossover === 'arithmetic' ? rng() : 0.5;
+          child = a.map((x, k) => lambda * x + (1 - lambda) * b[k]);
+        }
 
         // Mutation
-        if (Math.random() < config.mutationRate) {
-          childX += randomRange(-config.stepSize * 2, config.stepSize * 2);
-          childY += randomRange(-config.stepSize * 2, config.stepSize * 2);
+        if (config.mutation === 'gaussian') {
+          child = child.map(x => (rng() < config.mutationRate ? x + gaussian(rng) * config.stepSize : x));
+        } else if (config.mutation === 'polynomial') {
+          child = clampPosition(child).map((x, k) => (
+            rng() < config.mutationRate ? polynomialMutation(x, bounds[k][0], bounds[k][1], config.mutationEta, rng) : x
+          ));
+        } else if (rng() < config.mutationRate) {
+          // Uniform: every gene moves together
+          child = child.map(x => x + randomRange(-config.stepSize * 2, config.stepSize * 2, rng));
         }
 
-        childX = clamp(childX, minX, maxX);
-        childY = clamp(childY, minY, maxY);
-        newAgents.push({ x: childX, y: childY, value: func(childX, childY) });
+        newAgents.push({
+          ...pointAt(landscape, clampPosition(child)),
+          id: nextId++,
+          parents: p1.id === p2.id ? [p1.id!] : [p1.id!, p2.id!]
+        });
       }
+      nextState = { nextId };
+      break;
+    }
+
+    case AlgorithmType.GRADIENT_DESCENT:
+      // x_{t+1} = x_t - lr * grad f(x_t)
+      agents.forEach(agent => {
+        const g = gradientAt(landscape, positionOf(agent));
+        newAgents.push(moveBy(agent, g.map(gk => -config.stepSize * gk)));
+      });
+      break;
+
+    case AlgorithmType.MOMENTUM:
+    case AlgorithmType.NESTEROV: {
+      // v_{t+1} = mu * v_t - lr * grad f(x_t [+ mu * v_t for Nesterov]); x_{t+1} = x_t + v_{t+1}
+      const velocity = memoryFor(state.velocity, agents.length, n);
+      const nextVelocity: number[][] = [];
+      agents.forEach((agent, i) => {
+        const v = velocity[i];
+        const position = positionOf(agent);
+        // Nesterov looks ahead to where momentum is carrying the ball before measuring the slope
+        const g = algo === AlgorithmType.NESTEROV
+          ? gradientAt(landscape, clampPosition(position.map((x, k) => x + config.momentum * v[k])))
+          : gradientAt(landscape, position);
+        const nv = v.map((vk, k) => config.momentum * vk - config.stepSize * g[k]);
+        nextVelocity.push(nv);
+        newAgents.push(moveBy(agent, nv));
+      });
+      nextState = { velocity: nextVelocity };
+      break;
+    }
+
+    case AlgorithmType.RMSPROP: {
+      // s_{t+1} = rho * s_t + (1 - rho) * g^2; x_{t+1} = x_t - lr * g / (sqrt(s_{t+1}) + eps)
+      const second = memoryFor(state.secondMoment, agents.length, n);
+      const nextSecond: number[][] = [];
+      agents.forEach((agent, i) => {
+        const g = gradientAt(landscape, positionOf(agent));
+        const s = second[i].map((sk, k) => config.rmsDecay * sk + (1 - config.rmsDecay) * g[k] * g[k]);
+        nextSecond.push(s);
+        newAgents.push(moveBy(agent, g.map((gk, k) => -config.stepSize * gk / (Math.sqrt(s[k]) + config.epsilon))));
+      });
+      nextState = { secondMoment: nextSecond };
+      break;
+    }
+
+    case AlgorithmType.ADAM: {
+      // Momentum on the gradient (m) plus RMSProp scaling (v), both bias-corrected for the zero start
+      const first = memoryFor(state.firstMoment, agents.length, n);
+      const second = memoryFor(state.secondMoment, agents.length, n);
+      const t = (state.step || 0) + 1;
+      const correction1 = 1 - Math.pow(config.beta1, t);
+      const correction2 = 1 - Math.pow(config.beta2, t);
+      const nextFirst: number[][] = [];
+      const nextSecond: number[][] = [];
+      agents.forEach((agent, i) => {
+        const g = gradientAt(landscape, positionOf(agent));
+        const m = first[i].map((mk, k) => config.beta1 * mk + (1 - config.beta1) * g[k]);
+        const v = second[i].map((vk, k) => config.beta2 * vk + (1 - config.beta2) * g[k] * g[k]);
+        nextFirst.push(m);
+        nextSecond.push(v);
+        newAgents.push(moveBy(
+          agent,
+          m.map((mk, k) => -config.stepSize * (mk / correction1) / (Math.sqrt(v[k] / correction2) + config.epsilon))
+        ));
+      });
+      nextState = { firstMoment: nextFirst, secondMoment: nextSecond, step: t };
+      break;
+    }
+
+    case AlgorithmType.PARTICLE_SWARM: {
+      // v = w*v + c1*r1*(personal best - x) + c2*r2*(swarm best - x); x = x + v
+      const velocity = memoryFor(state.velocity, agents.length, n);
+      const personalBest = state.personalBest && state.personalBest.length === agents.length ? state.personalBest : agents;
+      let swarmBest = state.swarmBest || personalBest.reduce((best, p) => (p.value < best.value ? p : best), personalBest[0]);
+      // The learning rate caps particle speed as a fraction of the domain, which keeps the swarm from exploding
+      const vMax = bounds.map(([lo, hi]) => config.stepSize * (hi - lo));
+      const swarmPosition = positionOf(swarmBest);
+
+      const nextVelocity: number[][] = [];
+      const nextPersonalBest: Point[] = [];
+      agents.forEach((agent, i) => {
+        const v = velocity[i];
+        const pb = personalBest[i];
+        const pbPosition = positionOf(pb);
+        const nv = positionOf(agent).map((x, k) => clamp(
+          config.inertia * v[k] + config.cognitive * rng() * (pbPosition[k] - x) + config.social * rng() * (swarmPosition[k] - x),
+          -vMax[k],
+          vMax[k]
+        ));
+        const moved = moveBy(agent, nv);
+        nextVelocity.push(nv);
+        newAgents.push(moved);
+        nextPersonalBest.push(moved.value < pb.value ? moved : pb);
+      });
+      nextPersonalBest.forEach(p => {
+        if (p.value < swarmBest.value) swarmBest = p;
+      });
+      nextState = { velocity: nextVelocity, personalBest: nextPersonalBest, swarmBest };
+      break;
+    }
+
+    case AlgorithmType.DIFFERENTIAL_EVOLUTION:
+      // DE/rand/1/bin: mutant = a + F*(b - c), binomial crossover with the target, keep whichever is better
+      agents.forEach((target, i) => {
+        // Three distinct partners, none of them the target
+        const picks: number[] = [];
+        while (picks.length < 3 && agents.length > 3) {
+          const r = Math.floor(rng() * agents.length);
+          if (r !== i && !picks.includes(r)) picks.push(r);
+        }
+        if (picks.length < 3) {
+          newAgents.push(target);
+          return;
+        }
+        const [a, b, c] = picks.map(r => positionOf(agents[r]));
+        const mutant = a.map((x, k) => x + config.differentialWeight * (b[k] - c[k]));
+
+        // At least one gene always comes from the mutant so the trial differs from the target
+        const forced = Math.floor(rng() * n);
+        const trial = pointAt(landscape, positionOf(target).map((x, k) => clamp(
+          forced === k || rng() < config.crossoverRate ? mutant[k] : x,
+          bounds[k][0],
+          bounds[k][1]
+        )));
+
+        newAgents.push(trial.value <= target.value ? trial : target);
+      });
+      break;
+
+    case AlgorithmType.CMA_ES: {
+      // (mu/mu_w, lambda)-CMA-ES, following Hansen's tutorial
+      const lambda = agents.length;
+      const mu = Math.max(1, Math.floor(lambda / 2));
+      const rawWeights = Array.from({ length: mu }, (_, i) => Math.log(mu + 0.5) - Math.log(i + 1));
+      const weightSum = rawWeights.reduce((a, b) => a + b, 0);
+      const weights = rawWeights.map(w => w / weightSum);
+      const muEff = 1 / weights.reduce((a, w) => a + w * w, 0);
+
+      const cc = (4 + muEff / n) / (n + 4 + 2 * muEff / n);
+      const cs = (muEff + 2) / (n + muEff + 5);
+      const c1 = 2 / ((n + 1.3) ** 2 + muEff);
+      const cmu = Math.min(1 - c1, 2 * (muEff - 2 + 1 / muEff) / ((n + 2) ** 2 + muEff));
+      const damps = 1 + 2 * Math.max(0, Math.sqrt((muEff - 1) / (n + 1)) - 1) + cs;
+      const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+
+      // First generation starts from the best initial agent with an isotropic distribution
+      const mean = state.mean || positionOf(agents.reduce((best, a) => (a.value < best.value ? a : best), agents[0]));
+      const sigma = state.sigma ?? config.stepSize * domainScale(landscape);
+      const C = state.covariance || identity(n);
+      const pc = state.pathC || Array(n).fill(0);
+      const ps = state.pathSigma || Array(n).fill(0);
+      const generation = (state.generation || 0) + 1;
+
+      // C = B D^2 B^T
+      const { values, vectors: B } = symmetricEigen(C);
+      const D = values.map(Math.sqrt);
+      // Columns of B, for the B^T products
+      const axes = D.map((_, j) => B.map(row => row[j]));
+
+      // Sample lambda offspring: x = m + sigma * B D z
+      const offspring: { point: Point; y: number[] }[] = [];
+      for (let k = 0; k < lambda; k++) {
+        const z = D.map(d => gaussian(rng) * d);
+        const y = B.map(row => dot(row, z));
+        const sample = clampPosition(mean.map((m, i) => m + sigma * y[i]));
+        // Use the clamped step so the update reflects where the sample actually landed
+        const point = pointAt(landscape, sample);
+        offspring.push({ point, y: sample.map((x, i) => (x - mean[i]) / sigma) });
+        newAgents.push(point);
+      }
+
+      // Recombine the mu best into the new mean
+      const ranked = [...offspring].sort((a, b) => a.point.value - b.point.value).slice(0, mu);
+      const yw = ranked.reduce((acc, o, i) => acc.map((s, k) => s + weights[i] * o.y[k]), Array(n).fill(0) as number[]);
+      const nextMean = mean.map((m, k) => m + sigma * yw[k]);
+
+      // Step-size path uses C^{-1/2} y_w = B D^{-1} B^T y_w
+      const scaled = axes.map((axis, j) => dot(axis, yw) / D[j]);
+      const invSqrtYw = B.map(row => dot(row, scaled));
+      const csFactor = Math.sqrt(cs * (2 - cs) * muEff);
+      const nextPs = ps.map((p, k) => (1 - cs) * p + csFactor * invSqrtYw[k]);
+      const psNorm = Math.hypot(...nextPs);
+
+      // Stall the covariance path while the step size is still growing quickly
+      const hsig = psNorm / Math.sqrt(1 - Math.pow(1 - cs, 2 * generation)) / chiN < 1.4 + 2 / (n + 1) ? 1 : 0;
+      const ccFactor = Math.sqrt(cc * (2 - cc) * muEff);
+      const nextPc = pc.map((p, k) => (1 - cc) * p + hsig * ccFactor * yw[k]);
+
+      // Rank-one (from the path) plus rank-mu (from the selected steps) covariance update
+      const keep = 1 - c1 - cmu + (1 - hsig) * c1 * cc * (2 - cc);
+      const nextC = C.map((row, i) => row.map((cij, j) => {
+        const rankMu = ranked.reduce((acc, o, r) => acc + weights[r] * o.y[i] * o.y[j], 0);
+        return keep * cij + c1 * nextPc[i] * nextPc[j] + cmu * rankMu;
+      }));
+
+      const nextSigma = sigma * Math.exp((cs / damps) * (psNorm / chiN - 1));
+
+      nextState = {
+        mean: clampPosition(nextMean),
+        sigma: nextSigma,
+        covariance: nextC,
+        pathC: nextPc,
+        pathSigma: nextPs,
+        generation,
+      };
+      break;
+    }
+
+    case AlgorithmType.ONE_PLUS_ONE_ES: {
+      // One parent, one Gaussian child; the better survives. Rechenberg's 1/5th rule tunes sigma:
+      // grow it after a success, shrink it after a failure, balanced when 1 in 5 mutations succeed.
+      const sigma = state.sigma ?? config.stepSize * domainScale(landscape);
+      const d = 1 + n / 2; // Damping
+      const parent = agents[0];
+      const child = moveBy(parent, Array.from({ length: n }, () => sigma * gaussian(rng)));
+      const success = child.value < parent.value;
+      newAgents.push(success ? child : parent);
+      nextState = { sigma: sigma * Math.exp(((success ? 1 : 0) - 0.2) / 0.8 / d) };
       break;
+    }
   }
 
-  return newAgents;
+  return { agents: newAgents, state: nextState };
 };
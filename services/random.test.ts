@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import { createRng } from './random';
+import { randomPositions, stepSimulation } from './optimizer';
+import { pointAt } from './dimensions';
+import { toStepConfig } from './runner';
+
+const STEP_CONFIG = toStepConfig(INITIAL_CONFIG);
+
+// Helper: Agents after `steps` iterations of a run driven entirely by one seed
+const replay = (algo: AlgorithmType, seed: number, steps = 30) => {
+  const rng = createRng(seed);
+  const landscape = LANDSCAPES[1];
+  let agents = randomPositions(landscape, 20, rng).map(position => pointAt(landscape, position));
+  let state = {};
+  for (let i = 0; i < steps; i++) ({ agents, state } = stepSimulation(algo, agents, landscape, i, STEP_CONFIG, rng, state));
+  return agents;
+};
+
+describe('createRng', () => {
+  it('repeats the same stream for the same seed', () => {
+    const a = createRng(1234);
+    const b = createRng(1234);
+    expect(Array.from({ length: 100 }, a)).toEqual(Array.from({ length: 100 }, b));
+  });
+
+  it('gives different streams for different seeds', () => {
+    expect(createRng(1)()).not.toBe(createRng(2)());
+  });
+
+  it('samples uniformly in [0, 1)', () => {
+    const rng = createRng(7);
+    const samples = Array.from({ length: 10000 }, rng);
+    samples.forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+    expect(samples.reduce((a, b) => a + b, 0) / samples.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('resumes the stream from its saved state', () => {
+    const rng = createRng(99);
+    for (let i = 0; i < 10; i++) rng();
+    const resumed = createRng(rng.state());
+    expect(Array.from({ length: 20 }, resumed)).toEqual(Array.from({ length: 20 }, rng));
+  });
+});
+
+describe('seeded runs', () => {
+  it.each([AlgorithmType.HILL_CLIMBING, AlgorithmType.SIMULATED_ANNEALING, AlgorithmType.GENETIC, AlgorithmType.ADAM])('replay %s bit for bit from the seed', algo => {
+    expect(replay(algo, 42)).toEqual(replay(algo, 42));
+    expect(replay(algo, 42)).not.toEqual(replay(algo, 43));
+  });
+});
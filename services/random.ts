@@ -0,0 +1,31 @@
+// Seeded pseudo-random number generation.
+// Every stochastic choice in the simulator draws from an Rng so a run can be replayed bit for bit from its seed.
+
+export interface Rng {
+  (): number; // Uniform sample in [0, 1)
+  state: () => number; // Internal state, pass back to createRng to resume the stream
+}
+
+// Mulberry32: tiny, fast and good enough for simulation (not for cryptography)
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  const rng = (() => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as Rng;
+  rng.state = () => a;
+  return rng;
+};
+
+// Fresh seed for a new experiment (the only place Math.random is allowed)
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// Standard normal sample via Box-Muller
+export const gaussian = (rng: () => number) => {
+  const u = 1 - rng(); // (0, 1] so the log stays finite
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
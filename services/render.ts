@@ -0,0 +1,272 @@
+// Canvas drawing shared by the live Visualizer and the image / animation exporters.
+import { BasinMap, CostScale, FieldOverlays, FrameScene, HeatmapStyle, Landscape, Point, ScalarField } from '../types';
+import { generationEdges } from './lineage';
+import { colormapLut, contourLevels, contourSegments, createCostScale, evaluateField } from './heatmap';
+import { quiverArrows } from './terrain';
+
+// How many generations of parent -> child edges stay on screen, fading with age
+export const LINEAGE_DEPTH = 3;
+
+// Map real coordinates to canvas pixels (y inverted)
+export const toCanvas = (landscape: Landscape, width: number, height: number, x: number, y: number) => ({
+  x: ((x - landscape.minX) / (landscape.maxX - landscape.minX)) * width,
+  y: height - ((y - landscape.minY) / (landscape.maxY - landscape.minY)) * height
+});
+
+// Inverse of toCanvas: canvas pixels back to real coordinates
+export const fromCanvas = (landscape: Landscape, width: number, height: number, px: number, py: number) => ({
+  x: landscape.minX + (px / width) * (landscape.maxX - landscape.minX),
+  y: landscape.minY + ((height - py) / height) * (landscape.maxY - landscape.minY)
+});
+
+// Heatmap of a field in the chosen colormap and scale, with optional contour lines on top
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, field: ScalarField, scale: CostScale, style: HeatmapStyle, lineWidth = 1) => {
+  const imgData = ctx.createImageData(field.width, field.height);
+  const data = imgData.data;
+  const lut = colormapLut(style.colormap);
+
+  for (let i = 0; i < field.values.length; i++) {
+    const c = Math.round(scale.normalize(field.values[i]) * 255) * 3;
+    data[i * 4] = lut[c];
+    data[i * 4 + 1] = lut[c + 1];
+    data[i * 4 + 2] = lut[c + 2];
+    data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(imgData, 0, 0);
+
+  if (style.contours > 0) {
+    ctx.save();
+    ctx.translate(0.5, 0.5); // Samples sit at pixel centres
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    contourLevels(scale, style.contours).forEach(level => {
+      const segments = contourSegments(field, level);
+      for (let k = 0; k < segments.length; k += 4) {
+        ctx.moveTo(segments[k], segments[k + 1]);
+        ctx.lineTo(segments[k + 2], segments[k + 3]);
+      }
+    });
+    ctx.stroke();
+    ctx.restore();
+  }
+};
+
+// Helper: Distinct RGB per basin label, stepping the hue by the golden angle
+const basinColor = (label: number): [number, number, number] => {
+  const h = (label * 137.508) % 360;
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (0.55 - 0.35 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+// Basins of attraction as translucent patches, with a stronger edge where two basins meet
+export const drawBasins = (ctx: CanvasRenderingContext2D, basins: BasinMap) => {
+  const { columns, rows, cell, labels } = basins;
+  const patches = document.createElement('canvas');
+  patches.width = columns;
+  patches.height = rows;
+  const patchCtx = patches.getContext('2d');
+  if (!patchCtx) return;
+  const imgData = patchCtx.createImageData(columns, rows);
+  const data = imgData.data;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const i = r * columns + c;
+      const edge = (c + 1 < columns && labels[i + 1] !== labels[i]) || (r + 1 < rows && labels[i + columns] !== labels[i]);
+      const [red, green, blue] = basinColor(labels[i]);
+      data[i * 4] = red;
+      data[i * 4 + 1] = green;
+      data[i * 4 + 2] = blue;
+      data[i * 4 + 3] = edge ? 190 : 80;
+    }
+  }
+  patchCtx.putImageData(imgData, 0, 0);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false; // Keep cell edges crisp
+  ctx.drawImage(patches, 0, 0, columns * cell, rows * cell);
+  ctx.restore();
+};
+
+// Local minima as cyan rings, distinct from the yellow known optima
+export const drawMinima = (ctx: CanvasRenderingContext2D, landscape: Landscape, width: number, height: number, minima: Point[]) => {
+  ctx.strokeStyle = '#5AC8FA';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.lineWidth = 1.5;
+  minima.forEach(m => {
+    const p = toCanvas(landscape, width, height, m.x, m.y);
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+};
+
+// Quiver of the negative gradient: each arrow points the way a greedy step would go
+export const drawQuiver = (ctx: CanvasRenderingContext2D, landscape: Landscape, width: number, height: number) => {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.55)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  quiverArrows(landscape, width, height).forEach(({ x, y, dx, dy, length }) => {
+    const tipX = x + (dx * length) / 2;
+    const tipY = y + (dy * length) / 2;
+    const head = Math.min(5, length / 2);
+    ctx.moveTo(x - (dx * length) / 2, y - (dy * length) / 2);
+    ctx.lineTo(tipX, tipY);
+    // Arrowhead: two barbs 30 degrees either side of the shaft
+    ctx.moveTo(tipX - head * (dx * 0.866 - dy * 0.5), tipY - head * (dy * 0.866 + dx * 0.5));
+    ctx.lineTo(tipX, tipY);
+    ctx.lineTo(tipX - head * (dx * 0.866 + dy * 0.5), tipY - head * (dy * 0.866 - dx * 0.5));
+  });
+  ctx.stroke();
+};
+
+// The enabled analysis overlays, bottom to top: basins, descent arrows, local minima
+export const drawOverlays = (ctx: CanvasRenderingContext2D, landscape: Landscape, width: number, height: number, overlays: FieldOverlays, basins: BasinMap | null) => {
+  if (overlays.basins && basins) drawBasins(ctx, basins);
+  if (overlays.gradient) drawQuiver(ctx, landscape, width, height);
+  if (overlays.minima && basins) drawMinima(ctx, landscape, width, height, basins.minima);
+};
+
+// Trails, lineage edges and the search distribution (the Visualizer's middle layer)
+export const drawTrails = (ctx: CanvasRenderingContext2D, landscape: Landscape, width: number, height: number, scene: Pick<FrameScene, 'trails' | 'lineage' | 'distribution' | 'showTrails'>) => {
+  const at = (x: number, y: number) => toCanvas(landscape, width, height, x, y);
+
+  if (scene.showTrails && scene.trails.length > 0) {
+    ctx.lineWidth = 1;
+    scene.trails.forEach((trail) => {
+      if (trail.length < 2) return;
+      ctx.beginPath();
+      ctx.strokeStyle = `rgba(255, 255, 255, 0.3)`;
+
+      const start = at(trail[0].x, trail[0].y);
+      ctx.moveTo(start.x, start.y);
+
+      for (let j = 1; j < trail.length; j++) {
+        const p = at(trail[j].x, trail[j].y);
+        ctx.lineTo(p.x, p.y);
+      }
+      ctx.stroke();
+    });
+  }
+
+  // Lineage: each child linked to its parents, newest generation brightest
+  if (scene.showTrails && scene.lineage.length > 1) {
+    ctx.lineWidth = 1;
+    for (let age = LINEAGE_DEPTH - 1; age >= 0; age--) {
+      const edges = generationEdges(scene.lineage, scene.lineage.length - 1 - age);
+      ctx.strokeStyle = `rgba(52, 199, 89, ${0.6 * (1 - age / LINEAGE_DEPTH)})`;
+      ctx.beginPath();
+      edges.forEach(({ from, to }) => {
+        const a = at(from.x, from.y);
+        const b = at(to.x, to.y);
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+      });
+      ctx.stroke();
+    }
+  }
+
+  // Search distribution: drawn in landscape units, so scale the context instead of the shape
+  const distribution = scene.distribution;
+  if (distribution) {
+    const c = at(distribution.center.x, distribution.center.y);
+    ctx.save();
+    ctx.translate(c.x, c.y);
+    ctx.scale(width / (landscape.maxX - landscape.minX), -height / (landscape.maxY - landscape.minY));
+    ctx.beginPath();
+    ctx.ellipse(0, 0, distribution.radii.x, distribution.radii.y, distribution.angle, 0, Math.PI * 2);
+    ctx.restore();
+    ctx.strokeStyle = 'rgba(255, 159, 10, 0.9)';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = 'rgba(255, 159, 10, 0.9)';
+    ctx.beginPath();
+    ctx.arc(c.x, c.y, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Index of the lowest-cost agent (population order is not always sorted)
+export const bestAgentIndex = (agents: Point[]) =>
+  agents.reduce((best, a, i) => (a.value < agents[best].value ? i : best), 0);
+
+// Known optima and agents, as the Visualizer draws them with DOM elements
+export const drawMarkers = (ctx: CanvasRenderingContext2D, landscape: Landscape, width: number, height: number, agents: Point[]) => {
+  ctx.strokeStyle = '#FACC15';
+  ctx.lineWidth = 2;
+  landscape.optima.forEach(o => {
+    const p = toCanvas(landscape, width, height, o.x, o.y);
+    ctx.save();
+    ctx.translate(p.x, p.y);
+    ctx.rotate(Math.PI / 4);
+    ctx.strokeRect(-6, -6, 12, 12);
+    ctx.restore();
+  });
+
+  const bestIndex = bestAgentIndex(agents);
+  agents.forEach((agent, i) => {
+    const p = toCanvas(landscape, width, height, agent.x, agent.y);
+    const highlight = i === bestIndex && agents.length > 1;
+    ctx.fillStyle = highlight ? '#34C759' : '#FFFFFF';
+    ctx.shadowColor = highlight ? '#34C759' : 'rgba(255,255,255,0.8)';
+    ctx.shadowBlur = 8;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.shadowBlur = 0;
+};
+
+// Standard caption for exported frames
+export const frameCaption = (iteration: number, best: Point | null) => [
+  `Iteration ${iteration}`,
+  `Best f = ${best?.value.toFixed(4) ?? '—'}`
+];
+
+// Caption lines in the top-left corner, on a dark backing so they read over any heatmap
+export const drawCaption = (ctx: CanvasRenderingContext2D, lines: string[]) => {
+  ctx.font = '12px ui-monospace, SFMono-Regular, Menlo, monospace';
+  const width = Math.max(...lines.map(l => ctx.measureText(l).width)) + 16;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(8, 8, width, lines.length * 16 + 8);
+  ctx.fillStyle = '#FFFFFF';
+  lines.forEach((line, i) => ctx.fillText(line, 16, 24 + i * 16));
+};
+
+// Offscreen canvas holding the heatmap, so animations pay for it once rather than per frame
+export const heatmapCanvas = (landscape: Landscape, width: number, height: number, style: HeatmapStyle, lineWidth = 1): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const field = evaluateField(landscape, width, height);
+    drawHeatmap(ctx, field, createCostScale(field, style.scale), style, lineWidth);
+  }
+  return canvas;
+};
+
+// Composite a whole frame: heatmap at full resolution, overlays drawn in view units and scaled up
+export const renderFrame = (
+  ctx: CanvasRenderingContext2D,
+  background: CanvasImageSource,
+  landscape: Landscape,
+  width: number,
+  height: number,
+  scale: number,
+  scene: FrameScene
+) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(background, 0, 0, width * scale, height * scale);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  drawTrails(ctx, landscape, width, height, scene);
+  drawMarkers(ctx, landscape, width, height, scene.agents);
+  if (scene.caption?.length) drawCaption(ctx, scene.caption);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
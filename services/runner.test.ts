@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, OptimizationConfig, Point, SimulationFrame, SimulationState } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import {
+  advanceSimulation, applyFrame, bestSoFarArea, checkStopping, countingLandscape, createInitialState, distanceToOptimum,
+  packAgents, runHeadless, unpackAgents
+} from './runner';
+import { boundsOf, costAt, positionOf, toPoint, withDimensions } from './dimensions';
+import { randomPositions } from './optimizer';
+import { createRng } from './random';
+
+const rastrigin = LANDSCAPES.find(l => l.name === 'Rastrigin Function');
+const config: OptimizationConfig = { ...INITIAL_CONFIG, algo: AlgorithmType.GENETIC, populationSize: 8 };
+
+// Helper: Worker frame carrying the iterations from `from` (exclusive) up to `to`
+const frameBetween = (states: SimulationState[], from: number, to: number, reset = false): SimulationFrame => ({
+  reset,
+  running: true,
+  iteration: states[to].iteration,
+  bestPoint: states[to].bestPoint,
+  history: states[to].history.slice(reset ? 0 : from + 1),
+  steps: states.slice(reset ? to : from + 1, to + 1).map(s => packAgents(s.agents)),
+  rngState: states[to].rngState,
+  optimizerState: states[to].optimizerState,
+  evaluations: states[to].evaluations,
+  lastImprovement: states[to].lastImprovement,
+  stopReason: states[to].stopReason,
+  lineage: states[to].lineage.slice(reset ? 0 : states[from].lineage.length),
+  visited: states[to].visited.slice(reset ? 0 : states[from].visited.length),
+  snapshots: states.slice(reset ? to : from + 1, to + 1).map(s => ({ bestPoint: s.bestPoint, optimizerState: s.optimizerState }))
+});
+
+// Helper: Agents as the UI receives them, packed without their genealogy
+const positions = (agents: Point[]) => agents.map(({ x, y, value }) => ({ x, y, value }));
+
+// Helper: The initial state and the next `steps` iterations
+const runStates = (steps: number) => {
+  const states = [createInitialState(config, rastrigin)];
+  for (let i = 0; i < steps; i++) states.push(advanceSimulation(states[i], config, rastrigin));
+  return states;
+};
+
+describe('countingLandscape', () => {
+  it('tallies every evaluation without changing the values', () => {
+    const counter = countingLandscape(rastrigin);
+    expect(counter.landscape.func(1, 2)).toBe(rastrigin.func(1, 2));
+    counter.landscape.func(0, 0);
+    expect(counter.count()).toBe(2);
+  });
+
+  it('feeds the running evaluation total', () => {
+    const states = runStates(5);
+    expect(states[0].evaluations).toBe(config.populationSize);
+    states.slice(1).forEach((s, i) => expect(s.evaluations).toBeGreaterThan(states[i].evaluations));
+  });
+});
+
+describe('checkStopping', () => {
+  const start = createInitialState(config, rastrigin);
+  const far = { ...start, bestPoint: { x: 3, y: 3, value: 18 } };
+  const reached = { ...start, bestPoint: { x: 0, y: 0, value: 0.05 } };
+
+  it('keeps going while no criterion applies', () => {
+    expect(checkStopping(far, config, rastrigin)).toBeNull();
+  });
+
+  it('stops at the iteration limit, and resumes if it is raised', () => {
+    const done = { ...far, iteration: config.maxIterations };
+    expect(checkStopping(done, config, rastrigin)).toBe('max-iterations');
+    expect(checkStopping(done, { ...config, maxIterations: config.maxIterations + 1 }, rastrigin)).toBeNull();
+  });
+
+  it('stops on tolerance only when asked to', () => {
+    expect(checkStopping(reached, config, rastrigin)).toBeNull();
+    expect(checkStopping(reached, { ...config, stopOnTolerance: true, tolerance: 0.1 }, rastrigin)).toBe('tolerance');
+    expect(checkStopping(reached, { ...config, stopOnTolerance: true, tolerance: 0.01 }, rastrigin)).toBeNull();
+  });
+
+  it('stops on the evaluation budget', () => {
+    expect(checkStopping({ ...far, evaluations: 500 }, { ...config, evaluationBudget: 500 }, rastrigin)).toBe('budget');
+    expect(checkStopping({ ...far, evaluations: 499 }, { ...config, evaluationBudget: 500 }, rastrigin)).toBeNull();
+  });
+
+  it('stops after a window without improvement', () => {
+    const stuck = { ...far, iteration: 30, lastImprovement: 10 };
+    expect(checkStopping(stuck, { ...config, stagnationWindow: 20 }, rastrigin)).toBe('stagnation');
+    expect(checkStopping(stuck, { ...config, stagnationWindow: 21 }, rastrigin)).toBeNull();
+  });
+
+  it('stops when the population collapses', () => {
+    const collapsed = { ...far, agents: far.agents.map(() => ({ x: 1, y: 1, value: 2 })) };
+    expect(checkStopping(collapsed, { ...config, diversityThreshold: 0.01 }, rastrigin)).toBe('diversity');
+    expect(checkStopping(far, { ...config, diversityThreshold: 0.01 }, rastrigin)).toBeNull();
+  });
+
+  it('ignores the iteration limit when capped by evaluations', () => {
+    const capped = { ...config, limitBy: 'evaluations' as const, evaluationBudget: 5000 };
+    expect(checkStopping({ ...far, iteration: config.maxIterations }, capped, rastrigin)).toBeNull();
+    expect(checkStopping({ ...far, iteration: config.maxIterations }, { ...capped, evaluationBudget: 0 }, rastrigin)).toBe('max-iterations');
+  });
+
+  it('ends headless runs on the first criterion to fire', () => {
+    const budget = runHeadless({ ...config, evaluationBudget: 100 }, rastrigin);
+    expect(budget.stopReason).toBe('budget');
+    expect(budget.evaluations).toBeGreaterThanOrEqual(100);
+    expect(budget.iteration).toBeLessThan(config.maxIterations);
+  });
+});
+
+describe('bestSoFarArea', () => {
+  it('sums the best-so-far gap to the optimum over the run', () => {
+    const history = [5, 3, 4, 1].map((cost, iteration) => ({ iteration, cost, evaluations: iteration, elapsedMs: 0 }));
+    expect(bestSoFarArea(history, 1)).toBe(4 + 2 + 2 + 0);
+  });
+
+  it('rewards reaching the optimum sooner', () => {
+    const fast = [4, 0, 0, 0].map((cost, iteration) => ({ iteration, cost, evaluations: iteration, elapsedMs: 0 }));
+    const slow = [4, 4, 4, 0].map((cost, iteration) => ({ iteration, cost, evaluations: iteration, elapsedMs: 0 }));
+    expect(bestSoFarArea(fast, 0)).toBeLessThan(bestSoFarArea(slow, 0));
+  });
+});
+
+describe('distanceToOptimum', () => {
+  it('measures to the nearest listed optimum', () => {
+    const twoMinima = { ...rastrigin, optima: [{ x: 0, y: 0 }, { x: 3, y: 4 }] };
+    expect(distanceToOptimum(twoMinima, { x: 3, y: 0, value: 0 })).toBe(3);
+    expect(distanceToOptimum(twoMinima, { x: 6, y: 8, value: 0 })).toBe(5);
+  });
+
+  it('is null without a point or known optima', () => {
+    expect(distanceToOptimum(rastrigin, null)).toBeNull();
+    expect(distanceToOptimum({ ...rastrigin, optima: [] }, { x: 0, y: 0, value: 0 })).toBeNull();
+  });
+});
+
+describe('packAgents', () => {
+  it('round-trips agents through a flat buffer', () => {
+    const agents = [{ x: 1.5, y: -2, value: 3.25 }, { x: 0, y: 4e-9, value: -1 }];
+    const packed = packAgents(agents);
+    expect(packed).toHaveLength(1 + 2 * 3);
+    expect(unpackAgents(packed)).toEqual(agents);
+  });
+});
+
+describe('placed starts', () => {
+  const single: OptimizationConfig = { ...INITIAL_CONFIG, algo: AlgorithmType.HILL_CLIMBING };
+
+  it('start single-agent runs where they were placed, clamped to the domain', () => {
+    const state = createInitialState({ ...single, startPositions: [{ x: 1, y: -9 }] }, rastrigin);
+    expect(state.agents).toEqual([{ x: 1, y: rastrigin.minY, value: rastrigin.func(1, rastrigin.minY) }]);
+  });
+
+  it('keep the latest placements when there are more than agents', () => {
+    const state = createInitialState({ ...single, startPositions: [{ x: 1, y: 1 }, { x: 2, y: 2 }] }, rastrigin);
+    expect(state.agents.map(a => [a.x, a.y])).toEqual([[2, 2]]);
+  });
+
+  it('take the place of the last random draws, evaluating only the kept starts', () => {
+    const random = createInitialState(config, rastrigin);
+    const placed = createInitialState({ ...config, startPositions: [{ x: 0.5, y: 0.5 }, { x: -1, y: 2 }] }, rastrigin);
+    expect(placed.agents).toHaveLength(random.agents.length);
+    expect(placed.agents.map(a => [a.x, a.y])).toEqual(expect.arrayContaining([[0.5, 0.5], [-1, 2]]));
+    const draws = randomPositions(rastrigin, random.agents.length, createRng(config.seed));
+    draws.slice(0, draws.length - 2).forEach(([x, y]) => expect(placed.agents.some(a => a.x === x && a.y === y)).toBe(true));
+    expect(placed.evaluations).toBe(placed.agents.length);
+    expect(placed.rngState).toBe(random.rngState);
+  });
+});
+
+describe('n-dimensional runs', () => {
+  const rastrigin5 = withDimensions(rastrigin, 5);
+
+  it('packs every coordinate', () => {
+    const agents = [toPoint([1, 2, 3, 4, 5], 6), toPoint([-1, 0, 0.5, 2, -3], 1)];
+    const packed = packAgents(agents);
+    expect(packed).toHaveLength(1 + 2 * 6);
+    expect(unpackAgents(packed)).toEqual(agents);
+  });
+
+  it.each(Object.values(AlgorithmType))('%s searches every dimension inside the bounds', algo => {
+    const { agents, bestPoint } = runHeadless({ ...INITIAL_CONFIG, algo, dimensions: 5, maxIterations: 20 }, rastrigin5);
+    const bounds = boundsOf(rastrigin5);
+    agents.forEach(a => {
+      const position = positionOf(a);
+      expect(position).toHaveLength(5);
+      position.forEach((v, k) => {
+        expect(v).toBeGreaterThanOrEqual(bounds[k][0]);
+        expect(v).toBeLessThanOrEqual(bounds[k][1]);
+      });
+      expect(a.value).toBeCloseTo(costAt(rastrigin5, position), 9);
+    });
+    expect(Number.isFinite(bestPoint.value)).toBe(true);
+  });
+});
+
+describe('advanceSimulation', () => {
+  it('is a pure function of the previous state, apart from timing', () => {
+    const start = createInitialState(config, rastrigin);
+    const untimed = (s: SimulationState) => ({ ...s, history: s.history.map(h => ({ ...h, elapsedMs: 0 })) });
+    expect(untimed(advanceSimulation(start, config, rastrigin))).toEqual(untimed(advanceSimulation(start, config, rastrigin)));
+  });
+
+  it('records cumulative evaluations and compute time in the history', () => {
+    const states = runStates(5);
+    states.forEach(s => expect(s.history[s.history.length - 1].evaluations).toBe(s.evaluations));
+    const { history } = states[5];
+    history.slice(1).forEach((h, i) => expect(h.elapsedMs).toBeGreaterThanOrEqual(history[i].elapsedMs));
+  });
+});
+
+describe('applyFrame', () => {
+  const states = runStates(6);
+
+  it('rebuilds the same state from batched frames as from stepping directly', () => {
+    let ui = applyFrame(states[0], frameBetween(states, 0, 0, true), config.algo);
+    ui = applyFrame(ui, frameBetween(states, 0, 2), config.algo);
+    ui = applyFrame(ui, frameBetween(states, 2, 6), config.algo);
+    const { running, ...expected } = states[6];
+    const { running: _, ...actual } = ui;
+    expect(actual).toEqual({ ...expected, agents: positions(expected.agents), trails: expected.trails.map(positions) });
+  });
+
+  it('starts over on a reset frame', () => {
+    const ui = applyFrame(states[6], frameBetween(states, 0, 0, true), config.algo);
+    expect(ui.history).toEqual(states[0].history);
+    expect(ui.agents).toEqual(positions(states[0].agents));
+    expect(ui.trails).toEqual(positions(states[0].agents).map(a => [a]));
+    expect(ui.lineage).toEqual(states[0].lineage);
+  });
+
+  it('takes restored trails as given', () => {
+    const trails = states[6].trails.map(t => t.slice(-1));
+    const ui = applyFrame(states[0], { ...frameBetween(states, 6, 6, true), trails }, config.algo);
+    expect(ui.trails).toEqual(trails);
+  });
+});
@@ -0,0 +1,289 @@
+import { AlgorithmType, Landscape, OptimizationConfig, Point, SimulationFrame, SimulationState, StepConfig, StopReason, Vector2 } from '../types';
+import { POPULATION_ALGORITHMS } from '../constants';
+import { randomPositions, stepSimulation } from './optimizer';
+import { createRng } from './random';
+import { boundsOf, dimensionsOf, optimaPositions, pointAt, positionOf, toPoint } from './dimensions';
+import { toLineageNode } from './lineage';
+import { explorationMetrics, markVisited } from './metrics';
+
+// Helper: Number of agents an algorithm works with
+export const agentCount = (config: OptimizationConfig) =>
+  POPULATION_ALGORITHMS.includes(config.algo) ? (config.populationSize || 20) : 1;
+
+// Helper: Map the UI config onto the knobs stepSimulation understands
+export const toStepConfig = (config: OptimizationConfig): StepConfig => ({
+  stepSize: config.learningRate,
+  temperature: config.temperature || 100,
+  mutationRate: config.mutationRate || 0.1,
+  momentum: config.momentum ?? 0.9,
+  rmsDecay: config.rmsDecay ?? 0.9,
+  beta1: config.beta1 ?? 0.9,
+  beta2: config.beta2 ?? 0.999,
+  epsilon: config.epsilon ?? 1e-8,
+  inertia: config.inertia ?? 0.7,
+  cognitive: config.cognitive ?? 1.5,
+  social: config.social ?? 1.5,
+  differentialWeight: config.differentialWeight ?? 0.8,
+  crossoverRate: config.crossoverRate ?? 0.9,
+  coolingSchedule: config.coolingSchedule || 'inverse',
+  coolingAlpha: config.coolingAlpha ?? 0.95,
+  coolingBeta: config.coolingBeta ?? 0.01,
+  targetAcceptance: config.targetAcceptance ?? 0.4,
+  reheatWindow: config.reheatWindow ?? 0,
+  selection: config.selection || 'truncation',
+  tournamentSize: config.tournamentSize ?? 3,
+  crossover: config.crossover || 'midpoint',
+  blxAlpha: config.blxAlpha ?? 0.5,
+  sbxEta: config.sbxEta ?? 15,
+  mutation: config.mutation || 'uniform',
+  mutationEta: config.mutationEta ?? 20,
+  eliteFraction: config.eliteFraction ?? 0.2,
+  // Annealing spends one evaluation per agent per step, so an evaluation cap converts directly to steps
+  horizon: config.limitBy === 'evaluations' && config.evaluationBudget
+    ? Math.ceil(config.evaluationBudget / agentCount(config))
+    : config.maxIterations
+});
+
+// Extend each agent's trail with its new position
+export const appendTrails = (trails: Point[][], agents: Point[], algo: AlgorithmType): Point[][] => {
+  if (algo === AlgorithmType.GENETIC) {
+    // Population slots aren't individuals, so a per-slot path would join strangers; lineage edges are drawn instead
+    return agents.map(a => [a]);
+  }
+  return trails.map((trail, i) => {
+    if (trail.length > 100) return [...trail.slice(1), agents[i]];
+    return [...trail, agents[i]];
+  });
+};
+
+// Helper: Same landscape, but every call to func (or evaluate, past two dimensions) is tallied
+export const countingLandscape = (landscape: Landscape) => {
+  let count = 0;
+  const counted: Landscape = {
+    ...landscape,
+    func: (x, y) => {
+      count++;
+      return landscape.func(x, y);
+    },
+    evaluate: landscape.evaluate && ((v) => {
+      count++;
+      return landscape.evaluate(v);
+    })
+  };
+  return { landscape: counted, count: () => count };
+};
+
+// RMS distance of the agents from their centroid, as a fraction of the domain diagonal (0 for a single agent)
+export const populationSpread = (agents: Point[], landscape: Landscape): number => {
+  if (agents.length < 2) return 0;
+  const positions = agents.map(positionOf);
+  const centroid = positions[0].map((_, k) => positions.reduce((s, p) => s + p[k], 0) / positions.length);
+  const meanSq = positions.reduce((s, p) => s + p.reduce((d, x, k) => d + (x - centroid[k]) ** 2, 0), 0) / positions.length;
+  return Math.sqrt(meanSq) / Math.hypot(...boundsOf(landscape).map(([lo, hi]) => hi - lo));
+};
+
+// Has the run's best cost come within tolerance of the known optimum?
+export const hasConverged = (state: SimulationState, config: OptimizationConfig, landscape: Landscape) =>
+  state.bestPoint !== null && state.bestPoint.value - landscape.globalMin <= (config.tolerance ?? 0.1);
+
+// The first stopping criterion that applies to a state, or null to keep going.
+// Evaluated against the current config, so raising a limit lets a stopped run continue.
+export const checkStopping = (state: SimulationState, config: OptimizationConfig, landscape: Landscape): StopReason | null => {
+  if (config.stopOnTolerance && hasConverged(state, config, landscape)) return 'tolerance';
+  if (config.evaluationBudget && state.evaluations >= config.evaluationBudget) return 'budget';
+  if (config.stagnationWindow && state.iteration - state.lastImprovement >= config.stagnationWindow) return 'stagnation';
+  if (config.diversityThreshold && state.agents.length > 1 && populationSpread(state.agents, landscape) < config.diversityThreshold) return 'diversity';
+  // A run capped by evaluations ignores maxIterations, unless there is no budget to cap it
+  if ((config.limitBy !== 'evaluations' || !config.evaluationBudget) && state.iteration >= config.maxIterations) return 'max-iterations';
+  return null;
+};
+
+// Helper: Random starts, with any hand-placed ones taking the place of the last random draws.
+// Every random position is drawn either way, so the RNG stream is the same, but only the starts kept are evaluated.
+// Starts are placed on the 2D view, so they only apply to 2D landscapes.
+const startingAgents = (landscape: Landscape, count: number, rng: () => number, starts: Vector2[] = []): Point[] => {
+  const random = randomPositions(landscape, count, rng);
+  const placed = dimensionsOf(landscape) > 2 ? [] : starts.slice(-count).map(({ x, y }) => [
+    Math.min(landscape.maxX, Math.max(landscape.minX, x)),
+    Math.min(landscape.maxY, Math.max(landscape.minY, y))
+  ]);
+  return [...placed, ...random.slice(0, count - placed.length)]
+    .map(position => pointAt(landscape, position))
+    .sort((a, b) => a.value - b.value);
+};
+
+export const createInitialState = (config: OptimizationConfig, landscape: Landscape): SimulationState => {
+  const rng = createRng(config.seed);
+  const counter = countingLandscape(landscape);
+  const genetic = config.algo === AlgorithmType.GENETIC;
+  const placed = startingAgents(counter.landscape, agentCount(config), rng, config.startPositions);
+  const agents = genetic ? placed.map((a, i) => ({ ...a, id: i, parents: [] })) : placed;
+
+  const visited = markVisited([], agents, landscape);
+
+  const state: SimulationState = {
+    running: false,
+    iteration: 0,
+    bestPoint: agents[0],
+    history: [{
+      iteration: 0,
+      cost: agents[0].value,
+      evaluations: counter.count(),
+      elapsedMs: 0,
+      ...explorationMetrics(agents, landscape, visited, [], agents[0].value, 0)
+    }],
+    agents,
+    trails: agents.map(a => [a]), // Each agent starts with its initial position
+    rngState: rng.state(),
+    optimizerState: {},
+    evaluations: counter.count(),
+    lastImprovement: 0,
+    stopReason: null,
+    lineage: genetic ? [agents.map(toLineageNode)] : [],
+    visited
+  };
+  return { ...state, stopReason: checkStopping(state, config, landscape) };
+};
+
+// One iteration as a pure function of the previous state
+export const advanceSimulation = (
+  prev: SimulationState,
+  config: OptimizationConfig,
+  landscape: Landscape,
+  trackTrails = true
+): SimulationState => {
+  // Resume the RNG stream from state so callers can replay or re-run any step
+  const rng = createRng(prev.rngState);
+  const counter = countingLandscape(landscape);
+  const started = performance.now();
+  const { agents: nextAgents, state: optimizerState } = stepSimulation(
+    config.algo, prev.agents, counter.landscape, prev.iteration, toStepConfig(config), rng, prev.optimizerState
+  );
+  const stepMs = performance.now() - started;
+  const last = prev.history[prev.history.length - 1];
+
+  const nextTrails = trackTrails ? appendTrails(prev.trails, nextAgents, config.algo) : prev.trails;
+
+  // Calculate stats
+  const currentBest = nextAgents.reduce((best, a) => (a.value < best.value ? a : best), nextAgents[0]);
+  const improved = !prev.bestPoint || currentBest.value < prev.bestPoint.value;
+  const globalBest = improved ? currentBest : prev.bestPoint;
+  const visited = markVisited(prev.visited, nextAgents, landscape);
+
+  const next: SimulationState = {
+    ...prev,
+    iteration: prev.iteration + 1,
+    agents: nextAgents,
+    bestPoint: globalBest,
+    history: [...prev.history, {
+      iteration: prev.iteration + 1,
+      cost: currentBest.value,
+      evaluations: prev.evaluations + counter.count(),
+      elapsedMs: (last?.elapsedMs ?? 0) + stepMs,
+      temperature: optimizerState.temperature,
+      acceptance: optimizerState.acceptanceRate,
+      ...explorationMetrics(nextAgents, landscape, visited, prev.history, globalBest.value, prev.iteration + 1)
+    }],
+    trails: nextTrails,
+    rngState: rng.state(),
+    optimizerState,
+    evaluations: prev.evaluations + counter.count(),
+    lastImprovement: improved ? prev.iteration + 1 : prev.lastImprovement,
+    lineage: config.algo === AlgorithmType.GENETIC ? [...prev.lineage, nextAgents.map(toLineageNode)] : prev.lineage,
+    visited
+  };
+  return { ...next, stopReason: checkStopping(next, config, landscape) };
+};
+
+// Run a config to completion without any UI loop
+export const runHeadless = (config: OptimizationConfig, landscape: Landscape): SimulationState => {
+  let state = createInitialState(config, landscape);
+  while (!state.stopReason) {
+    state = advanceSimulation(state, config, landscape, false);
+  }
+  return state;
+};
+
+// First iteration at which the best-so-far cost came within tolerance of the known optimum, or null
+export const iterationsToThreshold = (
+  history: SimulationState['history'],
+  globalMin: number,
+  tolerance: number
+): number | null => {
+  let bestSoFar = Infinity;
+  for (const h of history) {
+    bestSoFar = Math.min(bestSoFar, h.cost);
+    if (bestSoFar - globalMin <= tolerance) return h.iteration;
+  }
+  return null;
+};
+
+// Area under the best-so-far curve above the known optimum; lower means it got close sooner
+export const bestSoFarArea = (history: SimulationState['history'], globalMin: number): number => {
+  let bestSoFar = Infinity;
+  let area = 0;
+  for (const h of history) {
+    bestSoFar = Math.min(bestSoFar, h.cost);
+    area += bestSoFar - globalMin;
+  }
+  return area;
+};
+
+// Euclidean distance from a point to the nearest known optimum, or null if the landscape lists none
+export const distanceToOptimum = (landscape: Landscape, point: Point | null): number | null => {
+  const optima = optimaPositions(landscape);
+  if (!point || optima.length === 0) return null;
+  const position = positionOf(point);
+  return Math.min(...optima.map(o => Math.hypot(...o.map((x, k) => position[k] - x))));
+};
+
+// --- Worker frames ---
+
+// Layout: [dimensions, then each agent's coordinates followed by its cost]
+export const packAgents = (agents: Point[]): Float64Array => {
+  const n = agents.length > 0 ? positionOf(agents[0]).length : 2;
+  const packed = new Float64Array(1 + agents.length * (n + 1));
+  packed[0] = n;
+  agents.forEach((a, i) => {
+    packed.set(positionOf(a), 1 + i * (n + 1));
+    packed[1 + i * (n + 1) + n] = a.value;
+  });
+  return packed;
+};
+
+export const unpackAgents = (packed: Float64Array): Point[] => {
+  const n = packed[0];
+  const agents: Point[] = [];
+  for (let i = 1; i < packed.length; i += n + 1) {
+    agents.push(toPoint(Array.from(packed.subarray(i, i + n)), packed[i + n]));
+  }
+  return agents;
+};
+
+// Fold a frame streamed from the simulation worker into the UI-side state
+export const applyFrame = (prev: SimulationState, frame: SimulationFrame, algo: AlgorithmType): SimulationState => {
+  let agents = frame.reset ? [] : prev.agents;
+  let trails = frame.reset ? [] : prev.trails;
+
+  for (const step of frame.steps) {
+    agents = unpackAgents(step);
+    trails = trails.length === 0 ? agents.map(a => [a]) : appendTrails(trails, agents, algo);
+  }
+  if (frame.trails) trails = frame.trails;
+
+  return {
+    running: frame.running,
+    iteration: frame.iteration,
+    bestPoint: frame.bestPoint,
+    history: frame.reset ? frame.history : [...prev.history, ...frame.history],
+    agents,
+    trails,
+    rngState: frame.rngState,
+    optimizerState: frame.optimizerState,
+    evaluations: frame.evaluations,
+    lastImprovement: frame.lastImprovement,
+    stopReason: frame.stopReason,
+    lineage: frame.reset ? frame.lineage : [...prev.lineage, ...frame.lineage],
+    visited: frame.reset ? frame.visited : [...prev.visited, ...frame.visited]
+  };
+};
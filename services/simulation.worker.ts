@@ -0,0 +1,203 @@
+// Runs the optimizer loop off the main thread and streams compact frames back to the UI.
+import { CustomLandscapeDefinition, Landscape, OptimizationConfig, Point, SimulationCommand, SimulationError, SimulationFrame, SimulationState, StepSnapshot } from '../types';
+import { LANDSCAPES } from '../constants';
+import { advanceSimulation, checkStopping, createInitialState, packAgents } from './runner';
+import { buildLandscape } from './customLandscapes';
+import { positionOf, toPoint, withDimensions } from './dimensions';
+import { replayState } from './timeline';
+
+const ctx = self as unknown as Worker;
+
+// Custom landscapes arrive as source text since functions can't cross the worker boundary;
+// scalable ones are rebuilt at the config's dimension count
+const resolveLandscape = (name: string, dimensions: number | undefined, custom?: CustomLandscapeDefinition): Landscape | null => {
+  const found = custom ? buildLandscape(custom) : LANDSCAPES.find(l => l.name === name) || null;
+  return found && withDimensions(found, dimensions);
+};
+
+// Post at most this often; iterations in between are batched into one frame
+const FRAME_INTERVAL_MS = 32;
+
+let config: OptimizationConfig | null = null;
+let landscape: Landscape | null = null;
+let state: SimulationState | null = null;
+let intervalMs = 50;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Pending frame contents since the last post
+let pendingSteps: Float64Array[] = [];
+let pendingHistory: SimulationState['history'] = [];
+let pendingReset = false;
+let pendingTrails: Point[][] | undefined;
+let pendingLineage: SimulationState['lineage'] = [];
+let pendingVisited: number[] = [];
+let pendingSnapshots: StepSnapshot[] = [];
+let lastPost = 0;
+
+const flush = () => {
+  if (!state) return;
+  const frame: SimulationFrame = {
+    reset: pendingReset,
+    running: state.running,
+    iteration: state.iteration,
+    bestPoint: state.bestPoint,
+    history: pendingHistory,
+    steps: pendingSteps,
+    rngState: state.rngState,
+    optimizerState: state.optimizerState,
+    evaluations: state.evaluations,
+    lastImprovement: state.lastImprovement,
+    stopReason: state.stopReason,
+    trails: pendingTrails,
+    lineage: pendingLineage,
+    visited: pendingVisited,
+    snapshots: pendingSnapshots
+  };
+  ctx.postMessage(frame, pendingSteps.map(s => s.buffer));
+  pendingSteps = [];
+  pendingHistory = [];
+  pendingReset = false;
+  pendingTrails = undefined;
+  pendingLineage = [];
+  pendingVisited = [];
+  pendingSnapshots = [];
+  lastPost = performance.now();
+};
+
+// Helper: Timeline record for the current iteration
+const snapshot = (s: SimulationState): StepSnapshot => ({ bestPoint: s.bestPoint, optimizerState: replayState(s.optimizerState, s.iteration) });
+
+const stopTimer = () => {
+  if (timer !== null) clearInterval(timer);
+  timer = null;
+};
+
+// Drop the run and tell the UI why nothing will start
+const fail = (landscapeName: string) => {
+  stopTimer();
+  state = null;
+  const message: SimulationError = { error: `Could not load the landscape "${landscapeName}".` };
+  ctx.postMessage(message);
+};
+
+// Re-check the stopping criteria against the latest config (a raised limit un-stops the run)
+const refreshStopReason = () => {
+  if (state && config && landscape) state = { ...state, stopReason: checkStopping(state, config, landscape) };
+};
+
+// Advance one iteration; returns false once a stopping criterion has fired
+const advance = (): boolean => {
+  if (!state || !config || !landscape) return false;
+  if (state.stopReason) return false;
+
+  const generations = state.lineage.length;
+  const cells = state.visited.length;
+  state = advanceSimulation(state, config, landscape, false);
+  pendingSteps.push(packAgents(state.agents));
+  pendingHistory.push(state.history[state.history.length - 1]);
+  if (state.lineage.length > generations) pendingLineage.push(state.lineage[state.lineage.length - 1]);
+  pendingVisited.push(...state.visited.slice(cells));
+  pendingSnapshots.push(snapshot(state));
+  return true;
+};
+
+const tick = () => {
+  if (!state) return;
+  if (!advance()) {
+    state = { ...state, running: false };
+    stopTimer();
+    flush();
+    return;
+  }
+  if (performance.now() - lastPost >= FRAME_INTERVAL_MS) flush();
+};
+
+const startTimer = () => {
+  stopTimer();
+  timer = setInterval(tick, intervalMs);
+};
+
+ctx.onmessage = (e: MessageEvent<SimulationCommand>) => {
+  const cmd = e.data;
+
+  switch (cmd.type) {
+    case 'reset': {
+      stopTimer();
+      config = cmd.config;
+      landscape = resolveLandscape(cmd.landscapeName, config.dimensions, cmd.customLandscape);
+      if (!landscape) {
+        fail(cmd.landscapeName);
+        return;
+      }
+      state = createInitialState(config, landscape);
+      pendingSteps = [packAgents(state.agents)];
+      pendingSnapshots = [snapshot(state)];
+      pendingHistory = [...state.history];
+      pendingLineage = [...state.lineage];
+      pendingVisited = [...state.visited];
+      pendingReset = true;
+      flush();
+      break;
+    }
+
+    case 'restore': {
+      // Pick up a saved run exactly where it stopped
+      stopTimer();
+      config = cmd.config;
+      landscape = resolveLandscape(cmd.landscapeName, config.dimensions, cmd.customLandscape);
+      if (!landscape) {
+        fail(cmd.landscapeName);
+        return;
+      }
+      state = { ...cmd.state, running: false };
+      // Agents travel packed without ids; take them back from the last recorded generation
+      const lastGeneration = state.lineage[state.lineage.length - 1];
+      if (lastGeneration && lastGeneration.length === state.agents.length) {
+        state = { ...state, agents: lastGeneration.map(n => ({ ...toPoint(positionOf(n), n.value), id: n.id, parents: n.parents })) };
+      }
+      refreshStopReason();
+      pendingSteps = [packAgents(state.agents)];
+      pendingSnapshots = [snapshot(state)];
+      pendingHistory = [...state.history];
+      pendingLineage = [...state.lineage];
+      pendingVisited = [...state.visited];
+      pendingTrails = state.trails;
+      pendingReset = true;
+      flush();
+      break;
+    }
+
+    case 'start':
+      refreshStopReason();
+      if (!state || state.stopReason) {
+        flush(); // Let the UI see why it can't start
+        return;
+      }
+      state = { ...state, running: true };
+      startTimer();
+      flush();
+      break;
+
+    case 'pause':
+      if (!state) return;
+      stopTimer();
+      state = { ...state, running: false };
+      flush();
+      break;
+
+    case 'step':
+      if (!state || state.running) return;
+      refreshStopReason();
+      advance();
+      flush();
+      break;
+
+    case 'config-update':
+      if (cmd.config) config = cmd.config;
+      if (cmd.intervalMs !== undefined) {
+        intervalMs = cmd.intervalMs;
+        if (timer !== null) startTimer(); // Pick up the new speed without pausing
+      }
+      break;
+  }
+};
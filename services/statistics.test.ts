@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { bootstrapMeanCI, mannWhitneyU, mean, median, quantile } from './statistics';
+
+describe('quantile', () => {
+  it('interpolates between order statistics like numpy', () => {
+    const xs = [7, 1, 3, 5];
+    expect(quantile(xs, 0)).toBe(1);
+    expect(quantile(xs, 1)).toBe(7);
+    expect(quantile(xs, 0.25)).toBeCloseTo(2.5);
+    expect(quantile(xs, 0.75)).toBeCloseTo(5.5);
+  });
+
+  it('does not reorder its input', () => {
+    const xs = [3, 1, 2];
+    quantile(xs, 0.5);
+    expect(xs).toEqual([3, 1, 2]);
+  });
+});
+
+describe('mean and median', () => {
+  it('match hand-computed values', () => {
+    expect(mean([1, 2, 3, 10])).toBe(4);
+    expect(median([1, 2, 3, 10])).toBe(2.5);
+    expect(median([5, 1, 3])).toBe(3);
+  });
+});
+
+describe('bootstrapMeanCI', () => {
+  const xs = [2.1, 3.4, 1.9, 4.2, 3.3, 2.8, 3.9, 2.5];
+
+  it('brackets the sample mean', () => {
+    const [lo, hi] = bootstrapMeanCI(xs);
+    expect(lo).toBeLessThan(mean(xs));
+    expect(hi).toBeGreaterThan(mean(xs));
+    expect(lo).toBeGreaterThanOrEqual(Math.min(...xs));
+    expect(hi).toBeLessThanOrEqual(Math.max(...xs));
+  });
+
+  it('is reproducible for a seed and narrows at a lower level', () => {
+    expect(bootstrapMeanCI(xs, 0.95, 2000, 7)).toEqual(bootstrapMeanCI(xs, 0.95, 2000, 7));
+    const [lo95, hi95] = bootstrapMeanCI(xs, 0.95);
+    const [lo50, hi50] = bootstrapMeanCI(xs, 0.5);
+    expect(hi50 - lo50).toBeLessThan(hi95 - lo95);
+  });
+
+  it('collapses to the value for a single sample', () => {
+    expect(bootstrapMeanCI([4])).toEqual([4, 4]);
+  });
+});
+
+describe('mannWhitneyU', () => {
+  it('matches the normal approximation for fully separated samples', () => {
+    // scipy.stats.mannwhitneyu(a, b, method='asymptotic') gives p = 0.01219
+    const result = mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+    expect(result.u).toBe(0);
+    expect(result.pValue).toBeCloseTo(0.01219, 4);
+  });
+
+  it('is symmetric in its samples', () => {
+    const a = [0.3, 1.2, 0.8, 2.2, 1.7];
+    const b = [1.1, 2.9, 2.4, 3.1, 1.9, 2.6];
+    expect(mannWhitneyU(a, b).pValue).toBeCloseTo(mannWhitneyU(b, a).pValue, 12);
+  });
+
+  it('finds no difference between identical samples', () => {
+    expect(mannWhitneyU([2, 2, 2], [2, 2, 2])).toEqual({ u: 4.5, z: 0, pValue: 1 });
+    expect(mannWhitneyU([1, 2, 3], [1, 2, 3]).pValue).toBeCloseTo(1, 6); // Within the normal CDF's approximation error
+  });
+});
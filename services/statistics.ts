@@ -0,0 +1,68 @@
+// Small descriptive and inferential statistics for comparing stochastic runs.
+import { MannWhitneyResult } from '../types';
+import { createRng } from './random';
+
+export const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+// Linear interpolation between order statistics (same as numpy's default)
+export const quantile = (xs: number[], q: number): number => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const median = (xs: number[]) => quantile(xs, 0.5);
+
+// Percentile bootstrap interval for the mean; seeded so the same data always gives the same interval
+export const bootstrapMeanCI = (xs: number[], level = 0.95, resamples = 2000, seed = 1): [number, number] => {
+  if (xs.length < 2) return [xs[0], xs[0]];
+  const rng = createRng(seed);
+  const means: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (let i = 0; i < xs.length; i++) sum += xs[Math.floor(rng() * xs.length)];
+    means.push(sum / xs.length);
+  }
+  const alpha = (1 - level) / 2;
+  return [quantile(means, alpha), quantile(means, 1 - alpha)];
+};
+
+// Helper: Standard normal CDF via the Abramowitz-Stegun erf approximation (|error| < 1.5e-7)
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+// Two-sided Mann-Whitney U test, normal approximation with tie and continuity corrections.
+// Asks whether one sample tends to produce smaller values than the other, without assuming normality.
+export const mannWhitneyU = (a: number[], b: number[]): MannWhitneyResult => {
+  const n1 = a.length;
+  const n2 = b.length;
+  const pooled = [...a.map(v => ({ v, fromA: true })), ...b.map(v => ({ v, fromA: false }))].sort((p, q) => p.v - q.v);
+
+  // Average ranks across ties, and collect tie sizes for the variance correction
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < pooled.length;) {
+    let j = i;
+    while (j + 1 < pooled.length && pooled[j + 1].v === pooled[i].v) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (pooled[k].fromA) rankSumA += rank;
+    const t = j - i + 1;
+    tieTerm += t * t * t - t;
+    i = j + 1;
+  }
+
+  const uA = rankSumA - (n1 * (n1 + 1)) / 2;
+  const u = Math.min(uA, n1 * n2 - uA);
+  const n = n1 + n2;
+  const sigma = Math.sqrt((n1 * n2 / 12) * ((n + 1) - tieTerm / (n * (n - 1))));
+  if (sigma === 0) return { u, z: 0, pValue: 1 }; // Every value identical
+
+  const z = (Math.abs(uA - (n1 * n2) / 2) - 0.5) / sigma;
+  return { u, z: Math.max(0, z), pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))) };
+};
@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { CustomLandscapeDefinition, RunRecord, SavedExperiment } from '../types';
+import { INITIAL_CONFIG } from '../constants';
+
+const rosenbrock: CustomLandscapeDefinition = {
+  name: 'My Rosenbrock',
+  description: '',
+  expression: '(1-x)^2 + 100*(y-x^2)^2',
+  minX: -2, maxX: 2, minY: -1, maxY: 3,
+  globalMin: 0
+};
+
+// Helper: A stored experiment with the given id and timestamp
+const experiment = (id: string, timestamp: number): SavedExperiment => ({
+  id,
+  name: `Run ${id}`,
+  timestamp,
+  config: { ...INITIAL_CONFIG, seed: 7 },
+  landscapeName: 'Convex Bowl',
+  tags: []
+});
+
+// Helper: A recorded run of the given experiment
+const run = (id: string, experimentId: string, startedAt: number): RunRecord => ({
+  id,
+  experimentId,
+  landscapeName: 'Convex Bowl',
+  config: { ...INITIAL_CONFIG, seed: 7 },
+  iterations: 1,
+  bestPoint: { x: 0, y: 0, value: 0 },
+  history: [{ iteration: 0, cost: 1, evaluations: 1, elapsedMs: 0 }, { iteration: 1, cost: 0, evaluations: 2, elapsedMs: 0.5 }],
+  finalAgents: [{ x: 0, y: 0, value: 0 }],
+  trails: [[{ x: 1, y: 0, value: 1 }, { x: 0, y: 0, value: 0 }]],
+  rngState: 12345,
+  optimizerState: {},
+  startedAt,
+  finishedAt: startedAt + 10,
+  durationMs: 10,
+  aiFeedback: null,
+  eli5Text: null
+});
+
+// Helper: In-memory stand-in for window.localStorage
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+// Helper: A fresh copy of the storage module, over an empty database unless given one
+const loadStorage = async (legacy: Record<string, string> = {}, factory = new IDBFactory()) => {
+  vi.stubGlobal('indexedDB', factory);
+  vi.stubGlobal('localStorage', memoryStorage(legacy));
+  vi.resetModules();
+  return import('./storage');
+};
+
+// Helper: A database as version 1 left it, with each record's seed stored beside its config
+const versionOneDatabase = (experiments: SavedExperiment[], runs: RunRecord[]) => new Promise<IDBFactory>((resolve, reject) => {
+  const factory = new IDBFactory();
+  const req = factory.open('optima', 1);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore('experiments', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+    db.createObjectStore('runs', { keyPath: 'id' }).createIndex('experimentId', 'experimentId');
+    db.createObjectStore('landscapes', { keyPath: 'name' });
+    experiments.forEach(exp => req.transaction.objectStore('experiments').put({ ...exp, config: { ...exp.config, seed: 1 }, seed: exp.config.seed }));
+    runs.forEach(r => req.transaction.objectStore('runs').put({ ...r, config: { ...r.config, seed: 1 }, seed: r.config.seed }));
+  };
+  req.onsuccess = () => {
+    req.result.close();
+    resolve(factory);
+  };
+  req.onerror = () => reject(req.error);
+});
+
+beforeEach(() => {
+  vi.unstubAllGlobals();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('normalizeExperiment', () => {
+  it('rejects records without a config or landscape', async () => {
+    const { normalizeExperiment } = await loadStorage();
+    expect(normalizeExperiment(null)).toBeNull();
+    expect(normalizeExperiment({ name: 'x', landscapeName: 'Convex Bowl' })).toBeNull();
+    expect(normalizeExperiment({ name: 'x', config: INITIAL_CONFIG })).toBeNull();
+  });
+
+  it('fills in fields that older versions did not store', async () => {
+    const { normalizeExperiment } = await loadStorage();
+    const { learningRate, algo } = INITIAL_CONFIG;
+    const exp = normalizeExperiment({ landscapeName: 'Convex Bowl', config: { learningRate, algo } as SavedExperiment['config'] });
+    expect(exp.config).toEqual(INITIAL_CONFIG);
+    expect(exp.tags).toEqual([]);
+    expect(exp.id).toBeTruthy();
+  });
+
+  it('moves a seed stored beside the config into it', async () => {
+    const { normalizeExperiment } = await loadStorage();
+    const exp = experiment('a', 1);
+    expect(normalizeExperiment({ ...exp, config: { ...exp.config, seed: 1 }, seed: 7 })).toEqual(exp);
+  });
+
+  it('leaves current records unchanged', async () => {
+    const { normalizeExperiment } = await loadStorage();
+    const exp = experiment('a', 1);
+    expect(normalizeExperiment(exp)).toEqual(exp);
+  });
+});
+
+describe('experiments', () => {
+  it('lists saved experiments newest first', async () => {
+    const { listExperiments, saveExperiments } = await loadStorage();
+    expect(await saveExperiments([experiment('old', 1), experiment('new', 2)])).toBe(true);
+    expect((await listExperiments()).map(e => e.id)).toEqual(['new', 'old']);
+  });
+
+  it('deletes by id', async () => {
+    const { deleteExperiment, listExperiments, saveExperiments } = await loadStorage();
+    await saveExperiments([experiment('a', 1), experiment('b', 2)]);
+    expect(await deleteExperiment('a')).toBe(true);
+    expect((await listExperiments()).map(e => e.id)).toEqual(['b']);
+  });
+
+  it('deletes the runs recorded against an experiment with it', async () => {
+    const { deleteExperiment, listRuns, saveExperiments, saveRun } = await loadStorage();
+    await saveExperiments([experiment('a', 1), experiment('b', 2)]);
+    await saveRun(run('a1', 'a', 1));
+    await saveRun(run('b1', 'b', 1));
+    await deleteExperiment('a');
+    expect(await listRuns('a')).toEqual([]);
+    expect((await listRuns('b')).map(r => r.id)).toEqual(['b1']);
+  });
+
+  it('moves the seed into the config when upgrading a version 1 database', async () => {
+    const factory = await versionOneDatabase([experiment('a', 1)], [run('a1', 'a', 1)]);
+    const { listExperiments, listRuns } = await loadStorage({}, factory);
+    expect(await listExperiments()).toEqual([experiment('a', 1)]);
+    expect(await listRuns('a')).toEqual([run('a1', 'a', 1)]);
+  });
+
+  it('degrades to an empty library without IndexedDB', async () => {
+    const storage = await loadStorage();
+    vi.stubGlobal('indexedDB', undefined);
+    expect(await storage.listExperiments()).toEqual([]);
+    expect(await storage.saveExperiments([experiment('a', 1)])).toBe(false);
+  });
+});
+
+describe('runs', () => {
+  it('lists an experiment\'s runs oldest first', async () => {
+    const { listRuns, saveRun } = await loadStorage();
+    await saveRun(run('late', 'a', 20));
+    await saveRun(run('early', 'a', 10));
+    await saveRun(run('other', 'b', 5));
+    expect((await listRuns('a')).map(r => r.id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('import / export', () => {
+  it('round-trips experiments with their runs and custom landscapes', async () => {
+    const source = await loadStorage();
+    await source.saveExperiments([experiment('a', 1)]);
+    await source.saveRun(run('a1', 'a', 1));
+    await source.saveCustomLandscape(rosenbrock);
+    const file = JSON.parse(JSON.stringify(await source.exportLibrary(await source.listExperiments())));
+
+    const target = await loadStorage();
+    const imported = await target.importLibrary(file);
+    expect(imported.experiments.map(e => e.id)).toEqual(['a']);
+    expect(imported.landscapes).toEqual([rosenbrock]);
+    expect(await target.listExperiments()).toEqual([experiment('a', 1)]);
+    expect(await target.listRuns('a')).toEqual([run('a1', 'a', 1)]);
+    expect(await target.listCustomLandscapes()).toEqual([rosenbrock]);
+  });
+
+  it('still reads files that are a bare array of experiments', async () => {
+    const { importLibrary, listExperiments } = await loadStorage();
+    const imported = await importLibrary([experiment('old', 1)]);
+    expect(imported).toEqual({ experiments: [experiment('old', 1)], landscapes: [] });
+    expect((await listExperiments()).map(e => e.id)).toEqual(['old']);
+  });
+
+  it('moves the seed into the config for runs exported by version 1', async () => {
+    const { importLibrary, listRuns } = await loadStorage();
+    const legacyRun = { ...run('a1', 'a', 1), config: { ...INITIAL_CONFIG, seed: 1 }, seed: 7 };
+    await importLibrary([{ ...experiment('a', 1), runs: [legacyRun] }]);
+    expect(await listRuns('a')).toEqual([run('a1', 'a', 1)]);
+  });
+
+  it('skips entries that are not experiments or usable landscapes', async () => {
+    const { importLibrary, listCustomLandscapes, listExperiments } = await loadStorage();
+    const imported = await importLibrary({
+      experiments: [{ name: 'no config' }, experiment('ok', 1), 42],
+      landscapes: [rosenbrock, { ...rosenbrock, name: 'Convex Bowl' }, { name: 'no expression' }, null]
+    });
+    expect(imported.experiments.map(e => e.id)).toEqual(['ok']);
+    expect((await listExperiments()).map(e => e.id)).toEqual(['ok']);
+    expect(await listCustomLandscapes()).toEqual([rosenbrock]);
+  });
+
+  it('rejects files that are not a library', async () => {
+    const { importLibrary } = await loadStorage();
+    expect(await importLibrary({ something: 'else' })).toBeNull();
+    expect(await importLibrary(null)).toBeNull();
+  });
+});
+
+describe('custom landscapes', () => {
+  it('moves landscapes out of localStorage on first open', async () => {
+    const { listCustomLandscapes } = await loadStorage({ 'optima.customLandscapes': JSON.stringify([rosenbrock]) });
+    expect(await listCustomLandscapes()).toEqual([rosenbrock]);
+    expect(localStorage.getItem('optima.customLandscapes')).toBeNull();
+  });
+
+  it('replaces the old entry when a landscape is renamed', async () => {
+    const { deleteCustomLandscape, listCustomLandscapes, saveCustomLandscape } = await loadStorage();
+    await saveCustomLandscape(rosenbrock);
+    await saveCustomLandscape({ ...rosenbrock, name: 'Banana' }, rosenbrock.name);
+    expect((await listCustomLandscapes()).map(l => l.name)).toEqual(['Banana']);
+    expect(await deleteCustomLandscape('Banana')).toBe(true);
+    expect(await listCustomLandscapes()).toEqual([]);
+  });
+});
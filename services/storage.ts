@@ -0,0 +1,277 @@
+// Local persistence for the experiment library, backed by IndexedDB.
+// The schema is versioned: bump DB_VERSION and append a migration, never edit an old one.
+import { CustomLandscapeDefinition, OptimizationConfig, RunRecord, SavedExperiment } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES as BUILT_IN_LANDSCAPES } from '../constants';
+
+const DB_NAME = 'optima';
+const DB_VERSION = 2;
+
+const EXPERIMENTS = 'experiments';
+const RUNS = 'runs';
+const LANDSCAPES = 'landscapes';
+
+// Custom landscapes lived here before IndexedDB; migrated once, then removed
+const LEGACY_LANDSCAPES_KEY = 'optima.customLandscapes';
+
+// Records from version 1 (and files exported by it) kept the seed beside the config
+type WithLegacySeed<T> = T & { seed?: number };
+
+// Helper: Fold a version 1 top-level seed into the config, which is where the seed lives now
+const moveSeedIntoConfig = <T extends { config: OptimizationConfig }>({ seed, ...record }: WithLegacySeed<T>): T =>
+  (seed === undefined ? record : { ...record, config: { ...record.config, seed } }) as T;
+
+// Helper: Rewrite every record of a store inside an upgrade transaction
+const rewriteAll = <T>(store: IDBObjectStore, rewrite: (record: T) => T) => {
+  const req = store.openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    cursor.update(rewrite(cursor.value));
+    cursor.continue();
+  };
+};
+
+// MIGRATIONS[n] upgrades a database at version n to version n + 1
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 0 -> 1: initial stores, import landscapes from localStorage
+  (db, tx) => {
+    const experiments = db.createObjectStore(EXPERIMENTS, { keyPath: 'id' });
+    experiments.createIndex('timestamp', 'timestamp');
+    const runs = db.createObjectStore(RUNS, { keyPath: 'id' });
+    runs.createIndex('experimentId', 'experimentId');
+    db.createObjectStore(LANDSCAPES, { keyPath: 'name' });
+
+    try {
+      const legacy = JSON.parse(localStorage.getItem(LEGACY_LANDSCAPES_KEY) || '[]');
+      if (Array.isArray(legacy)) {
+        const store = tx.objectStore(LANDSCAPES);
+        legacy.forEach((def: CustomLandscapeDefinition) => store.put(def));
+      }
+      localStorage.removeItem(LEGACY_LANDSCAPES_KEY);
+    } catch (e) {
+      console.error("Failed to migrate custom landscapes from localStorage", e);
+    }
+  },
+  // 1 -> 2: the seed is kept only in the config
+  (_db, tx) => {
+    rewriteAll<SavedExperiment>(tx.objectStore(EXPERIMENTS), moveSeedIntoConfig);
+    rewriteAll<RunRecord>(tx.objectStore(RUNS), moveSeedIntoConfig);
+  }
+];
+
+// Helper: Wrap an IDBRequest in a promise
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Helper: Resolve once a transaction commits
+const committed = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Opened once per page; resolves null where IndexedDB is unavailable (e.g. some private windows)
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      console.error("IndexedDB is not available; experiments will not persist");
+      resolve(null);
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      for (let v = e.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](db, req.transaction!);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.error("Failed to open experiment database", req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+// Bring a record from any earlier app version (or an imported file) up to the current shape
+export const normalizeExperiment = (raw: WithLegacySeed<Partial<SavedExperiment>>): SavedExperiment | null => {
+  if (!raw || typeof raw !== 'object' || !raw.config || !raw.landscapeName) return null;
+  return {
+    id: raw.id || crypto.randomUUID(),
+    name: raw.name || 'Imported Experiment',
+    timestamp: raw.timestamp || Date.now(),
+    // Version 1 files kept the seed beside the config; older ones predate seeding
+    config: { ...INITIAL_CONFIG, ...raw.config, seed: raw.seed ?? raw.config.seed ?? INITIAL_CONFIG.seed },
+    landscapeName: raw.landscapeName,
+    tags: Array.isArray(raw.tags) ? raw.tags : []
+  };
+};
+
+// --- Experiments ---
+
+// Newest first
+export const listExperiments = async (): Promise<SavedExperiment[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const all = await request(db.transaction(EXPERIMENTS).objectStore(EXPERIMENTS).getAll());
+    return (all as SavedExperiment[])
+      .map(normalizeExperiment)
+      .filter((e): e is SavedExperiment => e !== null)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  } catch (e) {
+    console.error("Failed to read experiments", e);
+    return [];
+  }
+};
+
+export const saveExperiments = async (experiments: SavedExperiment[]): Promise<boolean> => {
+  const db = await openDatabase();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(EXPERIMENTS, 'readwrite');
+    experiments.forEach(exp => tx.objectStore(EXPERIMENTS).put(exp));
+    await committed(tx);
+    return true;
+  } catch (e) {
+    console.error("Failed to save experiments", e);
+    return false;
+  }
+};
+
+// Also removes any run results recorded against the experiment
+export const deleteExperiment = async (id: string): Promise<boolean> => {
+  const db = await openDatabase();
+  if (!db) return false;
+  try {
+    const tx = db.transaction([EXPERIMENTS, RUNS], 'readwrite');
+    tx.objectStore(EXPERIMENTS).delete(id);
+    const runs = tx.objectStore(RUNS);
+    const runKeys = await request(runs.index('experimentId').getAllKeys(id));
+    runKeys.forEach(key => runs.delete(key));
+    await committed(tx);
+    return true;
+  } catch (e) {
+    console.error("Failed to delete experiment", e);
+    return false;
+  }
+};
+
+// --- Run Results ---
+
+export const saveRun = async (run: RunRecord): Promise<boolean> => {
+  const db = await openDatabase();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(RUNS, 'readwrite');
+    tx.objectStore(RUNS).put(run);
+    await committed(tx);
+    return true;
+  } catch (e) {
+    console.error("Failed to save run", e);
+    return false;
+  }
+};
+
+// Oldest first
+export const listRuns = async (experimentId: string): Promise<RunRecord[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const runs = await request(db.transaction(RUNS).objectStore(RUNS).index('experimentId').getAll(experimentId));
+    return (runs as RunRecord[]).sort((a, b) => (a.startedAt ?? 0) - (b.startedAt ?? 0));
+  } catch (e) {
+    console.error("Failed to read runs", e);
+    return [];
+  }
+};
+
+// --- Import / Export ---
+
+// Experiments with their runs inlined, as written to an export file
+type ExportedExperiment = WithLegacySeed<SavedExperiment> & { runs?: WithLegacySeed<RunRecord>[] };
+
+// An export file: the experiments plus the custom landscapes they may run on.
+// Older files are a bare array of experiments.
+interface ExportedLibrary {
+  experiments: ExportedExperiment[];
+  landscapes: CustomLandscapeDefinition[];
+}
+
+export const exportLibrary = async (experiments: SavedExperiment[]): Promise<ExportedLibrary> => ({
+  experiments: await Promise.all(experiments.map(async exp => ({ ...exp, runs: await listRuns(exp.id) }))),
+  landscapes: await listCustomLandscapes()
+});
+
+// Helper: Whether an imported landscape is usable (built-in names are never overwritten)
+const isImportableLandscape = (def: CustomLandscapeDefinition) =>
+  !!def && typeof def.name === 'string' && typeof def.expression === 'string'
+  && !BUILT_IN_LANDSCAPES.some(l => l.name === def.name);
+
+// Accepts files from any app version; returns what was stored, or null if the file isn't a library
+export const importLibrary = async (raw: unknown): Promise<{ experiments: SavedExperiment[]; landscapes: CustomLandscapeDefinition[] } | null> => {
+  const file = Array.isArray(raw) ? { experiments: raw, landscapes: [] } : raw as Partial<ExportedLibrary>;
+  if (!file || !Array.isArray(file.experiments)) return null;
+
+  const landscapes = (Array.isArray(file.landscapes) ? file.landscapes : []).filter(isImportableLandscape);
+  for (const def of landscapes) await saveCustomLandscape(def);
+
+  const experiments: SavedExperiment[] = [];
+  for (const item of file.experiments as ExportedExperiment[]) {
+    const exp = normalizeExperiment(item);
+    if (!exp) continue;
+    experiments.push(exp);
+    if (Array.isArray(item.runs)) {
+      for (const run of item.runs) await saveRun({ ...moveSeedIntoConfig(run), experimentId: exp.id });
+    }
+  }
+  await saveExperiments(experiments);
+  return { experiments, landscapes };
+};
+
+// --- Custom Landscapes ---
+
+export const listCustomLandscapes = async (): Promise<CustomLandscapeDefinition[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    return await request(db.transaction(LANDSCAPES).objectStore(LANDSCAPES).getAll());
+  } catch (e) {
+    console.error("Failed to read custom landscapes", e);
+    return [];
+  }
+};
+
+// `replacing` is the previous name when a landscape is renamed in the editor
+export const saveCustomLandscape = async (def: CustomLandscapeDefinition, replacing?: string): Promise<boolean> => {
+  const db = await openDatabase();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(LANDSCAPES, 'readwrite');
+    if (replacing && replacing !== def.name) tx.objectStore(LANDSCAPES).delete(replacing);
+    tx.objectStore(LANDSCAPES).put(def);
+    await committed(tx);
+    return true;
+  } catch (e) {
+    console.error("Failed to save custom landscape", e);
+    return false;
+  }
+};
+
+export const deleteCustomLandscape = async (name: string): Promise<boolean> => {
+  const db = await openDatabase();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(LANDSCAPES, 'readwrite');
+    tx.objectStore(LANDSCAPES).delete(name);
+    await committed(tx);
+    return true;
+  } catch (e) {
+    console.error("Failed to delete custom landscape", e);
+    return false;
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LANDSCAPES } from '../constants';
+import { DEFAULT_CAMERA, buildSphere, buildSurfaceMesh, cameraEye, surfacePoint, viewProjection } from './surface';
+
+const bowl = LANDSCAPES.find(l => l.name === 'Convex Bowl'); // x^2 + y^2 on [-5, 5]^2
+
+describe('buildSurfaceMesh', () => {
+  const n = 9;
+  const mesh = buildSurfaceMesh(bowl, n);
+
+  it('samples the domain onto -1..1 with the cost range normalized', () => {
+    expect(mesh.positions).toHaveLength(n * n * 3);
+    expect(mesh.minZ).toBe(0);
+    expect(mesh.maxZ).toBe(50);
+    expect(Array.from(mesh.positions.slice(0, 2))).toEqual([-1, -1]);
+    expect(mesh.values[(n * n - 1) / 2]).toBe(0); // Centre vertex, the bottom of the bowl
+    expect(mesh.values[0]).toBe(1); // Corner, the highest point
+  });
+
+  it('triangulates every grid cell with in-range indices', () => {
+    expect(mesh.indices).toHaveLength((n - 1) * (n - 1) * 6);
+    expect(Math.max(...mesh.indices)).toBe(n * n - 1);
+  });
+
+  it('gives unit normals pointing up out of the bowl', () => {
+    for (let k = 0; k < n * n; k++) {
+      const [x, y, z] = mesh.normals.slice(k * 3, k * 3 + 3);
+      expect(Math.hypot(x, y, z)).toBeCloseTo(1, 5);
+      expect(z).toBeGreaterThan(0);
+    }
+  });
+
+  it('copes with a flat or undefined landscape', () => {
+    const flat = buildSurfaceMesh({ ...bowl, func: () => 3 }, 4);
+    expect(flat.maxZ).toBeGreaterThan(flat.minZ);
+    const broken = buildSurfaceMesh({ ...bowl, func: () => NaN }, 4);
+    expect(Array.from(broken.values).every(v => v === 1)).toBe(true);
+  });
+});
+
+describe('surfacePoint', () => {
+  it('places a domain point on the mesh', () => {
+    const mesh = buildSurfaceMesh(bowl, 9);
+    const [x, y, z] = surfacePoint(bowl, mesh, 0, 5);
+    expect([x, y, z]).toEqual([0, 1, expect.any(Number)]);
+    expect(z).toBeCloseTo(mesh.positions[(8 * 9 + 4) * 3 + 2], 6);
+  });
+});
+
+describe('buildSphere', () => {
+  it('puts every vertex on the unit sphere', () => {
+    const { positions, indices } = buildSphere(8, 6);
+    for (let k = 0; k < positions.length; k += 3) {
+      expect(Math.hypot(positions[k], positions[k + 1], positions[k + 2])).toBeCloseTo(1, 6);
+    }
+    expect(Math.max(...indices)).toBe(positions.length / 3 - 1);
+  });
+});
+
+describe('camera', () => {
+  it('orbits at the configured distance, above the ground', () => {
+    const eye = cameraEye(DEFAULT_CAMERA);
+    expect(eye[2]).toBeGreaterThan(0);
+    const flat = cameraEye({ ...DEFAULT_CAMERA, pitch: 0 });
+    const raised = cameraEye({ ...DEFAULT_CAMERA, pitch: Math.PI / 2 });
+    expect(Math.hypot(flat[0] - raised[0], flat[1] - raised[1])).toBeCloseTo(DEFAULT_CAMERA.distance, 6);
+  });
+
+  it('builds a finite view-projection matrix', () => {
+    const m = viewProjection(DEFAULT_CAMERA, 16 / 9);
+    expect(m).toHaveLength(16);
+    expect(Array.from(m).every(Number.isFinite)).toBe(true);
+  });
+});
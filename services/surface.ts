@@ -0,0 +1,410 @@
+// 3D surface view of a landscape in plain WebGL 1: a shaded height mesh with agents as spheres and trails as lines.
+// World space: the domain maps to -1..1 on x and y, normalized cost to 0..SURFACE_HEIGHT on z (z up).
+import { Landscape, OrbitCamera, Point, SurfaceMesh } from '../types';
+import { bestAgentIndex } from './render';
+
+// Grid vertices per side (kept under 256 so indices fit in 16 bits)
+export const SURFACE_RESOLUTION = 128;
+// Height of the tallest point relative to the domain half-width
+const SURFACE_HEIGHT = 0.8;
+const AGENT_RADIUS = 0.03;
+const OPTIMUM_RADIUS = 0.02;
+// Lift lines slightly off the surface so they are not swallowed by it
+const LINE_OFFSET = 0.01;
+// Trail segments are split to this length (world units) so they follow the terrain between samples
+const LINE_STEP = 0.04;
+const ORBIT_TARGET: [number, number, number] = [0, 0, SURFACE_HEIGHT * 0.35];
+const FIELD_OF_VIEW = Math.PI / 4;
+
+export const DEFAULT_CAMERA: OrbitCamera = { yaw: -Math.PI / 3, pitch: 0.6, distance: 3.2 };
+export const CAMERA_LIMITS = { minPitch: 0.05, maxPitch: Math.PI / 2 - 0.05, minDistance: 1.2, maxDistance: 8 };
+
+type Vec3 = [number, number, number];
+
+// Helper: Domain coordinates to world x / y
+const worldX = (landscape: Landscape, x: number) => ((x - landscape.minX) / (landscape.maxX - landscape.minX)) * 2 - 1;
+const worldY = (landscape: Landscape, y: number) => ((y - landscape.minY) / (landscape.maxY - landscape.minY)) * 2 - 1;
+
+// Helper: Cost to 0..1 over the mesh's range (non-finite costs sit at the top)
+const normalizeCost = (z: number, minZ: number, maxZ: number) =>
+  Number.isFinite(z) ? Math.max(0, Math.min(1, (z - minZ) / (maxZ - minZ))) : 1;
+
+// Sample the landscape on a grid and triangulate it, with normals from central differences
+export const buildSurfaceMesh = (landscape: Landscape, resolution = SURFACE_RESOLUTION): SurfaceMesh => {
+  const n = resolution;
+  const costs = new Float64Array(n * n);
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const z = landscape.func(
+        landscape.minX + (i / (n - 1)) * (landscape.maxX - landscape.minX),
+        landscape.minY + (j / (n - 1)) * (landscape.maxY - landscape.minY)
+      );
+      costs[j * n + i] = z;
+      if (Number.isFinite(z)) {
+        if (z < minZ) minZ = z;
+        if (z > maxZ) maxZ = z;
+      }
+    }
+  }
+  if (minZ === Infinity) minZ = 0;
+  if (maxZ === -Infinity || maxZ === minZ) maxZ = minZ + 1;
+
+  const positions = new Float32Array(n * n * 3);
+  const values = new Float32Array(n * n);
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const k = j * n + i;
+      values[k] = normalizeCost(costs[k], minZ, maxZ);
+      positions.set([(i / (n - 1)) * 2 - 1, (j / (n - 1)) * 2 - 1, values[k] * SURFACE_HEIGHT], k * 3);
+    }
+  }
+
+  const normals = new Float32Array(n * n * 3);
+  const spacing = 2 / (n - 1);
+  const height = (i: number, j: number) => positions[(Math.min(n - 1, Math.max(0, j)) * n + Math.min(n - 1, Math.max(0, i))) * 3 + 2];
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const dx = (height(i + 1, j) - height(i - 1, j)) / (2 * spacing);
+      const dy = (height(i, j + 1) - height(i, j - 1)) / (2 * spacing);
+      const length = Math.hypot(dx, dy, 1);
+      normals.set([-dx / length, -dy / length, 1 / length], (j * n + i) * 3);
+    }
+  }
+
+  const indices = new Uint16Array((n - 1) * (n - 1) * 6);
+  let t = 0;
+  for (let j = 0; j < n - 1; j++) {
+    for (let i = 0; i < n - 1; i++) {
+      const a = j * n + i;
+      indices.set([a, a + 1, a + n, a + 1, a + n + 1, a + n], t);
+      t += 6;
+    }
+  }
+
+  return { positions, normals, values, indices, minZ, maxZ };
+};
+
+// World position of a domain point lying on the surface
+export const surfacePoint = (landscape: Landscape, mesh: SurfaceMesh, x: number, y: number): Vec3 => [
+  worldX(landscape, x),
+  worldY(landscape, y),
+  normalizeCost(landscape.func(x, y), mesh.minZ, mesh.maxZ) * SURFACE_HEIGHT
+];
+
+// Unit UV sphere (positions double as normals)
+export const buildSphere = (segments = 16, rings = 10) => {
+  const positions: number[] = [];
+  for (let r = 0; r <= rings; r++) {
+    const phi = (r / rings) * Math.PI;
+    for (let s = 0; s <= segments; s++) {
+      const theta = (s / segments) * Math.PI * 2;
+      positions.push(Math.sin(phi) * Math.cos(theta), Math.sin(phi) * Math.sin(theta), Math.cos(phi));
+    }
+  }
+  const indices: number[] = [];
+  for (let r = 0; r < rings; r++) {
+    for (let s = 0; s < segments; s++) {
+      const a = r * (segments + 1) + s;
+      const b = a + segments + 1;
+      indices.push(a, b, a + 1, a + 1, b, b + 1);
+    }
+  }
+  return { positions: new Float32Array(positions), indices: new Uint16Array(indices) };
+};
+
+// --- Matrices (column-major, as WebGL expects) ---
+
+const perspective = (fovy: number, aspect: number, near: number, far: number) => {
+  const f = 1 / Math.tan(fovy / 2);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (far + near) / (near - far), -1,
+    0, 0, (2 * far * near) / (near - far), 0
+  ]);
+};
+
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const normalize = (a: Vec3): Vec3 => {
+  const length = Math.hypot(a[0], a[1], a[2]) || 1;
+  return [a[0] / length, a[1] / length, a[2] / length];
+};
+
+const lookAt = (eye: Vec3, target: Vec3, up: Vec3) => {
+  const z = normalize(subtract(eye, target));
+  const x = normalize(cross(up, z));
+  const y = cross(z, x);
+  return new Float32Array([
+    x[0], y[0], z[0], 0,
+    x[1], y[1], z[1], 0,
+    x[2], y[2], z[2], 0,
+    -dot(x, eye), -dot(y, eye), -dot(z, eye), 1
+  ]);
+};
+
+const multiply = (a: Float32Array, b: Float32Array) => {
+  const out = new Float32Array(16);
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + r] * b[c * 4 + k];
+      out[c * 4 + r] = sum;
+    }
+  }
+  return out;
+};
+
+// Helper: Uniform scale then translate
+const placement = (center: Vec3, scale: number) => new Float32Array([
+  scale, 0, 0, 0,
+  0, scale, 0, 0,
+  0, 0, scale, 0,
+  center[0], center[1], center[2], 1
+]);
+
+const IDENTITY = placement([0, 0, 0], 1);
+
+// Camera eye position for an orbit
+export const cameraEye = (camera: OrbitCamera): Vec3 => [
+  ORBIT_TARGET[0] + camera.distance * Math.cos(camera.pitch) * Math.cos(camera.yaw),
+  ORBIT_TARGET[1] + camera.distance * Math.cos(camera.pitch) * Math.sin(camera.yaw),
+  ORBIT_TARGET[2] + camera.distance * Math.sin(camera.pitch)
+];
+
+// Combined projection and view matrix
+export const viewProjection = (camera: OrbitCamera, aspect: number) =>
+  multiply(perspective(FIELD_OF_VIEW, aspect, 0.05, 50), lookAt(cameraEye(camera), ORBIT_TARGET, [0, 0, 1]));
+
+// --- WebGL ---
+
+const VERTEX_SHADER = `
+attribute vec3 a_position;
+attribute vec3 a_normal;
+attribute float a_value;
+uniform mat4 u_viewProjection;
+uniform mat4 u_model;
+varying vec3 v_normal;
+varying float v_value;
+void main() {
+  gl_Position = u_viewProjection * u_model * vec4(a_position, 1.0);
+  v_normal = a_normal; // Models are only scaled uniformly and translated, so normals carry over
+  v_value = a_value;
+}`;
+
+// Surface colour follows the 2D heatmap ramp, lifted a little so valleys stay visible once shaded
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform vec4 u_color;
+uniform float u_useRamp;
+uniform float u_lit;
+uniform vec3 u_light;
+varying vec3 v_normal;
+varying float v_value;
+void main() {
+  vec3 ramp = vec3(0.2, 0.2, 0.5) * v_value + vec3(0.06, 0.06, 0.14);
+  vec3 base = mix(u_color.rgb, ramp, u_useRamp);
+  float diffuse = max(dot(normalize(v_normal), u_light), 0.0);
+  gl_FragColor = vec4(base * mix(1.0, 0.35 + 0.65 * diffuse, u_lit), u_color.a);
+}`;
+
+// Helper: Compile and link the single program every draw uses
+const createProgram = (gl: WebGLRenderingContext): WebGLProgram | null => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error("Shader compile failed", gl.getShaderInfoLog(shader));
+      return null;
+    }
+    return shader;
+  };
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error("Shader link failed", gl.getProgramInfoLog(program));
+    return null;
+  }
+  return program;
+};
+
+// Helper: Upload data to a new buffer
+const createBuffer = (gl: WebGLRenderingContext, target: number, data: ArrayBufferView) => {
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(target, buffer);
+  gl.bufferData(target, data, gl.STATIC_DRAW);
+  return buffer;
+};
+
+// Renderer bound to one WebGL context; returns null when the shaders cannot be built
+export const createSurfaceRenderer = (gl: WebGLRenderingContext) => {
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  const attributes = {
+    position: gl.getAttribLocation(program, 'a_position'),
+    normal: gl.getAttribLocation(program, 'a_normal'),
+    value: gl.getAttribLocation(program, 'a_value')
+  };
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const uniforms = {
+    viewProjection: uniform('u_viewProjection'),
+    model: uniform('u_model'),
+    color: uniform('u_color'),
+    useRamp: uniform('u_useRamp'),
+    lit: uniform('u_lit'),
+    light: uniform('u_light')
+  };
+
+  const sphere = buildSphere();
+  const sphereBuffers = {
+    positions: createBuffer(gl, gl.ARRAY_BUFFER, sphere.positions),
+    indices: createBuffer(gl, gl.ELEMENT_ARRAY_BUFFER, sphere.indices)
+  };
+  const lineBuffer = gl.createBuffer();
+
+  let landscape: Landscape | null = null;
+  let mesh: SurfaceMesh | null = null;
+  let meshBuffers: { positions: WebGLBuffer | null; normals: WebGLBuffer | null; values: WebGLBuffer | null; indices: WebGLBuffer | null } | null = null;
+
+  const deleteMesh = () => {
+    if (meshBuffers) Object.values(meshBuffers).forEach(b => gl.deleteBuffer(b));
+    meshBuffers = null;
+  };
+
+  const bindAttribute = (location: number, buffer: WebGLBuffer | null, size: number) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0);
+  };
+
+  const drawSphere = (center: Vec3, radius: number, color: [number, number, number]) => {
+    bindAttribute(attributes.position, sphereBuffers.positions, 3);
+    bindAttribute(attributes.normal, sphereBuffers.positions, 3);
+    gl.disableVertexAttribArray(attributes.value);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, sphereBuffers.indices);
+    gl.uniformMatrix4fv(uniforms.model, false, placement(center, radius));
+    gl.uniform4f(uniforms.color, color[0], color[1], color[2], 1);
+    gl.uniform1f(uniforms.useRamp, 0);
+    gl.uniform1f(uniforms.lit, 1);
+    gl.drawElements(gl.TRIANGLES, sphere.indices.length, gl.UNSIGNED_SHORT, 0);
+  };
+
+  // Line segments given as pairs of world points
+  const drawLines = (vertices: number[], color: [number, number, number, number]) => {
+    if (vertices.length === 0) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(attributes.position);
+    gl.vertexAttribPointer(attributes.position, 3, gl.FLOAT, false, 0, 0);
+    gl.disableVertexAttribArray(attributes.normal);
+    gl.disableVertexAttribArray(attributes.value);
+    gl.uniformMatrix4fv(uniforms.model, false, IDENTITY);
+    gl.uniform4f(uniforms.color, ...color);
+    gl.uniform1f(uniforms.useRamp, 0);
+    gl.uniform1f(uniforms.lit, 0);
+    gl.drawArrays(gl.LINES, 0, vertices.length / 3);
+  };
+
+  return {
+    // Rebuild the mesh for a new landscape
+    setLandscape: (next: Landscape) => {
+      deleteMesh();
+      landscape = next;
+      mesh = buildSurfaceMesh(next);
+      meshBuffers = {
+        positions: createBuffer(gl, gl.ARRAY_BUFFER, mesh.positions),
+        normals: createBuffer(gl, gl.ARRAY_BUFFER, mesh.normals),
+        values: createBuffer(gl, gl.ARRAY_BUFFER, mesh.values),
+        indices: createBuffer(gl, gl.ELEMENT_ARRAY_BUFFER, mesh.indices)
+      };
+    },
+
+    draw: (camera: OrbitCamera, agents: Point[], trails: Point[][], showTrails: boolean) => {
+      if (!landscape || !mesh || !meshBuffers) return;
+      const lifted = (x: number, y: number): Vec3 => {
+        const p = surfacePoint(landscape, mesh, x, y);
+        return [p[0], p[1], p[2] + LINE_OFFSET];
+      };
+
+      gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+      gl.clearColor(0, 0, 0, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.enable(gl.DEPTH_TEST);
+      gl.useProgram(program);
+      gl.uniformMatrix4fv(uniforms.viewProjection, false, viewProjection(camera, gl.drawingBufferWidth / gl.drawingBufferHeight));
+      gl.uniform3fv(uniforms.light, normalize([0.4, -0.3, 1]));
+      gl.vertexAttrib3f(attributes.normal, 0, 0, 1);
+      gl.vertexAttrib1f(attributes.value, 0);
+
+      // Surface
+      bindAttribute(attributes.position, meshBuffers.positions, 3);
+      bindAttribute(attributes.normal, meshBuffers.normals, 3);
+      bindAttribute(attributes.value, meshBuffers.values, 1);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, meshBuffers.indices);
+      gl.uniformMatrix4fv(uniforms.model, false, IDENTITY);
+      gl.uniform4f(uniforms.color, 0, 0, 0, 1);
+      gl.uniform1f(uniforms.useRamp, 1);
+      gl.uniform1f(uniforms.lit, 1);
+      gl.drawElements(gl.TRIANGLES, mesh.indices.length, gl.UNSIGNED_SHORT, 0);
+
+      // Known optima: a yellow marker on the surface with a stem above it
+      const stems: number[] = [];
+      landscape.optima.forEach(o => {
+        const p = surfacePoint(landscape, mesh, o.x, o.y);
+        drawSphere(p, OPTIMUM_RADIUS, [0.98, 0.8, 0.08]);
+        stems.push(...p, p[0], p[1], p[2] + 0.25);
+      });
+      drawLines(stems, [0.98, 0.8, 0.08, 1]);
+
+      // Agents rest on the surface, the best one green as in the 2D view
+      const bestIndex = bestAgentIndex(agents);
+      agents.forEach((agent, i) => {
+        const p = surfacePoint(landscape, mesh, agent.x, agent.y);
+        const color: [number, number, number] = i === bestIndex && agents.length > 1 ? [0.2, 0.78, 0.35] : [1, 1, 1];
+        drawSphere([p[0], p[1], p[2] + AGENT_RADIUS], AGENT_RADIUS, color);
+      });
+
+      // Trails last, blended over everything opaque
+      if (showTrails && trails.length > 0) {
+        const segments: number[] = [];
+        trails.forEach(trail => {
+          for (let k = 1; k < trail.length; k++) {
+            const a = trail[k - 1];
+            const b = trail[k];
+            const length = Math.hypot(worldX(landscape, b.x) - worldX(landscape, a.x), worldY(landscape, b.y) - worldY(landscape, a.y));
+            const pieces = Math.max(1, Math.min(50, Math.ceil(length / LINE_STEP)));
+            let previous = lifted(a.x, a.y);
+            for (let s = 1; s <= pieces; s++) {
+              const next = lifted(a.x + ((b.x - a.x) * s) / pieces, a.y + ((b.y - a.y) * s) / pieces);
+              segments.push(...previous, ...next);
+              previous = next;
+            }
+          }
+        });
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+        drawLines(segments, [1, 1, 1, 0.5]);
+        gl.disable(gl.BLEND);
+      }
+    },
+
+    dispose: () => {
+      deleteMesh();
+      gl.deleteBuffer(sphereBuffers.positions);
+      gl.deleteBuffer(sphereBuffers.indices);
+      gl.deleteBuffer(lineBuffer);
+      gl.deleteProgram(program);
+    }
+  };
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, OptimizationConfig } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES, RESEARCH_OPTIONS } from '../constants';
+import { buildSweepGrid, runBenchmark, runSweep } from './sweep';
+import { iterationsToThreshold, runHeadless } from './runner';
+
+const bowl = LANDSCAPES.find(l => l.name === 'Convex Bowl');
+const rastrigin = LANDSCAPES.find(l => l.name === 'Rastrigin Function');
+const base: OptimizationConfig = { ...INITIAL_CONFIG };
+
+describe('buildSweepGrid', () => {
+  it('crosses learning rates with iteration limits for every algorithm', () => {
+    const grid = buildSweepGrid([AlgorithmType.HILL_CLIMBING], base);
+    expect(grid).toHaveLength(RESEARCH_OPTIONS.learningRates.length * RESEARCH_OPTIONS.maxIterations.length);
+    RESEARCH_OPTIONS.learningRates.forEach(lr => expect(grid.some(c => c.learningRate === lr)).toBe(true));
+  });
+
+  it('adds the parameters only some algorithms use', () => {
+    const annealing = buildSweepGrid([AlgorithmType.SIMULATED_ANNEALING], base);
+    RESEARCH_OPTIONS.temperatures.forEach(t => expect(annealing.some(c => c.temperature === t)).toBe(true));
+    expect(annealing.length).toBeGreaterThan(buildSweepGrid([AlgorithmType.HILL_CLIMBING], base).length);
+  });
+
+  it('keeps the base seed and only the requested algorithms', () => {
+    const grid = buildSweepGrid([AlgorithmType.GREEDY, AlgorithmType.GENETIC], base);
+    grid.forEach(cell => {
+      expect([AlgorithmType.GREEDY, AlgorithmType.GENETIC]).toContain(cell.algo);
+      expect(cell.seed).toBe(base.seed);
+    });
+  });
+});
+
+describe('iterationsToThreshold', () => {
+  const history = [5, 3, 4, 0.5, 0.05].map((cost, iteration) => ({ iteration, cost, evaluations: iteration, elapsedMs: 0 }));
+
+  it('finds the first iteration whose best-so-far is within tolerance', () => {
+    expect(iterationsToThreshold(history, 0, 1)).toBe(3);
+    expect(iterationsToThreshold(history, 0, 0.1)).toBe(4);
+  });
+
+  it('is null when the run never gets there', () => {
+    expect(iterationsToThreshold(history, 0, 0.01)).toBeNull();
+  });
+});
+
+describe('runSweep', () => {
+  const grid = buildSweepGrid([AlgorithmType.HILL_CLIMBING], { ...base, maxIterations: 20 }).slice(0, 3);
+
+  it('reports one result per cell, reproducibly', async () => {
+    const first = await runSweep(grid, bowl, { seedsPerCell: 2, tolerance: 0.1 });
+    expect(first).toHaveLength(grid.length);
+    first.forEach(result => {
+      expect(Number.isFinite(result.meanBestCost)).toBe(true);
+      expect(result.successRate).toBeGreaterThanOrEqual(0);
+      expect(result.successRate).toBeLessThanOrEqual(1);
+    });
+    expect(await runSweep(grid, bowl, { seedsPerCell: 2, tolerance: 0.1 })).toEqual(first);
+  });
+
+  it('finishes with a complete progress report', async () => {
+    const reports: [number, number][] = [];
+    await runSweep(grid, bowl, { seedsPerCell: 2, tolerance: 0.1, onProgress: (done, total) => reports.push([done, total]) });
+    expect(reports[reports.length - 1]).toEqual([grid.length * 2, grid.length * 2]);
+  });
+
+  it('stops at once when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await runSweep(grid, bowl, { seedsPerCell: 2, tolerance: 0.1, signal: controller.signal })).toEqual([]);
+  });
+});
+
+describe('runBenchmark', () => {
+  const config: OptimizationConfig = { ...INITIAL_CONFIG, algo: AlgorithmType.HILL_CLIMBING, seed: 1, maxIterations: 50 };
+  const seeds = 10;
+
+  it('reports one final cost per seed and a success rate between 0 and 1', async () => {
+    const result = await runBenchmark(config, rastrigin, { seeds, tolerance: 0.1 });
+    expect(result.finalCosts).toHaveLength(seeds);
+    expect(result.meanCI[0]).toBeLessThanOrEqual(result.meanBestCost);
+    expect(result.meanCI[1]).toBeGreaterThanOrEqual(result.meanBestCost);
+    expect(result.successRate).toBeGreaterThanOrEqual(0);
+    expect(result.successRate).toBeLessThanOrEqual(1);
+  });
+
+  it('summarises the best-so-far curve at every iteration', async () => {
+    const { curve } = await runBenchmark(config, rastrigin, { seeds, tolerance: 0.1 });
+    expect(curve).toHaveLength(config.maxIterations + 1);
+    curve.forEach(point => {
+      expect(point.q25).toBeLessThanOrEqual(point.median);
+      expect(point.median).toBeLessThanOrEqual(point.q75);
+    });
+    curve.slice(1).forEach((point, i) => expect(point.median).toBeLessThanOrEqual(curve[i].median));
+  });
+
+  it('counts expected running time in evaluations, failures included', async () => {
+    const onBowl = { ...config, algo: AlgorithmType.ADAM };
+    let spent = 0;
+    let successes = 0;
+    for (let k = 0; k < seeds; k++) {
+      const state = runHeadless({ ...onBowl, seed: onBowl.seed + k }, bowl);
+      const hit = iterationsToThreshold(state.history, bowl.globalMin, 0.1);
+      if (hit !== null) successes++;
+      spent += hit !== null ? state.history[hit].evaluations : state.evaluations;
+    }
+    const result = await runBenchmark(onBowl, bowl, { seeds, tolerance: 0.1 });
+    expect(successes).toBeGreaterThan(0);
+    expect(result.expectedRunningTime).toBeCloseTo(spent / successes, 9);
+  });
+
+  it('builds the curve to the longest seed when runs stop at different iterations', async () => {
+    // Stopping on tolerance or stagnation makes seeds end at different iterations
+    const ragged: OptimizationConfig = { ...config, maxIterations: INITIAL_CONFIG.maxIterations, stopOnTolerance: true, stagnationWindow: 15 };
+    const runLengths = Array.from({ length: seeds }, (_, k) => runHeadless({ ...ragged, seed: ragged.seed + k }, rastrigin).history.length);
+    expect(new Set(runLengths).size).toBeGreaterThan(1);
+
+    const { curve } = await runBenchmark(ragged, rastrigin, { seeds, tolerance: 0.1 });
+    expect(curve).toHaveLength(Math.max(...runLengths));
+    curve.forEach(point => expect([point.q25, point.median, point.q75].every(Number.isFinite)).toBe(true));
+  });
+
+  it('returns null when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await runBenchmark(config, rastrigin, { seeds, tolerance: 0.1, signal: controller.signal })).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { AlgorithmType, BenchmarkResult, Landscape, OptimizationConfig, SweepCellResult } from '../types';
+import { RESEARCH_OPTIONS } from '../constants';
+import { distanceToOptimum, iterationsToThreshold, runHeadless } from './runner';
+import { bootstrapMeanCI, mean, median, quantile } from './statistics';
+
+// Every combination of RESEARCH_OPTIONS relevant to each algorithm (the "variants" on the Research tab)
+export const buildSweepGrid = (algos: AlgorithmType[], base: OptimizationConfig): OptimizationConfig[] => {
+  const grid: OptimizationConfig[] = [];
+
+  for (const algo of algos) {
+    // Differential Evolution takes its step size from the population itself, so the learning rate is moot
+    const learningRates = algo === AlgorithmType.DIFFERENTIAL_EVOLUTION ? [base.learningRate] : RESEARCH_OPTIONS.learningRates;
+
+    for (const learningRate of learningRates) {
+      for (const maxIterations of RESEARCH_OPTIONS.maxIterations) {
+        const cell = { ...base, algo, learningRate, maxIterations };
+
+        if (algo === AlgorithmType.SIMULATED_ANNEALING) {
+          RESEARCH_OPTIONS.temperatures.forEach(temperature => grid.push({ ...cell, temperature }));
+        } else if (algo === AlgorithmType.GENETIC) {
+          RESEARCH_OPTIONS.populationSizes.forEach(populationSize =>
+            RESEARCH_OPTIONS.mutationRates.forEach(mutationRate => grid.push({ ...cell, populationSize, mutationRate }))
+          );
+        } else if (algo === AlgorithmType.MOMENTUM || algo === AlgorithmType.NESTEROV) {
+          RESEARCH_OPTIONS.momentums.forEach(momentum => grid.push({ ...cell, momentum }));
+        } else if (algo === AlgorithmType.RMSPROP) {
+          RESEARCH_OPTIONS.rmsDecays.forEach(rmsDecay => grid.push({ ...cell, rmsDecay }));
+        } else if (algo === AlgorithmType.ADAM) {
+          RESEARCH_OPTIONS.beta1s.forEach(beta1 =>
+            RESEARCH_OPTIONS.beta2s.forEach(beta2 => grid.push({ ...cell, beta1, beta2 }))
+          );
+        } else if (algo === AlgorithmType.PARTICLE_SWARM) {
+          // Cognitive / social coefficients stay at the Setup values to keep the grid tractable
+          RESEARCH_OPTIONS.populationSizes.forEach(populationSize =>
+            RESEARCH_OPTIONS.inertias.forEach(inertia => grid.push({ ...cell, populationSize, inertia }))
+          );
+        } else if (algo === AlgorithmType.CMA_ES) {
+          RESEARCH_OPTIONS.populationSizes.forEach(populationSize => grid.push({ ...cell, populationSize }));
+        } else if (algo === AlgorithmType.DIFFERENTIAL_EVOLUTION) {
+          RESEARCH_OPTIONS.populationSizes.forEach(populationSize =>
+            RESEARCH_OPTIONS.differentialWeights.forEach(differentialWeight =>
+              RESEARCH_OPTIONS.crossoverRates.forEach(crossoverRate => grid.push({ ...cell, populationSize, differentialWeight, crossoverRate }))
+            )
+          );
+        } else {
+          grid.push(cell);
+        }
+      }
+    }
+  }
+
+  return grid;
+};
+
+// Helper: Yield to the event loop so the UI can paint progress and react to cancel
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const runSweep = async (
+  grid: OptimizationConfig[],
+  landscape: Landscape,
+  options: {
+    seedsPerCell: number;
+    tolerance: number; // Success = best cost within this of landscape.globalMin
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+  }
+): Promise<SweepCellResult[]> => {
+  const { seedsPerCell, tolerance, signal, onProgress } = options;
+  const total = grid.length * seedsPerCell;
+  const results: SweepCellResult[] = [];
+  let done = 0;
+  let sliceStart = performance.now();
+
+  for (const cell of grid) {
+    const finalCosts: number[] = [];
+    const finalDistances: number[] = [];
+    const hitIterations: number[] = [];
+
+    for (let k = 0; k < seedsPerCell; k++) {
+      if (signal?.aborted) return results; // Keep whatever finished before cancel
+
+      // Same seeds in every cell, so cells differ only by their parameters
+      const state = runHeadless({ ...cell, seed: cell.seed + k }, landscape);
+      finalCosts.push(state.bestPoint?.value ?? Infinity);
+      const distance = distanceToOptimum(landscape, state.bestPoint);
+      if (distance !== null) finalDistances.push(distance);
+      const hit = iterationsToThreshold(state.history, landscape.globalMin, tolerance);
+      if (hit !== null) hitIterations.push(hit);
+
+      done++;
+      // Time-slice so long sweeps don't freeze the page
+      if (performance.now() - sliceStart > 30) {
+        onProgress?.(done, total);
+        await yieldToUI();
+        sliceStart = performance.now();
+      }
+    }
+
+    results.push({
+      config: cell,
+      meanBestCost: finalCosts.reduce((a, b) => a + b, 0) / finalCosts.length,
+      meanDistanceToOptimum: finalDistances.length > 0
+        ? finalDistances.reduce((a, b) => a + b, 0) / finalDistances.length
+        : null,
+      meanIterationsToThreshold: hitIterations.length > 0
+        ? hitIterations.reduce((a, b) => a + b, 0) / hitIterations.length
+        : null,
+      successRate: hitIterations.length / seedsPerCell
+    });
+  }
+
+  onProgress?.(done, total);
+  return results;
+};
+
+// Repeat one config across `seeds` consecutive seeds; null if cancelled (a partial sample would mislead)
+export const runBenchmark = async (
+  config: OptimizationConfig,
+  landscape: Landscape,
+  options: {
+    seeds: number;
+    tolerance: number;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+  }
+): Promise<BenchmarkResult | null> => {
+  const { seeds, tolerance, signal, onProgress } = options;
+  const finalCosts: number[] = [];
+  const bestSoFarCurves: number[][] = [];
+  let successes = 0;
+  let evaluationsSpent = 0;
+  let sliceStart = performance.now();
+
+  for (let k = 0; k < seeds; k++) {
+    if (signal?.aborted) return null;
+
+    const state = runHeadless({ ...config, seed: config.seed + k }, landscape);
+    finalCosts.push(state.bestPoint?.value ?? Infinity);
+
+    let bestSoFar = Infinity;
+    bestSoFarCurves.push(state.history.map(h => (bestSoFar = Math.min(bestSoFar, h.cost))));
+
+    // Expected running time: every evaluation spent, successful or not, divided by the number of successes.
+    // Counted in evaluations rather than iterations so cheap and expensive steps are compared fairly.
+    const hit = iterationsToThreshold(state.history, landscape.globalMin, tolerance);
+    if (hit !== null) successes++;
+    evaluationsSpent += hit !== null ? state.history[hit].evaluations : state.evaluations;
+
+    if (performance.now() - sliceStart > 30) {
+      onProgress?.(k + 1, seeds);
+      await yieldToUI();
+      sliceStart = performance.now();
+    }
+  }
+  onProgress?.(seeds, seeds);
+
+  // Seeds stop at different iterations: a finished run holds its final best-so-far until the longest one ends
+  const length = Math.max(...bestSoFarCurves.map(c => c.length));
+  const curve = Array.from({ length }, (_, i) => {
+    const column = bestSoFarCurves.map(c => c[Math.min(i, c.length - 1)]);
+    return { iteration: i, q25: quantile(column, 0.25), median: median(column), q75: quantile(column, 0.75) };
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    label: `${config.algo.replace(/_/g, ' ')} · lr ${config.learningRate}`,
+    config,
+    landscapeName: landscape.name,
+    tolerance,
+    finalCosts,
+    meanBestCost: mean(finalCosts),
+    medianBestCost: median(finalCosts),
+    meanCI: bootstrapMeanCI(finalCosts, 0.95, 2000, config.seed),
+    successRate: successes / seeds,
+    expectedRunningTime: successes > 0 ? evaluationsSpent / successes : null,
+    curve
+  };
+};
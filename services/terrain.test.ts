@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Landscape } from '../types';
+import { LANDSCAPES } from '../constants';
+import { evaluateField } from './heatmap';
+import { findBasins, quiverArrows } from './terrain';
+
+const bowl = LANDSCAPES.find(l => l.name === 'Convex Bowl'); // x^2 + y^2 on [-5, 5]^2
+
+// Two wells, the deeper one on the left: (x^2 - 9)^2 / 10 + x + y^2
+const doubleWell: Landscape = { ...bowl, name: 'Double Well', func: (x, y) => (x * x - 9) ** 2 / 10 + x + y * y };
+
+describe('quiverArrows', () => {
+  it('points downhill, toward the bottom of the bowl', () => {
+    const arrows = quiverArrows(bowl, 256, 256);
+    expect(arrows.length).toBeGreaterThan(0);
+    arrows.forEach(a => {
+      // On screen the bowl's bottom is the centre; each arrow should head toward it
+      expect(a.dx * (128 - a.x) + a.dy * (128 - a.y)).toBeGreaterThan(0);
+      expect(Math.hypot(a.dx, a.dy)).toBeCloseTo(1, 9);
+    });
+  });
+
+  it('draws steeper slopes with longer arrows, up to the spacing', () => {
+    const arrows = quiverArrows(bowl, 256, 256, 32);
+    const distance = (a: { x: number; y: number }) => Math.hypot(a.x - 128, a.y - 128);
+    const inner = arrows.reduce((best, a) => (distance(a) < distance(best) ? a : best));
+    const outer = arrows.reduce((best, a) => (distance(a) > distance(best) ? a : best));
+    expect(outer.length).toBeGreaterThan(inner.length);
+    arrows.forEach(a => expect(a.length).toBeLessThanOrEqual(32 * 0.8));
+  });
+});
+
+describe('findBasins', () => {
+  it('finds the single basin of the bowl at its centre', () => {
+    const basins = findBasins(evaluateField(bowl, 64, 64), bowl, 4);
+    expect(basins.minima).toHaveLength(1);
+    expect(Math.hypot(basins.minima[0].x, basins.minima[0].y)).toBeLessThan(0.5);
+    expect(Array.from(basins.labels).every(l => l === 0)).toBe(true);
+  });
+
+  it('splits a double well into two basins along the ridge', () => {
+    const basins = findBasins(evaluateField(doubleWell, 80, 80), doubleWell, 4);
+    expect(basins.minima).toHaveLength(2);
+    const [left, right] = [...basins.minima].sort((a, b) => a.x - b.x);
+    expect(left.x).toBeCloseTo(-3, 0);
+    expect(right.x).toBeCloseTo(3, 0);
+    expect(left.value).toBeLessThan(right.value);
+    // Far-left and far-right cells of the middle row drain to different minima
+    const row = Math.floor(basins.rows / 2) * basins.columns;
+    expect(basins.minima[basins.labels[row]]).toBe(left);
+    expect(basins.minima[basins.labels[row + basins.columns - 1]]).toBe(right);
+  });
+
+  it('drains a plateau to a single sink', () => {
+    const flat = { ...bowl, func: () => 1 };
+    const basins = findBasins(evaluateField(flat, 32, 32), flat, 4);
+    expect(basins.minima).toHaveLength(1);
+  });
+});
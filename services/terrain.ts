@@ -0,0 +1,103 @@
+// Terrain analysis behind the Visualizer overlays: descent directions, local minima and basins of attraction.
+import { BasinMap, Landscape, QuiverArrow, ScalarField } from '../types';
+import { numericalGradient } from './optimizer';
+
+// Pixels per basin-search cell
+export const BASIN_CELL = 4;
+// Pixels between descent arrows
+export const QUIVER_SPACING = 32;
+
+// Descent arrows on a regular grid; length grows with the square root of the slope so gentle regions still show
+export const quiverArrows = (view: Landscape, width: number, height: number, spacing = QUIVER_SPACING): QuiverArrow[] => {
+  const scaleX = width / (view.maxX - view.minX);
+  const scaleY = height / (view.maxY - view.minY);
+  const samples: { x: number; y: number; sx: number; sy: number; magnitude: number }[] = [];
+  for (let py = spacing / 2; py < height; py += spacing) {
+    for (let px = spacing / 2; px < width; px += spacing) {
+      const g = numericalGradient(
+        view,
+        view.minX + (px / width) * (view.maxX - view.minX),
+        view.minY + ((height - py) / height) * (view.maxY - view.minY)
+      );
+      // -gradient, projected to the screen (y down)
+      const sx = -g.x * scaleX;
+      const sy = g.y * scaleY;
+      const magnitude = Math.hypot(sx, sy);
+      if (Number.isFinite(magnitude) && magnitude > 0) samples.push({ x: px, y: py, sx, sy, magnitude });
+    }
+  }
+  const steepest = Math.max(...samples.map(s => s.magnitude));
+  return samples.map(s => ({
+    x: s.x,
+    y: s.y,
+    dx: s.sx / s.magnitude,
+    dy: s.sy / s.magnitude,
+    length: spacing * 0.8 * Math.max(0.25, Math.sqrt(s.magnitude / steepest))
+  }));
+};
+
+// Follow the steepest downhill neighbour from every cell; cells that reach the same sink share a basin
+export const findBasins = (field: ScalarField, view: Landscape, cell = BASIN_CELL): BasinMap => {
+  const columns = Math.ceil(field.width / cell);
+  const rows = Math.ceil(field.height / cell);
+  const count = columns * rows;
+
+  // Cost at each cell centre, read from the field already evaluated for the heatmap
+  const pixel = (c: number, r: number) => ({
+    px: Math.min(field.width - 1, c * cell + (cell >> 1)),
+    py: Math.min(field.height - 1, r * cell + (cell >> 1))
+  });
+  const values = new Float64Array(count);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const { px, py } = pixel(c, r);
+      values[r * columns + c] = field.values[py * field.width + px];
+    }
+  }
+
+  // Downhill pointer per cell; a cell with no lower neighbour is a sink (plateaus drain to their first cell)
+  const next = new Int32Array(count);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const i = r * columns + c;
+      let target = i;
+      let flat = -1;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if ((dr === 0 && dc === 0) || nr < 0 || nr >= rows || nc < 0 || nc >= columns) continue;
+          const j = nr * columns + nc;
+          if (values[j] < values[target]) target = j;
+          else if (values[j] === values[i] && j < i && flat < 0) flat = j;
+        }
+      }
+      next[i] = target === i && flat >= 0 ? flat : target;
+    }
+  }
+
+  // Label cells by their sink, compressing each path as it is walked
+  const labels = new Int32Array(count).fill(-1);
+  const minima: BasinMap['minima'] = [];
+  const path: number[] = [];
+  for (let i = 0; i < count; i++) {
+    let k = i;
+    while (labels[k] < 0 && next[k] !== k) {
+      path.push(k);
+      k = next[k];
+    }
+    if (labels[k] < 0) {
+      const { px, py } = pixel(k % columns, Math.floor(k / columns));
+      labels[k] = minima.length;
+      minima.push({
+        x: view.minX + (px / field.width) * (view.maxX - view.minX),
+        y: view.minY + ((field.height - py) / field.height) * (view.maxY - view.minY),
+        value: values[k]
+      });
+    }
+    path.forEach(p => { labels[p] = labels[k]; });
+    path.length = 0;
+  }
+
+  return { columns, rows, cell, labels, minima };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, OptimizationConfig, SimulationFrame, SimulationState, TimelineFrame } from '../types';
+import { INITIAL_CONFIG, LANDSCAPES } from '../constants';
+import { advanceSimulation, createInitialState, packAgents, unpackAgents } from './runner';
+import {
+  createTimeline, frameAt, optimizerStateAt, recordFrame, recordSimulationFrame, replayState, sampleIterations, sceneAt, timelineBounds, trailsAt
+} from './timeline';
+
+// Helper: A recorded iteration with one agent at (iteration, 0)
+const frame = (iteration: number): TimelineFrame => ({
+  iteration,
+  agents: packAgents([{ x: iteration, y: 0, value: iteration }]),
+  bestPoint: null,
+  optimizerState: {}
+});
+
+describe('ring buffer', () => {
+  it('is empty to begin with', () => {
+    const timeline = createTimeline(4);
+    expect(timelineBounds(timeline)).toBeNull();
+    expect(frameAt(timeline, 0)).toBeNull();
+    expect(trailsAt(timeline, 0, AlgorithmType.HILL_CLIMBING)).toEqual([]);
+  });
+
+  it('finds every iteration while there is room', () => {
+    const timeline = createTimeline(4);
+    [0, 1, 2].forEach(i => recordFrame(timeline, frame(i)));
+    expect(timelineBounds(timeline)).toEqual({ first: 0, last: 2 });
+    [0, 1, 2].forEach(i => expect(frameAt(timeline, i).iteration).toBe(i));
+    expect(frameAt(timeline, 3)).toBeNull();
+  });
+
+  it('drops the oldest iterations once full', () => {
+    const timeline = createTimeline(4);
+    for (let i = 0; i < 11; i++) recordFrame(timeline, frame(i));
+    expect(timeline.frames).toHaveLength(4);
+    expect(timelineBounds(timeline)).toEqual({ first: 7, last: 10 });
+    expect(frameAt(timeline, 6)).toBeNull();
+    [7, 8, 9, 10].forEach(i => expect(frameAt(timeline, i).iteration).toBe(i));
+  });
+
+  it('rebuilds trails up to the viewed iteration', () => {
+    const timeline = createTimeline(4);
+    for (let i = 0; i < 6; i++) recordFrame(timeline, frame(i));
+    const trails = trailsAt(timeline, 4, AlgorithmType.HILL_CLIMBING);
+    expect(trails).toHaveLength(1);
+    expect(trails[0].map(p => p.x)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('sampleIterations', () => {
+  it('spaces at most maxFrames iterations evenly, ending on the latest', () => {
+    const timeline = createTimeline();
+    for (let i = 0; i < 10; i++) recordFrame(timeline, frame(i));
+    expect(sampleIterations(timeline, 4)).toEqual([0, 3, 6, 9]);
+    expect(sampleIterations(timeline, 3)).toEqual([1, 5, 9]);
+    expect(sampleIterations(timeline, 20)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(sampleIterations(createTimeline(), 4)).toEqual([]);
+  });
+});
+
+describe('sceneAt', () => {
+  it('redraws a recorded iteration with its trail and caption', () => {
+    const timeline = createTimeline();
+    for (let i = 0; i < 5; i++) recordFrame(timeline, frame(i));
+    const scene = sceneAt(timeline, 3, AlgorithmType.HILL_CLIMBING, [], true);
+    expect(scene.agents).toEqual([{ x: 3, y: 0, value: 3 }]);
+    expect(scene.trails[0].map(p => p.x)).toEqual([0, 1, 2, 3]);
+    expect(scene.caption).toEqual(['Iteration 3', 'Best f = —']);
+    expect(sceneAt(timeline, 7, AlgorithmType.HILL_CLIMBING, [], true)).toBeNull();
+  });
+});
+
+describe('recordSimulationFrame', () => {
+  const landscape = LANDSCAPES.find(l => l.name === 'Rastrigin Function');
+  const config: OptimizationConfig = { ...INITIAL_CONFIG, algo: AlgorithmType.PARTICLE_SWARM, populationSize: 5 };
+  const states: SimulationState[] = [createInitialState(config, landscape)];
+  for (let i = 0; i < 5; i++) states.push(advanceSimulation(states[i], config, landscape));
+
+  // Helper: The parts of a worker frame the timeline reads, covering states[from..to]
+  const workerFrame = (from: number, to: number, reset = false) => ({
+    reset,
+    iteration: states[to].iteration,
+    steps: states.slice(from, to + 1).map(s => packAgents(s.agents)),
+    snapshots: states.slice(from, to + 1).map(s => ({ bestPoint: s.bestPoint, optimizerState: s.optimizerState }))
+  }) as SimulationFrame;
+
+  it('records each batched step under its own iteration', () => {
+    const timeline = createTimeline();
+    recordSimulationFrame(timeline, workerFrame(0, 0, true));
+    recordSimulationFrame(timeline, workerFrame(1, 3));
+    recordSimulationFrame(timeline, workerFrame(4, 5));
+    expect(timelineBounds(timeline)).toEqual({ first: 0, last: 5 });
+    states.forEach(s => {
+      const recorded = frameAt(timeline, s.iteration);
+      expect(unpackAgents(recorded.agents)).toEqual(s.agents);
+      expect(recorded.bestPoint).toEqual(s.bestPoint);
+      expect(recorded.optimizerState).toEqual(s.optimizerState);
+    });
+  });
+
+  it('starts over on a reset frame', () => {
+    const timeline = createTimeline();
+    recordSimulationFrame(timeline, workerFrame(0, 3, true));
+    recordSimulationFrame(timeline, workerFrame(0, 0, true));
+    expect(timelineBounds(timeline)).toEqual({ first: 0, last: 0 });
+  });
+});
+
+describe('replayed optimizer state', () => {
+  // Helper: An n x n covariance filled with one value, so frames can be told apart
+  const covariance = (n: number, value: number) => Array.from({ length: n }, () => Array(n).fill(value));
+
+  it('keeps only what a replay reads', () => {
+    const state = { velocity: [[1, 2]], pathC: [0, 1], temperature: 3, reheats: 1, sigma: 0.5, mean: [0, 0], covariance: covariance(2, 1) };
+    expect(replayState(state, 7)).toEqual({ temperature: 3, reheats: 1, sigma: 0.5, mean: [0, 0], covariance: covariance(2, 1) });
+  });
+
+  it('thins large covariances and replays the latest one recorded', () => {
+    const timeline = createTimeline();
+    for (let i = 0; i <= 30; i++) {
+      recordFrame(timeline, { ...frame(i), optimizerState: replayState({ sigma: 1, mean: Array(11).fill(0), covariance: covariance(11, i) }, i) });
+    }
+    expect(frameAt(timeline, 10).optimizerState.covariance).toBeUndefined();
+    expect(optimizerStateAt(timeline, 10).covariance).toEqual(covariance(11, 1));
+    expect(optimizerStateAt(timeline, 26).covariance).toEqual(covariance(11, 26));
+    expect(optimizerStateAt(timeline, 30).covariance).toEqual(covariance(11, 26));
+    expect(optimizerStateAt(timeline, 31)).toBeNull();
+  });
+});
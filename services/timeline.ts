@@ -0,0 +1,139 @@
+// Recorded history of a run's iterations, so the UI can scrub, step back and replay.
+// Frames arrive in iteration order from the worker and are kept in a ring buffer of fixed size.
+import { AlgorithmType, FrameScene, LineageNode, OptimizerState, Point, ProjectionPlane, SimulationFrame, Timeline, TimelineFrame } from '../types';
+import { appendTrails, unpackAgents } from './runner';
+import { searchDistribution } from './optimizer';
+import { LINEAGE_DEPTH, frameCaption } from './render';
+import { projectPoint } from './dimensions';
+
+// Enough for long runs of large populations without holding on to unbounded memory
+export const TIMELINE_CAPACITY = 2000;
+
+// How far back trails are rebuilt when viewing a past iteration (matches the live trail length)
+const TRAIL_LENGTH = 100;
+
+// CMA-ES covariances larger than 10 x 10 are only recorded every COVARIANCE_STRIDE iterations from the first step on;
+// a full matrix per frame would dominate the timeline's memory in high dimensions
+const FULL_COVARIANCE_ENTRIES = 100;
+const COVARIANCE_STRIDE = 25;
+
+// The parts of an optimizer's state a replayed frame reads: the annealing readout and the search distribution
+export const replayState = (state: OptimizerState, iteration: number): OptimizerState => {
+  const { temperature, reheats, sigma, mean, covariance } = state;
+  const keepCovariance = covariance && (covariance.length ** 2 <= FULL_COVARIANCE_ENTRIES || (iteration - 1) % COVARIANCE_STRIDE === 0);
+  return { temperature, reheats, sigma, mean, covariance: keepCovariance ? covariance : undefined };
+};
+
+export const createTimeline = (capacity = TIMELINE_CAPACITY): Timeline => ({ frames: [], capacity, start: 0, size: 0 });
+
+// Append one iteration, dropping the oldest once full (mutates the timeline)
+export const recordFrame = (timeline: Timeline, frame: TimelineFrame) => {
+  if (timeline.size < timeline.capacity) {
+    timeline.frames.push(frame);
+    timeline.size++;
+  } else {
+    timeline.frames[timeline.start] = frame;
+    timeline.start = (timeline.start + 1) % timeline.capacity;
+  }
+};
+
+// Fold a worker frame's steps into the timeline, starting over when the run was reset
+export const recordSimulationFrame = (timeline: Timeline, frame: SimulationFrame) => {
+  if (frame.reset) {
+    timeline.frames = [];
+    timeline.start = 0;
+    timeline.size = 0;
+  }
+  const firstIteration = frame.iteration - frame.steps.length + 1;
+  frame.steps.forEach((agents, i) => {
+    const snapshot = frame.snapshots[i];
+    if (!snapshot) return;
+    recordFrame(timeline, { iteration: firstIteration + i, agents, ...snapshot });
+  });
+};
+
+// First and last recorded iterations, or null when nothing is recorded
+export const timelineBounds = (timeline: Timeline): { first: number; last: number } | null => {
+  if (timeline.size === 0) return null;
+  return {
+    first: timeline.frames[timeline.start].iteration,
+    last: timeline.frames[(timeline.start + timeline.size - 1) % timeline.capacity].iteration
+  };
+};
+
+// Iterations are contiguous, so a frame is found by offset from the oldest
+export const frameAt = (timeline: Timeline, iteration: number): TimelineFrame | null => {
+  const bounds = timelineBounds(timeline);
+  if (!bounds || iteration < bounds.first || iteration > bounds.last) return null;
+  return timeline.frames[(timeline.start + iteration - bounds.first) % timeline.capacity];
+};
+
+// A recorded iteration's optimizer state, with the covariance of the latest earlier frame that kept one
+export const optimizerStateAt = (timeline: Timeline, iteration: number): OptimizerState | null => {
+  const frame = frameAt(timeline, iteration);
+  if (!frame) return null;
+  if (!frame.optimizerState.mean || frame.optimizerState.covariance) return frame.optimizerState;
+  for (let i = iteration - 1; i > iteration - COVARIANCE_STRIDE; i--) {
+    const covariance = frameAt(timeline, i)?.optimizerState.covariance;
+    if (covariance) return { ...frame.optimizerState, covariance };
+  }
+  return frame.optimizerState;
+};
+
+// Agent trails as they looked at a past iteration
+export const trailsAt = (timeline: Timeline, iteration: number, algo: AlgorithmType): Point[][] => {
+  const bounds = timelineBounds(timeline);
+  if (!bounds) return [];
+  let trails: Point[][] = [];
+  for (let i = Math.max(bounds.first, iteration - TRAIL_LENGTH); i <= iteration; i++) {
+    const frame = frameAt(timeline, i);
+    if (!frame) break;
+    const agents = unpackAgents(frame.agents);
+    trails = trails.length === 0 ? agents.map(a => [a]) : appendTrails(trails, agents, algo);
+  }
+  return trails;
+};
+
+// Everything needed to redraw a recorded iteration, captioned with its iteration and best-so-far cost
+export const sceneAt = (
+  timeline: Timeline,
+  iteration: number,
+  algo: AlgorithmType,
+  lineage: LineageNode[][],
+  showTrails: boolean,
+  plane?: ProjectionPlane // View plane for runs with more than two dimensions
+): FrameScene | null => {
+  const frame = frameAt(timeline, iteration);
+  if (!frame) return null;
+  const agents = unpackAgents(frame.agents);
+  const scene: FrameScene = {
+    agents,
+    trails: trailsAt(timeline, iteration, algo),
+    lineage: lineage.slice(0, iteration + 1),
+    distribution: searchDistribution(optimizerStateAt(timeline, iteration), agents[0], plane),
+    showTrails,
+    caption: frameCaption(iteration, frame.bestPoint)
+  };
+  return plane ? projectScene(scene, plane) : scene;
+};
+
+// A scene's agents, trails and lineage in view coordinates on a plane (the distribution is projected by searchDistribution).
+// Only the generations the view draws lineage edges for are projected.
+export const projectScene = (scene: FrameScene, plane: ProjectionPlane): FrameScene => ({
+  ...scene,
+  agents: scene.agents.map(a => projectPoint(plane, a)),
+  trails: scene.trails.map(trail => trail.map(p => projectPoint(plane, p))),
+  lineage: scene.lineage.map((members, g) => (
+    g >= scene.lineage.length - 1 - LINEAGE_DEPTH ? members.map(n => projectPoint(plane, n)) : members
+  ))
+});
+
+// Evenly spaced recorded iterations, at most maxFrames of them and always ending on the latest
+export const sampleIterations = (timeline: Timeline, maxFrames: number): number[] => {
+  const bounds = timelineBounds(timeline);
+  if (!bounds) return [];
+  const stride = Math.max(1, Math.ceil((bounds.last - bounds.first + 1) / maxFrames));
+  const iterations: number[] = [];
+  for (let i = bounds.last; i >= bounds.first; i -= stride) iterations.unshift(i);
+  return iterations;
+};
@@ -3,21 +3,132 @@ export enum AlgorithmType {
   HILL_CLIMBING = 'HILL_CLIMBING',
   SIMULATED_ANNEALING = 'SIMULATED_ANNEALING',
   GENETIC = 'GENETIC',
+  GRADIENT_DESCENT = 'GRADIENT_DESCENT',
+  MOMENTUM = 'MOMENTUM',
+  NESTEROV = 'NESTEROV',
+  RMSPROP = 'RMSPROP',
+  ADAM = 'ADAM',
+  PARTICLE_SWARM = 'PARTICLE_SWARM',
+  DIFFERENTIAL_EVOLUTION = 'DIFFERENTIAL_EVOLUTION',
+  CMA_ES = 'CMA_ES',
+  ONE_PLUS_ONE_ES = 'ONE_PLUS_ONE_ES',
 }
 
 export interface Point {
   x: number;
   y: number;
   value: number; // The z-value or cost
+  coords?: number[]; // Full position on landscapes with more than two dimensions (x and y repeat coords[0] and coords[1])
+  id?: number; // Genetic only: stable identity, kept by elites across generations
+  parents?: number[]; // Genetic only: ids of the individuals this one was bred from
+}
+
+// One individual in the genetic algorithm's family tree
+export interface LineageNode {
+  id: number;
+  parents: number[]; // Empty for the initial population; one id when both parents were the same individual
+  x: number;
+  y: number;
+  value: number;
+  coords?: number[]; // As on Point, for landscapes with more than two dimensions
+}
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+// Per-algorithm memory that survives between steps (per-agent arrays are indexed like agents; vectors have one entry per dimension)
+export interface OptimizerState {
+  velocity?: number[][]; // Momentum / Nesterov / Particle Swarm
+  firstMoment?: number[][]; // Adam running mean of gradients
+  secondMoment?: number[][]; // RMSProp / Adam running mean of squared gradients
+  step?: number; // Adam bias-correction counter
+  personalBest?: Point[]; // Particle Swarm: best position each particle has visited
+  swarmBest?: Point; // Particle Swarm: best position any particle has visited
+  mean?: number[]; // CMA-ES: centre of the search distribution
+  sigma?: number; // CMA-ES / (1+1)-ES: global step size
+  covariance?: number[][]; // CMA-ES: shape of the search distribution (n x n)
+  pathC?: number[]; // CMA-ES: evolution path for the covariance
+  pathSigma?: number[]; // CMA-ES: conjugate evolution path for the step size
+  generation?: number; // CMA-ES
+  temperature?: number; // Simulated Annealing: temperature used for the latest step
+  acceptanceRate?: number; // Simulated Annealing: smoothed fraction of proposals accepted
+  coolingStep?: number; // Simulated Annealing: steps since the last (re)heat
+  annealBest?: number; // Simulated Annealing: best cost seen, for detecting stagnation
+  sinceImprovement?: number; // Simulated Annealing: steps since annealBest improved
+  reheats?: number; // Simulated Annealing: how many times the system has been reheated
+  nextId?: number; // Genetic: id for the next child born
+}
+
+// Ellipse (or circle) an evolution strategy is currently sampling from, in landscape coordinates
+export interface SearchDistribution {
+  center: Vector2;
+  radii: Vector2; // Semi-axes along the rotated x / y directions
+  angle: number; // Radians, counter-clockwise from the x axis
+}
+
+// Knobs consumed by stepSimulation (derived from OptimizationConfig)
+export interface StepConfig {
+  stepSize: number;
+  temperature: number;
+  mutationRate: number;
+  momentum: number;
+  rmsDecay: number;
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+  inertia: number;
+  cognitive: number;
+  social: number;
+  differentialWeight: number;
+  crossoverRate: number;
+  coolingSchedule: CoolingSchedule;
+  coolingAlpha: number;
+  coolingBeta: number;
+  targetAcceptance: number;
+  reheatWindow: number;
+  selection: SelectionMethod;
+  tournamentSize: number;
+  crossover: CrossoverMethod;
+  blxAlpha: number;
+  sbxEta: number;
+  mutation: MutationMethod;
+  mutationEta: number;
+  eliteFraction: number;
+  horizon: number; // Iterations the linear schedule spreads its cooling over
+}
+
+// One point on the convergence curve; evaluations and elapsedMs make algorithms comparable on cost, not just steps
+export interface HistoryEntry {
+  iteration: number;
+  cost: number; // Best cost among the current agents
+  evaluations: number; // Cumulative landscape evaluations
+  elapsedMs: number; // Cumulative compute time spent in the optimizer (excludes UI pacing)
+  temperature?: number; // Simulated Annealing only
+  acceptance?: number; // Simulated Annealing only: smoothed acceptance rate, 0..1
+  // Exploration metrics (missing on runs saved before they were recorded)
+  diversity?: number; // Mean pairwise agent distance / domain diagonal
+  entropy?: number; // Spatial entropy of the agents over a grid, 0..1
+  coverage?: number; // Fraction of the domain's grid cells any agent has visited so far
+  bestSoFar?: number; // Best cost found so far
+  improvementRate?: number; // Average drop in bestSoFar per iteration over the last few iterations
 }
 
 export interface SimulationState {
   running: boolean;
   iteration: number;
   bestPoint: Point | null;
-  history: { iteration: number; cost: number }[];
+  history: HistoryEntry[];
   agents: Point[]; // Current population or single agent position
   trails: Point[][]; // History of positions for each agent
+  rngState: number; // Seeded RNG position, so each step is a pure function of the previous state
+  optimizerState: OptimizerState;
+  evaluations: number; // Landscape function calls so far, including initialization
+  lastImprovement: number; // Iteration of the most recent new best, for the stagnation criterion
+  stopReason: StopReason | null; // Set once any stopping criterion fires
+  lineage: LineageNode[][]; // Genetic only: every generation's members, oldest first (elites reappear with their birth record)
+  visited: number[]; // Coverage grid cells visited so far, in discovery order
 }
 
 export interface OptimizationConfig {
@@ -25,10 +136,57 @@ export interface OptimizationConfig {
   learningRate: number; // or Step Size
   temperature?: number; // For Annealing
   populationSize?: number; // For Genetic
-  mutationRate?: number; // For Genetic
+  mutationRate?: number; // For Genetic (per-gene probability for gaussian / polynomial mutation)
+  selection?: SelectionMethod; // For Genetic
+  tournamentSize?: number; // For Genetic, tournament selection (k)
+  crossover?: CrossoverMethod; // For Genetic
+  blxAlpha?: number; // For Genetic, BLX-alpha crossover: how far past the parents a child may land
+  sbxEta?: number; // For Genetic, SBX distribution index (larger = children closer to parents)
+  mutation?: MutationMethod; // For Genetic
+  mutationEta?: number; // For Genetic, polynomial mutation distribution index
+  eliteFraction?: number; // For Genetic: share of the population copied unchanged into the next generation
+  momentum?: number; // For Momentum / Nesterov
+  rmsDecay?: number; // For RMSProp
+  beta1?: number; // For Adam (first moment decay)
+  beta2?: number; // For Adam (second moment decay)
+  epsilon?: number; // For RMSProp / Adam (numerical stability)
+  inertia?: number; // For Particle Swarm (w)
+  cognitive?: number; // For Particle Swarm (c1, pull toward personal best)
+  social?: number; // For Particle Swarm (c2, pull toward swarm best)
+  differentialWeight?: number; // For Differential Evolution (F)
+  crossoverRate?: number; // For Differential Evolution (CR)
+  coolingSchedule?: CoolingSchedule; // For Annealing
+  coolingAlpha?: number; // For Annealing, exponential schedule (T_k = T_0 alpha^k)
+  coolingBeta?: number; // For Annealing, Lundy-Mees schedule (T_{k+1} = T_k / (1 + beta T_k))
+  targetAcceptance?: number; // For Annealing, adaptive schedule
+  reheatWindow?: number; // For Annealing: reheat after this many steps without a new best (0 = never)
   maxIterations: number;
+  seed: number; // Seeds the RNG for agent placement and every stochastic step
+  // Stopping criteria (0 or unset = off, except maxIterations which always applies)
+  tolerance?: number; // A run has converged once its best cost is within this of globalMin
+  stopOnTolerance?: boolean; // End the run as soon as it converges
+  stagnationWindow?: number; // Stop after this many iterations without a new best
+  diversityThreshold?: number; // Stop when population spread falls below this fraction of the domain diagonal
+  evaluationBudget?: number; // Stop once this many landscape evaluations have been spent
+  limitBy?: 'iterations' | 'evaluations'; // Which budget caps the run; 'evaluations' ignores maxIterations
+  startPositions?: Vector2[]; // Hand-placed starting agents; they replace the worst of the random starts (2D landscapes only)
+  dimensions?: number; // Variables for landscapes that scale past two (unset = 2)
 }
 
+// How simulated annealing lowers its temperature over time
+export type CoolingSchedule = 'inverse' | 'linear' | 'exponential' | 'logarithmic' | 'lundy-mees' | 'adaptive';
+
+// Genetic algorithm operators
+export type SelectionMethod = 'truncation' | 'tournament' | 'roulette' | 'rank';
+export type CrossoverMethod = 'midpoint' | 'arithmetic' | 'blx-alpha' | 'sbx';
+export type MutationMethod = 'uniform' | 'gaussian' | 'polynomial';
+
+// What the convergence chart plots on its x-axis
+export type ChartAxis = 'iteration' | 'evaluations' | 'elapsedMs';
+
+// Which stopping criterion ended a run
+export type StopReason = 'max-iterations' | 'tolerance' | 'stagnation' | 'diversity' | 'budget';
+
 export interface Landscape {
   name: string;
   description: string;
@@ -41,6 +199,31 @@ export interface Landscape {
   maxY: number;
   // Optimal
   globalMin: number;
+  optima: Vector2[]; // Every location where globalMin is attained (verified numerically)
+  // n-dimensional form, for landscapes defined for any number of variables
+  scalable?: {
+    evaluate: (v: number[]) => number;
+    optimum: number; // Coordinate shared by every dimension at the global minimum
+    // [min, max] of coordinate k; without it every coordinate takes the one range x and y share
+    bounds?: (k: number) => [number, number];
+  };
+  // Set on landscapes with more than two dimensions (see withDimensions); func is then a 2D slice
+  dimensions?: number;
+  bounds?: [number, number][]; // [min, max] per dimension
+  evaluate?: (v: number[]) => number;
+}
+
+// User-defined landscape, kept as source text so it can be persisted and rebuilt inside the worker
+export interface CustomLandscapeDefinition {
+  name: string;
+  description: string;
+  expression: string; // e.g. "(1-x)^2 + 100*(y-x^2)^2"
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  globalMin: number;
+  optima?: Vector2[]; // Known minimizer locations, if any
 }
 
 export interface LearningModule {
@@ -49,18 +232,238 @@ export interface LearningModule {
   description: string;
   concept: string;
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
+  algorithm?: AlgorithmType; // Selecting the module switches the simulation to this algorithm
 }
 
 export interface SavedExperiment {
   id: string;
   name: string;
   timestamp: number;
-  config: OptimizationConfig;
+  config: OptimizationConfig; // Its seed replays the exact same trajectory when loaded
   landscapeName: string;
+  tags: string[];
+}
+
+// Everything needed to review a finished (or paused) run without re-running it
+export interface RunRecord {
+  id: string;
+  experimentId: string;
+  landscapeName: string;
+  config: OptimizationConfig;
+  iterations: number;
+  bestPoint: Point | null;
+  history: HistoryEntry[];
+  finalAgents: Point[];
+  trails: Point[][];
+  rngState: number; // With optimizerState, lets a restored run continue exactly where it stopped
+  optimizerState: OptimizerState;
+  evaluations?: number; // Missing on runs saved before stopping criteria existed
+  lastImprovement?: number;
+  stopReason?: StopReason | null;
+  lineage?: LineageNode[][]; // Genetic runs only
+  visited?: number[];
+  startedAt: number | null; // Wall-clock ms when the run was first started
+  finishedAt: number | null; // Null if saved before reaching maxIterations
+  durationMs: number; // Time spent running, excluding pauses
+  aiFeedback: string | null;
+  eli5Text: string | null;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+// One config repeated over many seeds
+export interface BenchmarkResult {
+  id: string;
+  label: string;
+  config: OptimizationConfig;
+  landscapeName: string;
+  tolerance: number;
+  finalCosts: number[]; // Best cost per seed, in seed order
+  meanBestCost: number;
+  medianBestCost: number;
+  meanCI: [number, number]; // 95% bootstrap interval for the mean
+  successRate: number; // 0..1, within tolerance of globalMin
+  expectedRunningTime: number | null; // Evaluations spent across all seeds per success; null if none succeeded
+  curve: { iteration: number; q25: number; median: number; q75: number }[]; // Best-so-far cost across seeds
+}
+
+export interface MannWhitneyResult {
+  u: number;
+  z: number;
+  pValue: number; // Two-sided
+}
+
+// One configuration in the side-by-side compare view
+export interface CompareLane {
+  id: string;
+  config: OptimizationConfig;
+}
+
+export interface SweepCellResult {
+  config: OptimizationConfig;
+  meanBestCost: number; // Final best cost, averaged over seeds
+  meanDistanceToOptimum: number | null; // Final best point to nearest known optimum; null if no optima are known
+  meanIterationsToThreshold: number | null; // Over successful seeds only; null if none succeeded
+  successRate: number; // 0..1
+}
+
+
+// --- Simulation Worker Protocol ---
+
+export type SimulationCommand =
+  | { type: 'reset'; config: OptimizationConfig; landscapeName: string; customLandscape?: CustomLandscapeDefinition }
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'step' }
+  | { type: 'config-update'; config?: OptimizationConfig; intervalMs?: number }
+  | { type: 'restore'; config: OptimizationConfig; landscapeName: string; customLandscape?: CustomLandscapeDefinition; state: SimulationState };
+
+// Compact update streamed from the worker; several iterations may be batched into one frame
+export interface SimulationFrame {
+  reset: boolean; // True when the receiver should discard its state and start over from this frame
+  running: boolean;
+  iteration: number;
+  bestPoint: Point | null;
+  history: HistoryEntry[]; // Entries added since the previous frame
+  steps: Float64Array[]; // Agent positions per iteration since the previous frame, packed as [x, y, value, ...]
+  rngState: number;
+  optimizerState: OptimizerState; // Latest only, for overlays such as the ES search distribution
+  evaluations: number;
+  lastImprovement: number;
+  stopReason: StopReason | null;
+  trails?: Point[][]; // Only on restore; replaces the trails rebuilt from steps
+  lineage: LineageNode[][]; // Genetic generations added since the previous frame (all of them on reset)
+  visited: number[]; // Coverage cells first visited since the previous frame (all of them on reset)
+  snapshots: StepSnapshot[]; // Per-iteration state matching `steps`, for the timeline
+}
+
+// Sent instead of a frame when a reset or restore names a landscape the worker cannot build
+export interface SimulationError {
+  error: string;
+}
+
+export type SimulationMessage = SimulationFrame | SimulationError;
+
+// What the timeline needs beyond agent positions to redraw a past iteration
+export interface StepSnapshot {
+  bestPoint: Point | null;
+  optimizerState: OptimizerState; // Only the fields a replay reads (see replayState)
+}
+
+// One recorded iteration
+export interface TimelineFrame extends StepSnapshot {
+  iteration: number;
+  agents: Float64Array; // Packed as [x, y, value, ...]
+}
+
+// Fixed-capacity ring buffer of recorded iterations; the oldest are dropped first
+export interface Timeline {
+  frames: TimelineFrame[];
+  capacity: number;
+  start: number; // Index in frames of the oldest iteration
+  size: number;
+}
+
+// Everything drawn over the heatmap for one iteration, by the Visualizer and the exporters
+export interface FrameScene {
+  agents: Point[];
+  trails: Point[][];
+  lineage: LineageNode[][];
+  distribution: SearchDistribution | null;
+  showTrails: boolean;
+  caption?: string[]; // Burned-in text (exports only)
+}
+
+export type AnimationFormat = 'gif' | 'webm';
+export type ImageFormat = 'png' | 'svg';
+
+export type ViewMode = '2d' | '3d';
+
+// Orbit camera around the centre of the 3D surface view
+export interface OrbitCamera {
+  yaw: number; // Radians around the vertical axis
+  pitch: number; // Radians above the ground plane
+  distance: number; // From the orbit target, in world units (the domain spans -1..1)
+}
+
+// Triangulated grid over the landscape domain, ready for upload to WebGL
+export interface SurfaceMesh {
+  positions: Float32Array; // World x, y, z per vertex
+  normals: Float32Array;
+  values: Float32Array; // Normalized cost 0..1 per vertex, for colouring
+  indices: Uint16Array;
+  minZ: number;
+  maxZ: number;
+}
+
+// Heatmap appearance
+export type Colormap = 'ocean' | 'viridis' | 'magma' | 'diverging';
+export type ColorScale = 'linear' | 'log' | 'quantile';
+
+export interface HeatmapStyle {
+  colormap: Colormap;
+  scale: ColorScale;
+  contours: number; // Number of contour levels, 0 for none
+}
+
+// Landscape cost sampled at every pixel of a view (row-major, top row = maxY)
+export interface ScalarField {
+  values: Float64Array;
+  width: number;
+  height: number;
+  min: number;
+  max: number;
+}
+
+// Mapping between cost and colour position 0..1
+export interface CostScale {
+  normalize: (cost: number) => number;
+  invert: (t: number) => number;
+}
+
+// Region of the domain shown by the Visualizer when zoomed in
+export interface ViewBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Optional analysis layers drawn over the heatmap
+export interface FieldOverlays {
+  gradient: boolean; // Descent arrows (negative gradient)
+  minima: boolean; // Local minima found by the basin search
+  basins: boolean; // Basins of attraction, shaded by the minimum a greedy descent reaches
+}
+
+// Steepest-descent basins over a coarse grid of a view (cells of `cell` pixels, row-major)
+export interface BasinMap {
+  columns: number;
+  rows: number;
+  cell: number;
+  labels: Int32Array; // Index into minima for each cell
+  minima: Point[];
+}
+
+// One descent arrow in pixel coordinates
+export interface QuiverArrow {
+  x: number; // Centre
+  y: number;
+  dx: number; // Unit direction on screen
+  dy: number;
+  length: number;
+}
+
+// How an n-dimensional run is flattened onto the 2D view
+export type ProjectionMode = 'slice' | 'pca';
+
+// Plane through the search space: view coordinates (a, b) sit at origin + a * u + b * v
+export interface ProjectionPlane {
+  origin: number[];
+  u: number[]; // Unit direction along the view's x axis
+  v: number[]; // Unit direction along the view's y axis, orthogonal to u
+}